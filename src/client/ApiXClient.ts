@@ -1,8 +1,51 @@
+import { ApiXMiddleware, runApiXMiddleware } from './middleware/ApiXMiddleware';
+import { ApiXOfflineQueue, ApiXOfflineQueueOptions } from './offline/ApiXOfflineQueue';
+import {
+  ApiXRequestAbortedError,
+  ApiXRequestError,
+  ApiXRequestTimeoutError
+} from './error/ApiXRequestError';
+import {
+  ApiXResponse,
+  ApiXResponseData
+} from './types/ApiXResponse';
+import { ApiXBatch } from './batch/ApiXBatch';
+import { ApiXCircuitBreaker } from './circuit/ApiXCircuitBreaker';
+import { ApiXClientOptions } from './types/ApiXClientOptions';
+import { ApiXClock } from './clock/ApiXClock';
+import { ApiXCookieJar } from './cookies/ApiXCookieJar';
 import { ApiXHttpMethod } from './types/ApiXHttpMethod';
 import { ApiXJsonObject } from './types/ApiXJsonObject';
 import { ApiXKeyStore } from './security/ApiXKeyStore';
+import { ApiXPaginateOptions } from './types/ApiXPaginateOptions';
+import { ApiXPaginationStrategy } from './pagination/ApiXPaginationStrategy';
+import { ApiXPaginator } from './pagination/ApiXPaginator';
+import { ApiXRateLimiter } from './ratelimit/ApiXRateLimiter';
 import { ApiXRequest } from './ApiXRequest';
-import { ApiXResponse } from './types/ApiXResponse';
+import { ApiXRequestBody } from './types/ApiXRequestBody';
+import { ApiXRequestOptions } from './types/ApiXRequestOptions';
+import { ApiXResponseError } from './error/ApiXResponseError';
+import { ApiXRetryHandler } from './retry/ApiXRetryHandler';
+import { buildApiXUrl } from './url/ApiXUrlBuilder';
+import { isApiXRequestBody } from './body/ApiXRequestBodyEncoder';
+
+/**
+ * A GET request being made for every caller that waits for it, when
+ * `deduplicateRequests` is set.
+ */
+interface ApiXInFlightRequest {
+  readonly response: Promise<ApiXResponse>;
+
+  /**
+   * Aborts the request, once every caller has stopped waiting for it.
+   */
+  readonly abortController: AbortController;
+
+  /**
+   * The number of callers that are waiting for the response.
+   */
+  waiters: number;
+}
 
 /**
  * A client for an API-X server.
@@ -13,36 +56,130 @@ import { ApiXResponse } from './types/ApiXResponse';
  */
 export class ApiXClient {
 
+  /**
+   * The circuit breakers of the client, if a circuit breaker policy is set.
+   * 
+   * Use it to read the state of a circuit, or to listen to state changes.
+   * 
+   * @category Breaking Circuits
+   */
+  public readonly circuitBreaker?: ApiXCircuitBreaker;
+
+  /**
+   * The clock used to stamp the `Date` header of requests, if a clock skew
+   * policy is set.
+   * 
+   * Use it to read the measured skew between the local clock and the server's.
+   * 
+   * @category Compensating Clock Skew
+   */
+  public readonly clock?: ApiXClock;
+
+  /**
+   * Runs request attempts according to the client's retry policy.
+   */
+  private readonly retryHandler: ApiXRetryHandler;
+
+  /**
+   * Rate limits the requests of the client, if a rate limit policy is set.
+   */
+  private readonly rateLimiter?: ApiXRateLimiter;
+
+  /**
+   * The middleware that wraps every request made by the client, in the order it runs.
+   */
+  private readonly middleware: ApiXMiddleware[] = [];
+
+  /**
+   * The GET requests being made, by deduplication key, when `deduplicateRequests` is set.
+   */
+  private readonly inFlightRequests = new Map<string, ApiXInFlightRequest>();
+
+  /**
+   * Identifies response validators in deduplication keys.
+   */
+  private readonly validatorIds = new WeakMap<object, number>();
+
+  private nextValidatorId = 1;
+
   /**
    * Creates a new instance of an API-X Client.
    * @param keyStore An object that securely retrieves API keys.
+   * @param options Options that apply to every request made by the client.
    */
   public constructor(
-    private readonly keyStore: ApiXKeyStore
-  ) {}
+    private readonly keyStore: ApiXKeyStore,
+    private readonly options: ApiXClientOptions = {}
+  ) {
+    this.retryHandler = new ApiXRetryHandler(options.retry ?? { maxAttempts: 1 });
+    this.rateLimiter = options.rateLimit ? new ApiXRateLimiter(options.rateLimit) : undefined;
+    this.circuitBreaker = options.circuitBreaker ? new ApiXCircuitBreaker(options.circuitBreaker) : undefined;
+    this.clock = options.clockSkew ? new ApiXClock(options.clockSkew) : undefined;
+  }
+
+  //// Getters ////
+  /**
+   * The cookie jar of the client, if any.
+   * 
+   * @category Working with HTTP Cookies
+   */
+  public get cookieJar(): ApiXCookieJar | undefined {
+    return this.options.cookieJar;
+  }
+
+  //// Configuring the Client ////
+  /**
+   * Adds a middleware that wraps every request made with the `make*` methods.
+   * 
+   * Middleware runs in the order it is added.
+   * @param middleware The middleware to add.
+   * @returns This client, for chaining.
+   * 
+   * @category Using Middleware
+   */
+  public use(middleware: ApiXMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
 
   //// Creating Request Objects ////
   /**
    * Creates a new request object that can be used to reach an API-X-based
    * API.
-   * @param url The URL of the API-X endpoint.
+   * @param url The URL of the API-X endpoint, or a path template (e.g.:
+   * `/users/:id`) that is resolved against the client's `baseUrl`.
    * @param httpMethod The HTTP Method to use.
-   * @param data The request JSON Body, if any.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
+   * @param options Additional options of the request, such as its timeout or headers.
    * @returns An `ApiXRequest` object that can be used to make a request.
+   * @throws `ApiXRequestError` if the URL cannot be built, or if a protected
+   * header is set.
    * 
    * @category Making API-X Requests
    */
-  public createRequest(
-    url: URL,
+  public createRequest<Path extends string>(
+    url: URL | Path,
     httpMethod: ApiXHttpMethod = 'GET',
-    data?: ApiXJsonObject
+    data?: ApiXJsonObject | ApiXRequestBody,
+    options: ApiXRequestOptions<Path> = {}
   ): ApiXRequest {
-    return new ApiXRequest({
-      url,
+    const request = new ApiXRequest({
+      url: this.resolveUrl(url, options),
       keyStore: this.keyStore,
-      data,
-      httpMethod
+      data: isApiXRequestBody(data) ? undefined : data,
+      body: isApiXRequestBody(data) ? data : undefined,
+      httpMethod,
+      transport: this.options.transport,
+      timeoutMs: options.timeoutMs ?? this.options.timeoutMs,
+      signal: options.signal,
+      validator: options.validator,
+      cache: this.options.cache,
+      clock: this.clock,
+      canonicalization: this.options.canonicalization
     });
+    Object.entries(options.headers ?? {}).forEach(([name, value]) => request.setHeader(name, value));
+    return request;
   }
 
   /**
@@ -61,12 +198,13 @@ export class ApiXClient {
    * Creates a new POST request object that can be used to reach an API-X-based
    * API.
    * @param url The URL of the API-X endpoint.
-   * @param data The request JSON Body, if any.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * 
    * @category Making API-X Requests
    */
-  public createPostRequest(url: URL, data?: ApiXJsonObject): ApiXRequest {
+  public createPostRequest(url: URL, data?: ApiXJsonObject | ApiXRequestBody): ApiXRequest {
     return this.createRequest(url, 'POST', data);
   }
 
@@ -74,12 +212,13 @@ export class ApiXClient {
    * Creates a new PUT request object that can be used to reach an API-X-based
    * API.
    * @param url The URL of the API-X endpoint.
-   * @param data The request JSON Body, if any.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * 
    * @category Making API-X Requests
    */
-  public createPutRequest(url: URL, data?: ApiXJsonObject): ApiXRequest {
+  public createPutRequest(url: URL, data?: ApiXJsonObject | ApiXRequestBody): ApiXRequest {
     return this.createRequest(url, 'PUT', data);
   }
 
@@ -87,12 +226,13 @@ export class ApiXClient {
    * Creates a new DELETE request object that can be used to reach an API-X-based
    * API.
    * @param url The URL of the API-X endpoint.
-   * @param data The request JSON Body, if any.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * 
    * @category Making API-X Requests
    */
-  public createDeleteRequest(url: URL, data?: ApiXJsonObject): ApiXRequest {
+  public createDeleteRequest(url: URL, data?: ApiXJsonObject | ApiXRequestBody): ApiXRequest {
     return this.createRequest(url, 'DELETE', data);
   }
 
@@ -100,95 +240,602 @@ export class ApiXClient {
    * Creates a new PATCH request object that can be used to reach an API-X-based
    * API.
    * @param url The URL of the API-X endpoint.
-   * @param data The request JSON Body, if any.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * 
    * @category Making API-X Requests
    */
-  public createPatchRequest(url: URL, data?: ApiXJsonObject): ApiXRequest {
+  public createPatchRequest(url: URL, data?: ApiXJsonObject | ApiXRequestBody): ApiXRequest {
     return this.createRequest(url, 'PATCH', data);
   }
 
   //// Making Direct Requests ////
   /**
    * Makes a request to an API-X-based API.
-   * @param url The URL of the API-X endpoint.
+   * 
+   * The request passes through the client's middleware (see `use`). If the
+   * client has a retry policy, failed attempts are retried with a new
+   * request, which has its own `Date` header, nonce and signature.
+   * @param url The URL of the API-X endpoint, or a path template (e.g.:
+   * `/users/:id`) that is resolved against the client's `baseUrl`.
    * @param httpMethod The HTTP Method to use.
-   * @param data The request JSON Body, if any.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
+   * @param options Additional options of the request, such as its timeout or
+   * a validator for the response data.
+   * @typeParam DataType The type of the response data, e.g. an `ApiXSuccessResponse`.
+   * It is inferred from `options.validator` when one is given.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * @throws May throw errors that need to be caught.
    * 
    * @category Making API-X Requests
    */
-  public async makeRequest(
-    url: URL,
+  public async makeRequest<
+    DataType extends ApiXResponseData = ApiXResponseData,
+    Path extends string = string
+  >(
+    url: URL | Path,
     httpMethod: ApiXHttpMethod = 'GET',
-    data?: ApiXJsonObject
-  ): Promise<ApiXResponse> {
-    return await this.createRequest(url, httpMethod, data).make();
+    data?: ApiXJsonObject | ApiXRequestBody,
+    options: ApiXRequestOptions<Path, DataType> = {}
+  ): Promise<ApiXResponse<DataType>> {
+    return await this.retryHandler.run(
+      httpMethod,
+      () => this.attempt<DataType, Path>(url, httpMethod, data, options),
+      options.signal
+    );
   }
 
   /**
    * Makes a GET request to an API-X-based API.
-   * @param url The URL of the API-X endpoint.
+   * @param url The URL of the API-X endpoint, or a path template (e.g.:
+   * `/users/:id`) that is resolved against the client's `baseUrl`.
+   * @param options Additional options of the request, such as its timeout or
+   * a validator for the response data.
+   * @typeParam DataType The type of the response data, e.g. an `ApiXSuccessResponse`.
+   * It is inferred from `options.validator` when one is given.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * @throws May throw errors that need to be caught.
    * 
    * @category Making API-X Requests
    */
-  public async makeGetRequest(url: URL): Promise<ApiXResponse> {
-    return await this.makeRequest(url);
+  public async makeGetRequest<
+    DataType extends ApiXResponseData = ApiXResponseData,
+    Path extends string = string
+  >(
+    url: URL | Path,
+    options?: ApiXRequestOptions<Path, DataType>
+  ): Promise<ApiXResponse<DataType>> {
+    return await this.makeRequest<DataType, Path>(url, 'GET', undefined, options);
   }
 
   /**
    * Makes a POST request to an API-X-based API.
-   * @param url The URL of the API-X endpoint.
-   * @param data The request JSON Body, if any.
+   * @param url The URL of the API-X endpoint, or a path template (e.g.:
+   * `/users/:id`) that is resolved against the client's `baseUrl`.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
+   * @param options Additional options of the request, such as its timeout or
+   * a validator for the response data.
+   * @typeParam DataType The type of the response data, e.g. an `ApiXSuccessResponse`.
+   * It is inferred from `options.validator` when one is given.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * @throws May throw errors that need to be caught.
    * 
    * @category Making API-X Requests
    */
-  public async makePostRequest(url: URL, data?: ApiXJsonObject): Promise<ApiXResponse> {
-    return await this.makeRequest(url, 'POST', data);
+  public async makePostRequest<
+    DataType extends ApiXResponseData = ApiXResponseData,
+    Path extends string = string
+  >(
+    url: URL | Path,
+    data?: ApiXJsonObject | ApiXRequestBody,
+    options?: ApiXRequestOptions<Path, DataType>
+  ): Promise<ApiXResponse<DataType>> {
+    return await this.makeRequest<DataType, Path>(url, 'POST', data, options);
   }
 
   /**
    * Makes a PUT request to an API-X-based API.
-   * @param url The URL of the API-X endpoint.
-   * @param data The request JSON Body, if any.
+   * @param url The URL of the API-X endpoint, or a path template (e.g.:
+   * `/users/:id`) that is resolved against the client's `baseUrl`.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
+   * @param options Additional options of the request, such as its timeout or
+   * a validator for the response data.
+   * @typeParam DataType The type of the response data, e.g. an `ApiXSuccessResponse`.
+   * It is inferred from `options.validator` when one is given.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * @throws May throw errors that need to be caught.
    * 
    * @category Making API-X Requests
    */
-  public async makePutRequest(url: URL, data?: ApiXJsonObject): Promise<ApiXResponse> {
-    return await this.makeRequest(url, 'PUT', data);
+  public async makePutRequest<
+    DataType extends ApiXResponseData = ApiXResponseData,
+    Path extends string = string
+  >(
+    url: URL | Path,
+    data?: ApiXJsonObject | ApiXRequestBody,
+    options?: ApiXRequestOptions<Path, DataType>
+  ): Promise<ApiXResponse<DataType>> {
+    return await this.makeRequest<DataType, Path>(url, 'PUT', data, options);
   }
 
   /**
    * Makes a DELETE request to an API-X-based API.
-   * @param url The URL of the API-X endpoint.
-   * @param data The request JSON Body, if any.
+   * @param url The URL of the API-X endpoint, or a path template (e.g.:
+   * `/users/:id`) that is resolved against the client's `baseUrl`.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
+   * @param options Additional options of the request, such as its timeout or
+   * a validator for the response data.
+   * @typeParam DataType The type of the response data, e.g. an `ApiXSuccessResponse`.
+   * It is inferred from `options.validator` when one is given.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * @throws May throw errors that need to be caught.
    * 
    * @category Making API-X Requests
    */
-  public async makeDeleteRequest(url: URL, data?: ApiXJsonObject): Promise<ApiXResponse> {
-    return await this.makeRequest(url, 'DELETE', data);
+  public async makeDeleteRequest<
+    DataType extends ApiXResponseData = ApiXResponseData,
+    Path extends string = string
+  >(
+    url: URL | Path,
+    data?: ApiXJsonObject | ApiXRequestBody,
+    options?: ApiXRequestOptions<Path, DataType>
+  ): Promise<ApiXResponse<DataType>> {
+    return await this.makeRequest<DataType, Path>(url, 'DELETE', data, options);
   }
 
   /**
    * Makes a PATCH request to an API-X-based API.
-   * @param url The URL of the API-X endpoint.
-   * @param data The request JSON Body, if any.
+   * @param url The URL of the API-X endpoint, or a path template (e.g.:
+   * `/users/:id`) that is resolved against the client's `baseUrl`.
+   * @param data The request body, if any: a JSON object, or a non-JSON body
+   * such as `FormData`, `URLSearchParams` or a `Buffer`.
+   * @param options Additional options of the request, such as its timeout or
+   * a validator for the response data.
+   * @typeParam DataType The type of the response data, e.g. an `ApiXSuccessResponse`.
+   * It is inferred from `options.validator` when one is given.
    * @returns An `ApiXRequest` object that can be used to make a request.
    * @throws May throw errors that need to be caught.
    * 
    * @category Making API-X Requests
    */
-  public async makePatchRequest(url: URL, data?: ApiXJsonObject): Promise<ApiXResponse> {
-    return await this.makeRequest(url, 'PATCH', data);
+  public async makePatchRequest<
+    DataType extends ApiXResponseData = ApiXResponseData,
+    Path extends string = string
+  >(
+    url: URL | Path,
+    data?: ApiXJsonObject | ApiXRequestBody,
+    options?: ApiXRequestOptions<Path, DataType>
+  ): Promise<ApiXResponse<DataType>> {
+    return await this.makeRequest<DataType, Path>(url, 'PATCH', data, options);
+  }
+
+  //// Compensating Clock Skew ////
+  /**
+   * Measures the skew between the local clock and the server's with a
+   * request to the `syncEndpoint` of the client's clock skew policy.
+   * 
+   * The skew is measured from the `serverTime` field of the response data if
+   * there is one, and from its `Date` header otherwise. Requests made
+   * afterwards are stamped with the measured skew.
+   * @param options The timeout and cancellation signal of the request.
+   * @returns The measured skew, in milliseconds (see `ApiXClock.skewMs`).
+   * @throws `ApiXRequestError` if the client has no clock skew policy, or if
+   * it has no `syncEndpoint`, and errors of the request.
+   * 
+   * @category Compensating Clock Skew
+   */
+  public async synchronizeClock(options: Pick<ApiXRequestOptions, 'timeoutMs' | 'signal'> = {}): Promise<number> {
+    const clock = this.clock;
+    const syncEndpoint = this.options.clockSkew?.syncEndpoint;
+    if (!clock || syncEndpoint === undefined) {
+      throw new ApiXRequestError('A clock skew policy with a syncEndpoint is required to synchronize the clock.');
+    }
+
+    const sentAt = Date.now();
+    const response = await this.makeGetRequest(this.resolveUrl(syncEndpoint, {}), options);
+    const receivedAt = Date.now();
+    const serverTime = (response.data as { serverTime?: unknown } | undefined)?.serverTime;
+    if (typeof serverTime === 'string' || typeof serverTime === 'number') {
+      clock.observe(new Date(serverTime), sentAt, receivedAt);
+    } else if (response.headers?.has('Date')) {
+      clock.observe(new Date(response.headers.get('Date') ?? ''), sentAt, receivedAt, 1000);
+    }
+    return clock.skewMs;
+  }
+
+  //// Batching Requests ////
+  /**
+   * Creates a batch that sends several operations in a single signed request
+   * to the client's batch endpoint (see `ApiXClientOptions.batch`).
+   * 
+   * The batch request passes through the client's middleware, rate limiter,
+   * circuit breakers and retry policy like any other request.
+   * @returns An empty `ApiXBatch`.
+   * 
+   * @category Batching Requests
+   */
+  public batch(): ApiXBatch {
+    return new ApiXBatch(
+      (url, httpMethod, data, options) => this.makeRequest(url, httpMethod, data, options),
+      this.options.baseUrl,
+      this.options.batch
+    );
+  }
+
+  //// Queueing Offline Requests ////
+  /**
+   * Creates a queue that stores requests made while the device is offline,
+   * and replays them in order once it is back online.
+   * 
+   * Replayed requests are signed when they are sent, and pass through the
+   * client's middleware, rate limiter, circuit breakers and retry policy.
+   * @param options The storage of the queue, and a callback for the requests
+   * that fail with a conflict or a permanent error.
+   * @returns An `ApiXOfflineQueue`.
+   * 
+   * @category Queueing Offline Requests
+   */
+  public createOfflineQueue(options?: ApiXOfflineQueueOptions): ApiXOfflineQueue {
+    return new ApiXOfflineQueue(
+      (url, httpMethod, data, requestOptions) => this.makeRequest(url, httpMethod, data, requestOptions),
+      this.options.baseUrl,
+      options
+    );
+  }
+
+  //// Paginating Lists ////
+  /**
+   * Reads a paginated list from an API-X-based API.
+   * 
+   * Each page is requested with a new GET request, which has its own `Date`
+   * header, nonce and signature, and passes through the client's middleware
+   * and retry policy. Pages are only requested as they are iterated.
+   * 
+   * ```typescript
+   * const users = client.paginate('/users', apiXOffsetPagination<User>({ pageSize: 50 }));
+   * for await (const page of users.pages()) {
+   *   console.log(page.items.length);
+   * }
+   * ```
+   * @param url The URL of the list, or a path template (e.g.:
+   * `/users/:id/posts`) that is resolved against the client's `baseUrl`.
+   * @param strategy How the pages are requested and read, e.g.
+   * `apiXCursorPagination`, `apiXOffsetPagination` or `apiXLinkPagination`.
+   * @param options Options of every page request, such as a validator, and
+   * the maximum number of pages and items to read.
+   * @typeParam Item The type of the items of the list.
+   * @typeParam DataType The type of the response data of each page.
+   * @returns A paginator that iterates over the items of the list, or over
+   * its pages with `pages()`.
+   * @throws `ApiXRequestError` if the URL cannot be built.
+   * 
+   * @category Paginating Responses
+   */
+  public paginate<
+    Item = unknown,
+    DataType extends ApiXResponseData = ApiXResponseData,
+    Path extends string = string
+  >(
+    url: URL | Path,
+    strategy: ApiXPaginationStrategy<Item, DataType>,
+    options: ApiXPaginateOptions<Path, DataType> = {}
+  ): ApiXPaginator<Item, DataType> {
+    const { params, query, maxPages, maxItems, ...requestOptions } = options;
+    return new ApiXPaginator(
+      this.resolveUrl(url, { params, query }),
+      strategy,
+      pageUrl => this.makeGetRequest<DataType>(pageUrl, requestOptions),
+      { maxPages, maxItems }
+    );
+  }
+
+  //// Helper Methods ////
+  /**
+   * Resolves the URL of a request against the client's `baseUrl`.
+   * @param url The URL, or a path template.
+   * @param options The path and query parameters of the request.
+   * @returns The URL of the request.
+   */
+  private resolveUrl<Path extends string>(url: URL | Path, options: ApiXRequestOptions<Path>): URL {
+    return buildApiXUrl(url, {
+      baseUrl: this.options.baseUrl,
+      params: options.params,
+      query: options.query
+    });
+  }
+
+  /**
+   * Makes one attempt of a request through the circuit breaker of its
+   * origin, if any.
+   * 
+   * A GET request with a fresh cached response is sent without the circuit
+   * breaker and rate limiter, since it never reaches the server.
+   * @returns The response of the request.
+   */
+  private async attempt<DataType extends ApiXResponseData, Path extends string>(
+    url: URL | Path,
+    httpMethod: ApiXHttpMethod,
+    data: ApiXJsonObject | ApiXRequestBody | undefined,
+    options: ApiXRequestOptions<Path, DataType>
+  ): Promise<ApiXResponse<DataType>> {
+    if (await this.hasFreshCachedResponse(url, httpMethod, data, options)) {
+      return await this.send<DataType>(this.createRequest(url, httpMethod, data, options));
+    }
+
+    const circuitBreaker = this.circuitBreaker;
+    if (!circuitBreaker) {
+      return await this.sendWhenAllowed<DataType, Path>(url, httpMethod, data, options);
+    }
+
+    return await circuitBreaker.run(
+      this.resolveUrl(url, options).origin,
+      () => this.sendWhenAllowed<DataType, Path>(url, httpMethod, data, options)
+    );
+  }
+
+  /**
+   * Determines whether a request would be answered with a fresh response from
+   * the client's cache.
+   * @returns `true` if the cache has a fresh response for the request.
+   */
+  private async hasFreshCachedResponse<Path extends string>(
+    url: URL | Path,
+    httpMethod: ApiXHttpMethod,
+    data: ApiXJsonObject | ApiXRequestBody | undefined,
+    options: ApiXRequestOptions<Path>
+  ): Promise<boolean> {
+    const cache = this.options.cache;
+    if (!cache || httpMethod !== 'GET' || isApiXRequestBody(data)) {
+      return false;
+    }
+    const request = this.addCookieJarCookies(this.createRequest(url, httpMethod, data, options));
+    const keys = await this.keyStore.getKeys();
+    const cached = await cache.lookup(request.url, request.headers, keys.apiKey);
+    return cached?.fresh === true;
+  }
+
+  /**
+   * Waits for the rate limiter, if any, then creates, signs and sends a new request.
+   * 
+   * The request is only created once the rate limiter lets it through, so its
+   * `Date` header and nonce are those of the moment it is sent.
+   * @returns The response of the request.
+   */
+  private async sendWhenAllowed<DataType extends ApiXResponseData, Path extends string>(
+    url: URL | Path,
+    httpMethod: ApiXHttpMethod,
+    data: ApiXJsonObject | ApiXRequestBody | undefined,
+    options: ApiXRequestOptions<Path, DataType>
+  ): Promise<ApiXResponse<DataType>> {
+    const rateLimiter = this.rateLimiter;
+    if (!rateLimiter) {
+      return await this.send<DataType>(this.createRequest(url, httpMethod, data, options));
+    }
+
+    const rateLimitKey = rateLimiter.key(this.resolveUrl(url, options), httpMethod);
+    const timeoutMs = await this.acquireRateLimitToken(
+      rateLimiter,
+      rateLimitKey,
+      options.signal,
+      options.timeoutMs ?? this.options.timeoutMs
+    );
+    try {
+      const response = await this.send<DataType>(this.createRequest(url, httpMethod, data, { ...options, timeoutMs }));
+      rateLimiter.update(rateLimitKey, response.statusCode, response.headers);
+      return response;
+    } catch (error) {
+      if (error instanceof ApiXResponseError) {
+        rateLimiter.update(rateLimitKey, error.statusCode, error.headers);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Waits for a rate limit token, for at most the timeout of the request.
+   * @param rateLimiter The client's rate limiter.
+   * @param key The key of the bucket.
+   * @param signal A signal that stops waiting.
+   * @param timeoutMs The timeout of the request, if any.
+   * @returns What is left of the timeout once a token is taken, so that the
+   * timeout covers the wait and the request together.
+   * @throws `ApiXRequestTimeoutError` if the timeout elapses while waiting, or
+   * `ApiXRequestAbortedError` if `signal` is aborted while waiting.
+   */
+  private async acquireRateLimitToken(
+    rateLimiter: ApiXRateLimiter,
+    key: string,
+    signal?: AbortSignal,
+    timeoutMs?: number
+  ): Promise<number | undefined> {
+    if (timeoutMs === undefined) {
+      await rateLimiter.acquire(key, signal);
+      return undefined;
+    }
+
+    const startedAt = Date.now();
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort(signal?.reason);
+    let didTimeOut = false;
+    const timeout = setTimeout(() => {
+      didTimeOut = true;
+      abortController.abort();
+    }, timeoutMs);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      await rateLimiter.acquire(key, abortController.signal);
+    } catch (error) {
+      throw didTimeOut ? new ApiXRequestTimeoutError(timeoutMs) : error;
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    }
+    return Math.max(1, timeoutMs - (Date.now() - startedAt));
+  }
+
+  /**
+   * Sends a request through the client's middleware.
+   * @param request The request to send.
+   * @returns The response returned by the middleware chain.
+   */
+  private async send<DataType extends ApiXResponseData>(
+    request: ApiXRequest
+  ): Promise<ApiXResponse<DataType>> {
+    const response = await runApiXMiddleware(
+      this.middleware,
+      this.addCookieJarCookies(request),
+      () => this.makeDeduplicated(request)
+    );
+    return response as ApiXResponse<DataType>;
+  }
+
+  /**
+   * Adds the cookies of the client's cookie jar to a request. Cookies already
+   * set on the request take precedence.
+   * @param request The request.
+   * @returns The request.
+   */
+  private addCookieJarCookies(request: ApiXRequest): ApiXRequest {
+    const cookieJar = this.options.cookieJar;
+    if (cookieJar) {
+      request.setCookies({
+        ...cookieJar.getCookieValues(request.url),
+        ...request.cookies
+      });
+    }
+    return request;
+  }
+
+  /**
+   * Makes a request, or, if `deduplicateRequests` is set and an identical GET
+   * request is already being made, waits for the response of that request.
+   * 
+   * A shared request has its own signal and no timeout. Each caller's signal
+   * and timeout only end their own wait, and the shared request is aborted
+   * once every caller has stopped waiting.
+   * @param request The request to make.
+   * @returns The response of the request, shared with identical requests.
+   */
+  private async makeDeduplicated(request: ApiXRequest): Promise<ApiXResponse> {
+    if (!this.options.deduplicateRequests || request.httpMethod !== 'GET' || request.body !== undefined) {
+      return await this.makeAndStoreCookies(request);
+    }
+    if (request.signal?.aborted) {
+      throw new ApiXRequestAbortedError(request.signal.reason);
+    }
+
+    const key = this.deduplicationKey(request);
+    let inFlightRequest = this.inFlightRequests.get(key);
+    if (!inFlightRequest) {
+      const abortController = new AbortController();
+      const sharedRequest = request.withCancellation({ signal: abortController.signal });
+      const response = this.makeAndStoreCookies(sharedRequest).finally(() => {
+        if (this.inFlightRequests.get(key) === inFlightRequest) {
+          this.inFlightRequests.delete(key);
+        }
+      });
+      inFlightRequest = { response, abortController, waiters: 0 };
+      this.inFlightRequests.set(key, inFlightRequest);
+    }
+    return await this.waitForInFlightRequest(key, inFlightRequest, request);
+  }
+
+  /**
+   * Builds the key under which identical requests are deduplicated: their URL,
+   * unprotected headers (except `Date`), cookies, body and validator.
+   */
+  private deduplicationKey(request: ApiXRequest): string {
+    const headers = Object.entries(request.headers)
+      .filter(([name]) => name.toLowerCase() !== 'date')
+      .map(([name, value]) => [name.toLowerCase(), value])
+      .sort(([lhs], [rhs]) => lhs < rhs ? -1 : lhs > rhs ? 1 : 0);
+    const validatorId = request.validator ? this.validatorId(request.validator) : 0;
+    return JSON.stringify([request.url.toString(), headers, request.data ?? null, validatorId]);
+  }
+
+  private validatorId(validator: object): number {
+    let id = this.validatorIds.get(validator);
+    if (id === undefined) {
+      id = this.nextValidatorId++;
+      this.validatorIds.set(validator, id);
+    }
+    return id;
+  }
+
+  /**
+   * Waits for a shared request, unless the caller's signal is aborted or
+   * timeout elapses first. When the last caller stops waiting, the shared
+   * request is aborted.
+   */
+  private waitForInFlightRequest(
+    key: string,
+    inFlightRequest: ApiXInFlightRequest,
+    request: ApiXRequest
+  ): Promise<ApiXResponse> {
+    const { signal, timeoutMs } = request;
+    inFlightRequest.waiters += 1;
+
+    return new Promise<ApiXResponse>((resolve, reject) => {
+      const stopWaiting = (error: ApiXRequestError) => {
+        cleanUp();
+        reject(error);
+        inFlightRequest.waiters -= 1;
+        if (inFlightRequest.waiters === 0) {
+          if (this.inFlightRequests.get(key) === inFlightRequest) {
+            this.inFlightRequests.delete(key);
+          }
+          inFlightRequest.abortController.abort();
+        }
+      };
+      const onAbort = () => stopWaiting(new ApiXRequestAbortedError(signal?.reason));
+      const timeout = timeoutMs !== undefined
+        ? setTimeout(() => stopWaiting(new ApiXRequestTimeoutError(timeoutMs)), timeoutMs)
+        : undefined;
+      const cleanUp = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      inFlightRequest.response.then(
+        response => {
+          cleanUp();
+          resolve(response);
+        },
+        error => {
+          cleanUp();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Makes a request and stores the cookies of its response, or of its
+   * error response, in the client's cookie jar.
+   * @param request The request to make.
+   * @returns The response of the request.
+   */
+  private async makeAndStoreCookies(request: ApiXRequest): Promise<ApiXResponse> {
+    const cookieJar = this.options.cookieJar;
+    try {
+      const response = await request.make();
+      cookieJar?.setCookies(response.cookies ?? [], request.url);
+      return response;
+    } catch (error) {
+      if (error instanceof ApiXResponseError) {
+        cookieJar?.setCookies(error.cookies ?? [], request.url);
+      }
+      throw error;
+    }
   }
 }
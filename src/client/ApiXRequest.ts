@@ -1,21 +1,67 @@
+import { ApiXCookie, parseSetCookie } from './cookies/ApiXCookie';
 import {
   ApiXErrorResponse,
   isApiXErrorResponse
 } from './types';
+import {
+  ApiXRequestAbortedError,
+  ApiXRequestError,
+  ApiXRequestNetworkError,
+  ApiXRequestTimeoutError
+} from './error/ApiXRequestError';
+import {
+  ApiXResponse,
+  ApiXResponseData
+} from './types/ApiXResponse';
 import {
   ApiXResponseError,
+  ApiXResponseUnauthorizedRequestError,
   errorForResponse
 } from './error/ApiXResponseError';
 import {
-  createHmac,
-  randomBytes
-} from 'crypto';
+  ApiXTransport,
+  ApiXTransportStreamResponse
+} from './transport/ApiXTransport';
+import {
+  apiXRequestBodyContentType,
+  createApiXMultipartBoundary,
+  digestApiXRequestBody,
+  encodeApiXRequestBody
+} from './body/ApiXRequestBodyEncoder';
+import {
+  parseApiXNdjson,
+  parseApiXServerSentEvents
+} from './streaming/ApiXStreamParsers';
+import { ApiXCanonicalizationVersion } from './signing/ApiXCanonicalJson';
+import { ApiXClock } from './clock/ApiXClock';
+import { ApiXClockSkewError } from './error/ApiXClockSkewError';
+import { ApiXFetchTransport } from './transport/ApiXFetchTransport';
 import { ApiXHttpMethod } from './types/ApiXHttpMethod';
 import { ApiXJsonObject } from './types/ApiXJsonObject';
 import { ApiXKeyStore } from './security/ApiXKeyStore';
+import { ApiXRequestBody } from './types/ApiXRequestBody';
 import { ApiXRequestConfig } from './types/ApiXRequestConfig';
-import { ApiXRequestError } from './error';
-import { ApiXResponse } from './types/ApiXResponse';
+import { ApiXResponseCache } from './cache/ApiXResponseCache';
+import { ApiXResponseHeaders } from './headers/ApiXResponseHeaders';
+import { ApiXResponseStream } from './streaming/ApiXResponseStream';
+import { ApiXResponseValidator } from './types/ApiXResponseValidator';
+import { ApiXServerSentEvent } from './types/ApiXServerSentEvent';
+import { ApiXSignatureKey } from './signing/ApiXSignatureScheme';
+import { ApiXSigner } from './signing/ApiXSigner';
+import { ApiXStreamFormat } from './types/ApiXStreamFormat';
+import { canonicalizeApiXUrl } from './url/ApiXCanonicalQuery';
+import { validateApiXResponse } from './validation/ApiXResponseValidation';
+
+/**
+ * The signal that aborts a request being sent, and how to clean it up.
+ */
+interface ApiXCancellation {
+  readonly signal: AbortSignal;
+  didTimeOut: boolean;
+  abort(): void;
+  clearTimeout(): void;
+  dispose(): void;
+}
 
 /**
  * Headers that can be set on an API-X request.
@@ -32,10 +78,13 @@ export enum ApiXRequestHeaders {
 enum ProtectedHeaders {
   Signature = 'X-Signature',
   SignatureNonce = 'X-Signature-Nonce',
+  SignatureAlgorithm = 'X-Signature-Algorithm',
+  SignatureCanonicalization = 'X-Signature-Canonicalization',
   ApiKey = 'X-API-Key'
 }
 
 enum ReadOnlyHeaders {
+  ContentDigest = 'Content-Digest',
   ContentType = 'Content-Type',
   Date = 'Date'
 }
@@ -50,6 +99,9 @@ export class ApiXRequest {
   //// Public Properties ////
   /**
    * The URL to which the request will be made. 
+   * 
+   * Its query is in canonical form (see `canonicalApiXQueryString`), which is
+   * the form that is both sent and signed.
    */
   public readonly url: URL;
 
@@ -57,12 +109,37 @@ export class ApiXRequest {
    * The HTTP Body to send with the request, if any.
    */
   public readonly data?: ApiXJsonObject;
+
+  /**
+   * The non-JSON HTTP Body to send with the request, if any.
+   */
+  public readonly body?: ApiXRequestBody;
   
   /**
    * The HTTP Method to use with the request.
    */
   public readonly httpMethod: ApiXHttpMethod;
 
+  /**
+   * The maximum time to wait for the response, in milliseconds, if any.
+   */
+  public readonly timeoutMs?: number;
+
+  /**
+   * The signal that cancels the request, if any.
+   */
+  public readonly signal?: AbortSignal;
+
+  /**
+   * The validator that checks the data of a successful response, if any.
+   */
+  public readonly validator?: ApiXResponseValidator<ApiXResponseData>;
+
+  /**
+   * The cache in which the response of a GET request is looked up and stored, if any.
+   */
+  public readonly cache?: ApiXResponseCache;
+
   //// Private Properties ////
 
   /**
@@ -70,6 +147,21 @@ export class ApiXRequest {
    */
   private readonly keyStore: ApiXKeyStore;
 
+  /**
+   * The transport used to send the signed request.
+   */
+  private readonly transport: ApiXTransport;
+
+  /**
+   * The clock used to stamp the `Date` header, if any.
+   */
+  private readonly clock?: ApiXClock;
+
+  /**
+   * How the JSON body is canonicalized when the request is signed.
+   */
+  private readonly canonicalization?: ApiXCanonicalizationVersion;
+
   /**
    * Contains the protected headers–headers that shoudn't be read nor overwritten for any reason,
    * and should only be retained while the request is actively being processed.
@@ -103,43 +195,115 @@ export class ApiXRequest {
    */
   private cookiesStore: Record<string, string> = {};
 
+  /**
+   * The boundary used to encode a `FormData` body.
+   */
+  private readonly multipartBoundary: string;
+
+  /**
+   * The digest of the encoded non-JSON body, once it has been encoded.
+   */
+  private bodyDigest?: string;
+
   //// Constructor ////
   /**
    * Creates a new request object to make an API-X-compatible request.
    * @param config The configuration of the request.
+   * @throws `ApiXRequestError` if both `data` and `body` are set.
    */
   public constructor(config: ApiXRequestConfig) {
-    this.url = config.url;
+    if (config.data !== undefined && config.body !== undefined) {
+      throw new ApiXRequestError('An API-X Request cannot have both a JSON body (data) and a non-JSON body.');
+    }
+
+    this.url = canonicalizeApiXUrl(config.url);
     this.httpMethod = config.httpMethod ?? 'GET';
     this.data = config.data;
+    this.body = config.body;
+    this.multipartBoundary = createApiXMultipartBoundary();
     this.keyStore = config.keyStore;
+    this.transport = config.transport ?? new ApiXFetchTransport();
+    this.timeoutMs = config.timeoutMs;
+    this.signal = config.signal;
+    this.validator = config.validator;
+    this.cache = config.cache;
+    this.clock = config.clock;
+    this.canonicalization = config.canonicalization;
 
     this.initializeReadOnlyHeaders();
   }
 
+  /**
+   * Creates an unsent copy of the request, with the same headers and cookies,
+   * that is cancelled by another signal and timeout instead of its own.
+   * 
+   * The copy is dated and signed when it is sent, like any new request.
+   * @param cancellation The signal and timeout of the copy, if any.
+   * @returns The copy of the request.
+   * 
+   * @category Making API-X Requests
+   */
+  public withCancellation(cancellation: Pick<ApiXRequestConfig, 'signal' | 'timeoutMs'>): ApiXRequest {
+    const copy = new ApiXRequest({
+      url: this.url,
+      keyStore: this.keyStore,
+      httpMethod: this.httpMethod,
+      data: this.data,
+      body: this.body,
+      transport: this.transport,
+      validator: this.validator,
+      cache: this.cache,
+      clock: this.clock,
+      canonicalization: this.canonicalization,
+      signal: cancellation.signal,
+      timeoutMs: cancellation.timeoutMs
+    });
+    Object.assign(copy.unprotectedHeaders, this.unprotectedHeaders);
+    copy.cookiesStore = { ...this.cookiesStore };
+    return copy;
+  }
+
   /**
    * Initializes the read-only headers for the request.
    */
   private initializeReadOnlyHeaders() {
     // Initialize read-only headers
-    const requestDate = (new Date()).toUTCString();
-    this.readOnlyHeaders[this.headerName(ReadOnlyHeaders.ContentType)] = 'application/json';
+    const requestDate = (this.clock?.now() ?? new Date()).toUTCString();
+    this.readOnlyHeaders[this.headerName(ReadOnlyHeaders.ContentType)] = this.body !== undefined
+      ? apiXRequestBodyContentType(this.body, this.multipartBoundary)
+      : 'application/json';
     this.readOnlyHeaders[this.headerName(ReadOnlyHeaders.Date)] = requestDate;
   }
 
   /**
    * Initializes the protected / short-lived headers for the request.
    * @param apiKey The API key to use for the request.
-   * @param appKey The application key to use for the request.
+   * @param signingKey The key with which the request is signed, and its scheme.
    */
-  private initializeProtectedHeaders(apiKey: string, appKey: string) {
+  private initializeProtectedHeaders(apiKey: string, signingKey: ApiXSignatureKey) {
     const requestDate = this.readOnlyHeaders[this.headerName(ReadOnlyHeaders.Date)];
-    const nonce = this.generateNonce(32);
-    const signature = this.generateSignature(appKey, requestDate, nonce);
+    const nonce = ApiXSigner.createNonce(32);
+    const signature = ApiXSigner.createSignature(signingKey, {
+      httpMethod: this.httpMethod,
+      url: this.url,
+      date: requestDate,
+      nonce,
+      data: this.data,
+      bodyDigest: this.bodyDigest,
+      canonicalization: this.canonicalization
+    });
+    const algorithm = ApiXSigner.algorithmHeader(signingKey);
+    const canonicalization = ApiXSigner.canonicalizationHeader(this.canonicalization);
 
     this.protectedHeaders[this.headerName(ProtectedHeaders.ApiKey)] = apiKey;
     this.protectedHeaders[this.headerName(ProtectedHeaders.Signature)] = signature;
     this.protectedHeaders[this.headerName(ProtectedHeaders.SignatureNonce)] = nonce;
+    if (algorithm !== undefined) {
+      this.protectedHeaders[this.headerName(ProtectedHeaders.SignatureAlgorithm)] = algorithm;
+    }
+    if (canonicalization !== undefined) {
+      this.protectedHeaders[this.headerName(ProtectedHeaders.SignatureCanonicalization)] = canonicalization;
+    }
   }
 
   /**
@@ -149,6 +313,8 @@ export class ApiXRequest {
     delete this.protectedHeaders[this.headerName(ProtectedHeaders.ApiKey)];
     delete this.protectedHeaders[this.headerName(ProtectedHeaders.Signature)];
     delete this.protectedHeaders[this.headerName(ProtectedHeaders.SignatureNonce)];
+    delete this.protectedHeaders[this.headerName(ProtectedHeaders.SignatureAlgorithm)];
+    delete this.protectedHeaders[this.headerName(ProtectedHeaders.SignatureCanonicalization)];
   }
 
   //// Getters ////
@@ -289,6 +455,99 @@ export class ApiXRequest {
    * Sends the request to an API-X API server.
    * @returns The response of the request.
    * @throws Instances of `Error` if the request fails and the API-X
+   * backend does not have a response object. An `ApiXRequestTimeoutError`
+   * is thrown if `timeoutMs` elapses, and an `ApiXRequestAbortedError` if
+   * `signal` is aborted. An `ApiXResponseValidationError` is thrown if the
+   * response data does not pass the `validator`.
+   * @typeParam DataType The type of the response data, e.g. an `ApiXSuccessResponse`.
+   * 
+   * _Note: Sending the same request more than once will cause it to
+   * fail as API-X backends do not accept repeat requests. Additionally,
+   * if the request is 'too old', it may fail. The API-X server determines
+   * what 'too old' means. This is to deter keeping request objects for too
+   * long as they should be destroyed quickly for security reasons._
+   * 
+   * @category Making API-X Requests
+   */
+  public async make<DataType extends ApiXResponseData = ApiXResponseData>(): Promise<ApiXResponse<DataType>> {
+    const cancellation = this.startSending();
+
+    let response: ApiXResponse;
+    try {
+      response = await this.send(cancellation.signal);
+    } catch (error) {
+      throw this.cancellationError(error, cancellation);
+    } finally {
+      cancellation.dispose();
+    }
+
+    return await this.validateResponse(response) as ApiXResponse<DataType>;
+  }
+
+  /**
+   * Sends the request to an API-X API server and streams the body of its response.
+   * 
+   * The returned promise resolves as soon as the response headers are received.
+   * If the server answers with an API-X error response instead of a stream,
+   * the matching `ApiXResponseError` is thrown, as with `make()`.
+   * @param format How the body is parsed: `ndjson` (the default), `sse` or `bytes`.
+   * @returns The response, whose items can be read with `for await`.
+   * @throws Instances of `Error` if the request fails and the API-X
+   * backend does not have a response object. An `ApiXRequestTimeoutError`
+   * is thrown if `timeoutMs` elapses before the response headers are
+   * received, and an `ApiXRequestAbortedError` if `signal` is aborted. Once
+   * the stream is open, aborting `signal` makes the iteration throw an
+   * `ApiXRequestAbortedError`.
+   * @typeParam Item The type of the NDJSON records.
+   * 
+   * _Note: Like `make()`, a request can only be sent once._
+   * 
+   * @category Streaming Responses
+   */
+  public stream<Item = unknown>(format?: 'ndjson'): Promise<ApiXResponseStream<Item>>;
+  public stream(format: 'sse'): Promise<ApiXResponseStream<ApiXServerSentEvent>>;
+  public stream(format: 'bytes'): Promise<ApiXResponseStream<Uint8Array>>;
+  public async stream(format: ApiXStreamFormat = 'ndjson'): Promise<ApiXResponseStream<unknown>> {
+    const cancellation = this.startSending();
+
+    let response: ApiXTransportStreamResponse;
+    try {
+      response = await this.openStream(cancellation.signal);
+    } catch (error) {
+      cancellation.dispose();
+      throw this.cancellationError(error, cancellation);
+    }
+    cancellation.clearTimeout();
+
+    let cancelled = false;
+    const cancel = () => {
+      cancelled = true;
+      cancellation.abort();
+      cancellation.dispose();
+    };
+    const chunks = this.readStreamBody(response.body, cancellation.signal, () => cancelled, cancellation.dispose);
+    const items = format === 'sse'
+      ? parseApiXServerSentEvents(chunks)
+      : format === 'bytes'
+        ? chunks
+        : parseApiXNdjson(chunks);
+    const headers = new ApiXResponseHeaders(response.headers, response.setCookieHeaders);
+
+    return new ApiXResponseStream<unknown>(
+      response.status,
+      headers,
+      this.parseCookies(headers),
+      items,
+      cancel
+    );
+  }
+
+  /**
+   * Sends a request to an API-X API server.
+   * @param request The request that is sent to the server.
+   * @typeParam DataType The type of the response data, e.g. an `ApiXSuccessResponse`.
+   * @returns The response of the request.
+   * @throws Instances of `Error` if the request fails and the API-X
    * backend does not have a response object.
    * 
    * _Note: Sending the same request more than once will cause it to
@@ -299,65 +558,311 @@ export class ApiXRequest {
    * 
    * @category Making API-X Requests
    */
-  public async make(): Promise<ApiXResponse> {
+  public static async makeRequest<DataType extends ApiXResponseData = ApiXResponseData>(
+    request: ApiXRequest
+  ): Promise<ApiXResponse<DataType>> {
+    return await request.make<DataType>();
+  }
+
+  //// Helper Methods ////
+
+  /**
+   * Marks the request as sent, and creates the signal that aborts it when
+   * `timeoutMs` elapses or `signal` is aborted.
+   * @throws `ApiXRequestError` if the request has already been sent, and
+   * `ApiXRequestAbortedError` if `signal` is already aborted.
+   */
+  private startSending(): ApiXCancellation {
     if (this.sent) {
       throw new ApiXRequestError('This request has already been sent. API-X does not allow attempting to send the same request multiple times.');
     }
 
+    if (this.signal?.aborted) {
+      throw new ApiXRequestAbortedError(this.signal.reason);
+    }
+
     this.sent = true;
+
+    const abortController = new AbortController();
+    const cancellation = {
+      signal: abortController.signal,
+      didTimeOut: false,
+      abort: () => abortController.abort(this.signal?.reason),
+      clearTimeout: () => clearTimeout(timeout),
+      dispose: () => {
+        clearTimeout(timeout);
+        this.signal?.removeEventListener('abort', cancellation.abort);
+      }
+    };
+    const timeout = this.timeoutMs !== undefined
+      ? setTimeout(() => {
+        cancellation.didTimeOut = true;
+        abortController.abort();
+      }, this.timeoutMs)
+      : undefined;
+    this.signal?.addEventListener('abort', cancellation.abort);
+    return cancellation;
+  }
+
+  /**
+   * Maps an error thrown while sending the request to the error thrown by
+   * `make()` or `stream()`.
+   */
+  private cancellationError(error: unknown, cancellation: ApiXCancellation): unknown {
+    if (error instanceof ApiXResponseError) {
+      return error;
+    }
+    if (cancellation.didTimeOut) {
+      return new ApiXRequestTimeoutError(this.timeoutMs ?? 0);
+    }
+    if (this.signal?.aborted) {
+      return new ApiXRequestAbortedError(this.signal.reason);
+    }
+    return error;
+  }
+
+  /**
+   * Signs the request and sends it with the transport.
+   * @param signal A signal that aborts the request when it times out or is cancelled.
+   * @returns The response of the request.
+   */
+  private async send(signal: AbortSignal): Promise<ApiXResponse> {
     const keys = await this.keyStore.getKeys();
+    const cache = this.httpMethod === 'GET' && this.body === undefined ? this.cache : undefined;
 
-    this.initializeProtectedHeaders(
-      keys.apiKey,
-      keys.appKey
-    );
+    try {
+      const cached = await cache?.lookup(this.url, this.headers, keys.apiKey);
+      if (cache && cached?.fresh) {
+        return cache.response(cached.entry);
+      }
+      if (cache && cached) {
+        Object.entries(cache.conditionalHeaders(cached)).forEach(([name, value]) => {
+          this.unprotectedHeaders[name] = this.unprotectedHeaders[name] ?? value;
+        });
+      }
+
+      const body = await this.raceWithAbort(this.encodeBody(), signal);
+
+      this.initializeProtectedHeaders(
+        keys.apiKey,
+        await ApiXSigner.signingKey(this.keyStore, keys.appKey)
+      );
+
+      const sentAt = Date.now();
+      const response = await this.raceWithAbort(
+        this.transport.send({
+          method: this.httpMethod,
+          url: this.url.toString(),
+          headers: this.allHeaders,
+          body,
+          signal
+        }),
+        signal
+      );
+
+      const responseData = this.parseResponseBody(response.body);
+      const headers = new ApiXResponseHeaders(response.headers, response.setCookieHeaders);
+      this.clock?.observeDateHeader(headers.get('Date'), sentAt, Date.now());
+
+      this.unsetProtectedHeaders();
+
+      const result: ApiXResponse = {
+        data: responseData,
+        statusCode: response.status,
+        headers,
+        cookies: this.parseCookies(headers)
+      };
+      if (cache && cached && result.statusCode === 304) {
+        return { ...await cache.revalidate(cached, result), cookies: result.cookies };
+      }
+
+      this.handleResponse(result);
+      await cache?.store(this.url, this.headers, keys.apiKey, result);
+      return result;
+    } catch (error) {
+      this.unsetProtectedHeaders();
+
+      if (error instanceof ApiXResponseError || error instanceof ApiXRequestError) {
+        throw error;
+      }
+
+      throw new ApiXRequestNetworkError(error);
+    }
+  }
+
+  /**
+   * Serializes the body of the request.
+   * 
+   * A non-JSON body is encoded into its raw bytes, whose digest is signed and
+   * sent in the `Content-Digest` header.
+   * @returns The serialized JSON body, the raw bytes of a non-JSON body, or
+   * `undefined` if the request has no body.
+   */
+  private async encodeBody(): Promise<string | Uint8Array | undefined> {
+    if (this.body === undefined) {
+      return this.data ? JSON.stringify(this.data) : undefined;
+    }
+
+    const bytes = await encodeApiXRequestBody(this.body, this.multipartBoundary);
+    this.bodyDigest = digestApiXRequestBody(bytes);
+    this.readOnlyHeaders[this.headerName(ReadOnlyHeaders.ContentDigest)] = `sha-256=:${this.bodyDigest}:`;
+    return bytes;
+  }
+
+  /**
+   * Signs the request and sends it with the transport, resolving as soon as
+   * the response headers are received.
+   * 
+   * An API-X error response, or any response that is not a stream, is read
+   * completely so that it can be mapped to an `ApiXResponseError`.
+   * @param signal A signal that aborts the request when it times out or is cancelled.
+   * @returns The response, with a streamed body.
+   */
+  private async openStream(signal: AbortSignal): Promise<ApiXTransportStreamResponse> {
+    const keys = await this.keyStore.getKeys();
 
     try {
-      const response = await fetch(this.url.toString(), {
+      const body = await this.raceWithAbort(this.encodeBody(), signal);
+
+      this.initializeProtectedHeaders(
+        keys.apiKey,
+        await ApiXSigner.signingKey(this.keyStore, keys.appKey)
+      );
+
+      const request = {
         method: this.httpMethod,
+        url: this.url.toString(),
         headers: this.allHeaders,
-        body: this.data ? JSON.stringify(this.data) : undefined
-      });
-
-      const responseData = await response.json().catch(() => null);
+        body,
+        signal
+      };
+      const sentAt = Date.now();
+      const response = await this.raceWithAbort(
+        this.transport.stream
+          ? this.transport.stream(request)
+          : this.transport.send(request).then(transportResponse => ({
+            ...transportResponse,
+            body: this.chunksOf(Buffer.from(transportResponse.body, 'utf-8'))
+          })),
+        signal
+      );
 
       this.unsetProtectedHeaders();
+      this.clock?.observeDateHeader(
+        new ApiXResponseHeaders(response.headers).get('Date'),
+        sentAt,
+        Date.now()
+      );
+
+      const contentType = response.headers['content-type'] ?? '';
+      if (response.status < 400 && !/^application\/json\b/i.test(contentType)) {
+        return response;
+      }
 
-      return this.handleResponse({
-        data: responseData,
-        statusCode: response.status
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of this.readStreamBody(response.body, signal, () => false)) {
+        chunks.push(chunk);
+      }
+      const rawBody = Buffer.concat(chunks);
+      const headers = new ApiXResponseHeaders(response.headers, response.setCookieHeaders);
+      this.handleResponse({
+        data: this.parseResponseBody(rawBody.toString('utf-8')),
+        statusCode: response.status,
+        headers,
+        cookies: this.parseCookies(headers)
       });
+
+      if (response.status >= 400) {
+        throw new ApiXRequestError(`API-X Stream failed with status code ${response.status}.`);
+      }
+      return { ...response, body: this.chunksOf(rawBody) };
     } catch (error) {
       this.unsetProtectedHeaders();
 
-      if (error instanceof ApiXResponseError) {
+      if (error instanceof ApiXResponseError || error instanceof ApiXRequestError) {
         throw error;
       }
 
-      throw new ApiXRequestError(`API-X Request failed: ${error}`);
+      throw new ApiXRequestNetworkError(error);
     }
   }
 
   /**
-   * Sends a request to an API-X API server.
-   * @param request The request that is sent to the server.
-   * @returns The response of the request.
-   * @throws Instances of `Error` if the request fails and the API-X
-   * backend does not have a response object.
+   * Reads the chunks of a streamed body, one at a time, as they are requested.
    * 
-   * _Note: Sending the same request more than once will cause it to
-   * fail as API-X backends do not accept repeat requests. Additionally,
-   * if the request is 'too old', it may fail. The API-X server determines
-   * what 'too old' means. This is to deter keeping request objects for too
-   * long as they should be destroyed quickly for security reasons._
-   * 
-   * @category Making API-X Requests
+   * Iteration ends quietly if the stream was cancelled, and throws an
+   * `ApiXRequestAbortedError` if the request's `signal` was aborted. When it
+   * ends, the underlying body is closed and `onEnd` is called.
    */
-  public static async makeRequest(request: ApiXRequest): Promise<ApiXResponse> {
-    return await request.make();
+  private async *readStreamBody(
+    body: AsyncIterable<Uint8Array>,
+    signal: AbortSignal,
+    isCancelled: () => boolean,
+    onEnd: () => void = () => undefined
+  ): AsyncGenerator<Uint8Array> {
+    const iterator = body[Symbol.asyncIterator]();
+    let done = false;
+    try {
+      while (!done) {
+        const result = await this.raceWithAbort(iterator.next(), signal);
+        done = result.done ?? false;
+        if (!result.done) {
+          yield result.value;
+        }
+      }
+    } catch (error) {
+      if (isCancelled()) {
+        return;
+      }
+      if (this.signal?.aborted) {
+        throw new ApiXRequestAbortedError(this.signal.reason);
+      }
+      throw error instanceof ApiXRequestError ? error : new ApiXRequestError(`API-X Stream failed: ${error}`);
+    } finally {
+      onEnd();
+      if (!done) {
+        iterator.return?.().catch(() => undefined);
+      }
+    }
+  }
+
+  private async *chunksOf(bytes: Uint8Array): AsyncGenerator<Uint8Array> {
+    if (bytes.length > 0) {
+      yield bytes;
+    }
+  }
+
+  private parseCookies(headers: ApiXResponseHeaders): ApiXCookie[] {
+    return headers.getSetCookie()
+      .map(parseSetCookie)
+      .filter((cookie): cookie is ApiXCookie => cookie !== undefined);
+  }
+
+  /**
+   * Settles with the given promise, or rejects as soon as the signal is aborted,
+   * even if the transport does not support cancellation.
+   */
+  private raceWithAbort<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(
+        value => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
   }
 
-  //// Helper Methods ////
   private isProtectedHeader(name: string): boolean {
     const protectedHeaders = Object.values(ProtectedHeaders).map(header => this.headerName(header));
     return protectedHeaders.includes(this.headerName(name));
@@ -378,48 +883,30 @@ export class ApiXRequest {
     return name.trim().toLowerCase();
   }
 
-  private generateNonce(length: number = 16): string {
-    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    const bytes = randomBytes(length);
-    let nonce = '';
-    for (let i = 0; i < bytes.length; i++) {
-      const randomIndex = bytes[i] % characters.length;
-      nonce += characters[randomIndex];
+  /**
+   * Parses the raw body of a response as JSON.
+   * @param body The raw response body.
+   * @returns The parsed JSON, or `null` if the body is empty or not valid JSON.
+   */
+  private parseResponseBody(body: string) {
+    if (!body) {
+      return null;
     }
-    return nonce;
-  }
-
-  private generateSignature(appKey: string, dateString: string, nonce: string) {
-    const httpBody = this.data ?? {};
-    const hmac = createHmac('sha256', appKey);
-    const stringifiedJsonBody = Object.keys(httpBody).length > 0
-      ? JSON.stringify(this.sortedObjectKeys(httpBody))
-      : '';
-    const httpBodyBase64 = stringifiedJsonBody.length > 0
-      ? Buffer.from(stringifiedJsonBody, 'utf-8').toString('base64')
-      : '';
-    const pathWithQueries = `${this.url.pathname}${this.url.search}`;
-    const message = `${pathWithQueries}.${this.httpMethod}.${nonce}.${dateString}.${httpBodyBase64}`;
-    return hmac
-      .update(message, 'utf-8')
-      .digest()
-      .toString('hex');
-  }
-
-  /**
-   * Sorts all the keys in an object recursively.
-   * @param obj The object whose key are to be sorted.
-   * @returns The object with its keys recursively sorted.
-   */
-  private sortedObjectKeys(obj: ApiXJsonObject): ApiXJsonObject {
-    const sortedObj: ApiXJsonObject = {};
-    Object.keys(obj).sort().forEach(key => {
-      const value = obj[key];
-      sortedObj[key] = value !== null && typeof value === 'object' && !Array.isArray(value)
-        ? this.sortedObjectKeys(value as ApiXJsonObject)
-        : value;
-    });
-    return sortedObj;
+    try {
+      return JSON.parse(body);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Validates the data of a successful response with the request's validator.
+   * @param response The response whose data is validated.
+   * @returns The response with the data returned by the validator.
+   * @throws `ApiXResponseValidationError` if the data is invalid.
+   */
+  private async validateResponse(response: ApiXResponse): Promise<ApiXResponse> {
+    return await validateApiXResponse(response, this.validator);
   }
 
   /**
@@ -430,8 +917,24 @@ export class ApiXRequest {
    */
   private handleResponse(response: ApiXResponse): ApiXResponse {
     if (response && response.data && isApiXErrorResponse(response.data)) {
-      throw errorForResponse(response as ApiXResponse<ApiXErrorResponse>);
+      const error = errorForResponse(response as ApiXResponse<ApiXErrorResponse>);
+      throw this.clockSkewError(error, response.headers) ?? error;
     }
     return response;
   }
+
+  /**
+   * Returns an `ApiXClockSkewError` if the request was rejected as unauthorized
+   * and its `Date` is too far from the `Date` of the response.
+   * @param error The error returned by the server.
+   * @param headers The headers of the response.
+   */
+  private clockSkewError(error: ApiXResponseError, headers?: ApiXResponseHeaders): ApiXClockSkewError | undefined {
+    if (!this.clock || !(error instanceof ApiXResponseUnauthorizedRequestError)) {
+      return undefined;
+    }
+    const requestDate = this.readOnlyHeaders[this.headerName(ReadOnlyHeaders.Date)];
+    const skewMs = this.clock.suspectedSkewMs(requestDate, headers?.get('Date'));
+    return skewMs !== undefined ? new ApiXClockSkewError(error, skewMs) : undefined;
+  }
 }
@@ -1,6 +1,8 @@
 import { ApiXClient } from '../ApiXClient';
 import { ApiXRequest } from '../ApiXRequest';
 import { ApiXResponseInvalidRequestError } from '../error/ApiXResponseError';
+import { ApiXSuccessResponse, isApiXSuccessResponse } from '../types/ApiXSuccessResponse';
+import { ApiXErrorResponse } from '../types/ApiXErrorResponse';
 import { ApiXResponse } from '../types/ApiXResponse';
 
 jest.mock('../ApiXRequest');
@@ -96,5 +98,29 @@ describe('ApiXClient', () => {
     const response = await client.makePatchRequest(url, { key: 'value' });
     expect(response).toEqual(mockResponse);
   });
-});
 
+  it('should return typed response data from make* methods', async () => {
+    type UserResponse = ApiXSuccessResponse<{ user: { name: string } }>;
+    const mockResponse: ApiXResponse<UserResponse> = {
+      statusCode: 200,
+      data: { success: true, user: { name: 'Alice' } }
+    };
+    MockApiXRequest.prototype.make.mockResolvedValueOnce(mockResponse);
+
+    const response = await client.makeGetRequest<UserResponse>(url);
+    const name: string | undefined = response.data?.user.name;
+    expect(name).toBe('Alice');
+  });
+
+  it('should narrow success responses against error responses', () => {
+    const narrow = (data: ApiXSuccessResponse<{ id: string }> | ApiXErrorResponse) => {
+      return data.success ? data.id : data.error.id;
+    };
+    expect(narrow({ success: true, id: 'abc' })).toBe('abc');
+    expect(narrow({ success: false, error: { id: 'invalidRequest', message: '' } })).toBe('invalidRequest');
+
+    expect(isApiXSuccessResponse({ success: true })).toBe(true);
+    expect(isApiXSuccessResponse({ success: false })).toBe(false);
+    expect(isApiXSuccessResponse(null)).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  ApiXRequestAbortedError,
+  ApiXRequestTimeoutError,
+  ApiXResponseInvalidRequestError
+} from '../error';
+import { ApiXClient } from '../ApiXClient';
+import { ApiXInMemoryTransport } from '../transport/ApiXInMemoryTransport';
+import { ApiXTransportResponse } from '../transport/ApiXTransport';
+
+describe('ApiXClient request deduplication', () => {
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const baseUrl = 'https://apix.example.com';
+
+  /**
+   * Creates a transport whose responses are held until `respond` is called.
+   */
+  const createDelayedTransport = (response: ApiXTransportResponse) => {
+    const pending: (() => void)[] = [];
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', () => new Promise(resolve => pending.push(() => resolve(response))))
+      .on('POST', '/config', () => new Promise(resolve => pending.push(() => resolve(response))));
+    const respond = async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      pending.splice(0).forEach(resolve => resolve());
+    };
+    return { transport, respond };
+  };
+
+  it('should share one request between concurrent identical GET requests', async () => {
+    const { transport, respond } = createDelayedTransport(ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, deduplicateRequests: true });
+
+    const responses = Promise.all([
+      client.makeGetRequest('/config'),
+      client.makeGetRequest('/config'),
+      client.makeGetRequest('/config', { query: { section: 'ui' } })
+    ]);
+    await respond();
+    const [first, second, third] = await responses;
+
+    expect(transport.requests).toHaveLength(2);
+    expect(second).toBe(first);
+    expect(third).not.toBe(first);
+
+    const next = client.makeGetRequest('/config');
+    await respond();
+    await next;
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it('should share errors, and not share requests with different headers, cookies or methods', async () => {
+    const { transport, respond } = createDelayedTransport(ApiXInMemoryTransport.json(400, {
+      success: false,
+      error: { id: 'invalidRequest', message: 'Bad config request.' }
+    }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, deduplicateRequests: true });
+    let calls = 0;
+    client.use(async (request, next) => {
+      calls += 1;
+      if (calls === 2) {
+        request.setHeader('Accept-Language', 'fr');
+      }
+      if (calls === 3) {
+        request.addCookie('session', 'abc');
+      }
+      return await next();
+    });
+
+    const results = Promise.allSettled([
+      client.makeGetRequest('/config'),
+      client.makeGetRequest('/config'),
+      client.makeGetRequest('/config'),
+      client.makeGetRequest('/config'),
+      client.makePostRequest('/config'),
+      client.makePostRequest('/config')
+    ]);
+    await respond();
+    const settled = await results;
+
+    expect(transport.requests).toHaveLength(5);
+    settled.forEach(result => {
+      expect(result.status).toBe('rejected');
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(ApiXResponseInvalidRequestError);
+    });
+    expect((settled[3] as PromiseRejectedResult).reason).toBe((settled[0] as PromiseRejectedResult).reason);
+  });
+
+  it('should let a caller stop waiting for a shared request', async () => {
+    const { transport, respond } = createDelayedTransport(ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, deduplicateRequests: true });
+    const abortController = new AbortController();
+
+    const first = client.makeGetRequest('/config');
+    const second = client.makeGetRequest('/config', { signal: abortController.signal });
+    await new Promise(resolve => setImmediate(resolve));
+    abortController.abort();
+
+    await expect(second).rejects.toThrow(ApiXRequestAbortedError);
+    await respond();
+    await expect(first).resolves.toMatchObject({ statusCode: 200 });
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('should keep a shared request going when the caller that started it stops waiting', async () => {
+    const { transport, respond } = createDelayedTransport(ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, deduplicateRequests: true });
+    const abortController = new AbortController();
+
+    const first = client.makeGetRequest('/config', { signal: abortController.signal });
+    const second = client.makeGetRequest('/config', { timeoutMs: 5 });
+    const third = client.makeGetRequest('/config');
+    await new Promise(resolve => setImmediate(resolve));
+    abortController.abort();
+
+    await expect(first).rejects.toThrow(ApiXRequestAbortedError);
+    await expect(second).rejects.toThrow(ApiXRequestTimeoutError);
+    await respond();
+    await expect(third).resolves.toMatchObject({ statusCode: 200 });
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('should abort a shared request once every caller has stopped waiting', async () => {
+    const signals: AbortSignal[] = [];
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', request => {
+        signals.push(request.signal as AbortSignal);
+        return new Promise(() => undefined);
+      });
+    const client = new ApiXClient(keyStore, { baseUrl, transport, deduplicateRequests: true });
+    const firstController = new AbortController();
+    const secondController = new AbortController();
+
+    const first = client.makeGetRequest('/config', { signal: firstController.signal });
+    const second = client.makeGetRequest('/config', { signal: secondController.signal });
+    await new Promise(resolve => setImmediate(resolve));
+
+    firstController.abort();
+    await expect(first).rejects.toThrow(ApiXRequestAbortedError);
+    expect(signals[0].aborted).toBe(false);
+
+    secondController.abort();
+    await expect(second).rejects.toThrow(ApiXRequestAbortedError);
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('should not deduplicate requests unless enabled', async () => {
+    const { transport, respond } = createDelayedTransport(ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+
+    const responses = Promise.all([client.makeGetRequest('/config'), client.makeGetRequest('/config')]);
+    await respond();
+    await responses;
+
+    expect(transport.requests).toHaveLength(2);
+  });
+});
@@ -1,7 +1,25 @@
+import {
+  ApiXRequestAbortedError,
+  ApiXRequestTimeoutError,
+  ApiXResponseError,
+  ApiXResponseInvalidRequestError,
+  ApiXResponseValidationError
+} from '../error';
+import { ApiXInMemoryTransport } from '../transport/ApiXInMemoryTransport';
 import { ApiXRequest } from '../ApiXRequest';
-import { ApiXResponseInvalidRequestError } from '../error';
 import { ApiXRequestConfig } from '../types/ApiXRequestConfig';
+import { ApiXSigner } from '../signing/ApiXSigner';
+import { ApiXStandardSchema } from '../types/ApiXResponseValidator';
+import { ApiXTransport } from '../transport/ApiXTransport';
 import { createHmac } from 'crypto';
+import { sortedApiXObjectKeys } from '../signing/ApiXCanonicalJson';
+
+/**
+ * Replaces the global `fetch` with a mock that responds with the given JSON body.
+ */
+const mockFetchResponse = (status: number, body: unknown) => {
+  global.fetch = jest.fn().mockImplementation(async () => new Response(JSON.stringify(body), { status }));
+};
 
 describe('ApiXRequest', () => {
   const keyStore = {
@@ -38,10 +56,7 @@ describe('ApiXRequest', () => {
   });
 
   it('protected headers must be cleared after making request', async () => {
-    global.fetch = jest.fn().mockResolvedValue({
-      status: 200,
-      json: jest.fn().mockResolvedValue({ success: true })
-    });
+    mockFetchResponse(200, { success: true });
 
     await request.make();
 
@@ -54,10 +69,7 @@ describe('ApiXRequest', () => {
   it('should initialize read-only headers properly.', async () => {
     /// Ensure that protected headers are not unset after making the request for testing purposes
     jest.spyOn(ApiXRequest.prototype as any, 'unsetProtectedHeaders').mockImplementation(() => {});
-    global.fetch = jest.fn().mockResolvedValue({
-      status: 200,
-      json: jest.fn().mockResolvedValue({ success: true })
-    });
+    mockFetchResponse(200, { success: true });
 
     await request.make();
     const headers = request.headers;
@@ -72,27 +84,20 @@ describe('ApiXRequest', () => {
   });
 
   it('should throw an error when attempting to send a request that was already sent', async () => {
-    global.fetch = jest.fn().mockResolvedValue({
-      status: 200,
-      json: jest.fn().mockResolvedValue({ success: true })
-    });
+    mockFetchResponse(200, { success: true });
     await request.make();
 
     await expect(request.make()).rejects.toThrow('This request has already been sent. API-X does not allow attempting to send the same request multiple times.');
   });
 
   it('should throw an error when receiving an error response from the API-X endpoint', async () => {
-    global.fetch = jest.fn().mockResolvedValue({
-      ok: false, // Simulating an error status (e.g., 400 Bad Request)
-      status: 400,
-      json: jest.fn().mockResolvedValue({
-        success: false,
-        message: 'The request is invalid.',
-        error: {
-          id: 'invalidRequest',
-          message: 'The request is invalid.'
-        }
-      })
+    mockFetchResponse(400, {
+      success: false,
+      message: 'The request is invalid.',
+      error: {
+        id: 'invalidRequest',
+        message: 'The request is invalid.'
+      }
     });
     await expect(request.make()).rejects.toThrow(
       new ApiXResponseInvalidRequestError(400, 'The request is invalid.')
@@ -127,17 +132,17 @@ describe('ApiXRequest', () => {
     expect(request.getCookie('session')).toBeUndefined();
   });
 
-  it('should correctly generate nonce', () => {
-    const nonce = (request as any).generateNonce(16);
-    expect(nonce).toHaveLength(16);
+  it('should correctly generate nonce', async () => {
+    const createNonce = jest.spyOn(ApiXSigner, 'createNonce');
+    mockFetchResponse(200, { success: true });
+
+    await request.make();
+    expect(createNonce).toHaveBeenCalledWith(32);
+    expect(createNonce.mock.results[0].value).toHaveLength(32);
   });
 
   it('should successfully make a request', async () => {
-    global.fetch = jest.fn().mockResolvedValueOnce({
-      ok: true,
-      status: 200,
-      json: jest.fn().mockResolvedValue({ success: true })
-    });
+    mockFetchResponse(200, { success: true });
 
     const response = await request.make();
     expect(response.statusCode).toBe(200);
@@ -145,13 +150,9 @@ describe('ApiXRequest', () => {
   });
 
   it('should handle request failure gracefully with API-X error response', async () => {
-    global.fetch = jest.fn().mockResolvedValueOnce({
-      ok: false, // Simulating an error status (e.g., 400 Bad Request)
-      status: 400,
-      json: jest.fn().mockResolvedValue({
-        success: false,
-        message: 'Bad Request'
-      })
+    mockFetchResponse(400, {
+      success: false,
+      message: 'Bad Request'
     });
 
     const response = await request.make();
@@ -169,12 +170,9 @@ describe('ApiXRequest', () => {
 
   it('same nonce, date, and key should always generate the same signature for the same json body with differently sorted keys', async () => {
     const mockNonce = 'abc';
-    jest.spyOn(ApiXRequest.prototype as any, 'generateNonce').mockReturnValue(mockNonce);
+    jest.spyOn(ApiXSigner, 'createNonce').mockReturnValue(mockNonce);
     jest.spyOn(ApiXRequest.prototype as any, 'unsetProtectedHeaders').mockImplementation(() => {});
-    global.fetch = jest.fn().mockResolvedValue({
-      status: 200,
-      json: jest.fn().mockResolvedValue({ success: true })
-    });
+    mockFetchResponse(200, { success: true });
 
     const requestA = new ApiXRequest({
       ...config,
@@ -219,7 +217,7 @@ describe('ApiXRequest', () => {
     )
   });
 
-  it('should correctly generate signature when body contains non-ASCII characters', () => {
+  it('should correctly generate signature when body contains non-ASCII characters', async () => {
     const dataWithUnicode = { message: 'こんにちは世界' };
     const nonce = 'unicodeNonce';
     const date = 'Wed, 13 Nov 2024 15:00:00 GMT';
@@ -228,7 +226,11 @@ describe('ApiXRequest', () => {
       data: dataWithUnicode
     });
 
-    const expectedBody = JSON.stringify((unicodeRequest as any).sortedObjectKeys(dataWithUnicode));
+    jest.spyOn(ApiXSigner, 'createNonce').mockReturnValue(nonce);
+    const createSignature = jest.spyOn(ApiXSigner, 'createSignature');
+    mockFetchResponse(200, { success: true });
+
+    const expectedBody = JSON.stringify(sortedApiXObjectKeys(dataWithUnicode));
     const expectedBase64 = Buffer.from(expectedBody, 'utf-8').toString('base64');
     const pathWithQueries = `${unicodeRequest.url.pathname}${unicodeRequest.url.search}`;
     const message = `${pathWithQueries}.${unicodeRequest.httpMethod}.${nonce}.${date}.${expectedBase64}`;
@@ -236,8 +238,212 @@ describe('ApiXRequest', () => {
       .update(message, 'utf-8')
       .digest('hex');
 
-    const actualSignature = (unicodeRequest as any).generateSignature('testAppKey', date, nonce);
+    await unicodeRequest.make();
+
+    expect(createSignature.mock.results[0].value).toBe(expectedSignature);
+  });
+
+  describe('timeouts and cancellation', () => {
+    /// A transport that never responds and ignores its abort signal.
+    const hangingTransport: ApiXTransport = {
+      send: jest.fn().mockImplementation(() => new Promise(() => {}))
+    };
+
+    it('should throw ApiXRequestTimeoutError when the timeout elapses', async () => {
+      const timedRequest = new ApiXRequest({
+        ...config,
+        transport: hangingTransport,
+        timeoutMs: 10
+      });
+
+      const error = await timedRequest.make().catch(error => error);
+      expect(error).toBeInstanceOf(ApiXRequestTimeoutError);
+      expect(error.timeoutMs).toBe(10);
+      expect(error.message).toBe('API-X Request timed out after 10ms.');
+
+      const protectedHeaders = (timedRequest as any).protectedHeaders;
+      expect(protectedHeaders).toEqual({});
+    });
+
+    it('should throw ApiXRequestAbortedError and clear protected headers when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const abortableRequest = new ApiXRequest({
+        ...config,
+        transport: hangingTransport,
+        signal: controller.signal
+      });
+
+      const pending = abortableRequest.make();
+      setTimeout(() => controller.abort('shutting down'), 0);
+
+      const error = await pending.catch(error => error);
+      expect(error).toBeInstanceOf(ApiXRequestAbortedError);
+      expect(error.reason).toBe('shutting down');
+
+      const protectedHeaders = (abortableRequest as any).protectedHeaders;
+      expect(protectedHeaders).toEqual({});
+    });
+
+    it('should pass the abort signal to the transport', async () => {
+      const transport: ApiXTransport = {
+        send: jest.fn().mockResolvedValue({ status: 200, headers: {}, body: '{"success":true}' })
+      };
+      await new ApiXRequest({ ...config, transport, timeoutMs: 1000 }).make();
+
+      const [sent] = (transport.send as jest.Mock).mock.calls[0];
+      expect(sent.signal).toBeInstanceOf(AbortSignal);
+      expect(sent.signal.aborted).toBe(false);
+    });
+
+    it('should not send a request whose signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const transport: ApiXTransport = { send: jest.fn() };
+
+      await expect(
+        new ApiXRequest({ ...config, transport, signal: controller.signal }).make()
+      ).rejects.toThrow(ApiXRequestAbortedError);
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+  });
 
-    expect(actualSignature).toBe(expectedSignature);
+  describe('response validation', () => {
+    interface UserResponse {
+      success: true;
+      user: { name: string };
+    }
+
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/endpoint/method', ApiXInMemoryTransport.json(200, { success: true, user: { name: 42 } }));
+
+    const userSchema: ApiXStandardSchema<UserResponse> = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value: unknown) => {
+          const name = (value as UserResponse | null)?.user?.name;
+          return typeof name === 'string'
+            ? { value: value as UserResponse }
+            : { issues: [{ message: 'Expected a string', path: ['user', 'name'] }] };
+        }
+      }
+    };
+
+    it('should return the value produced by a function validator', async () => {
+      const response = await new ApiXRequest({
+        ...config,
+        transport,
+        validator: (data: unknown) => ({ ...(data as UserResponse), user: { name: 'validated' } })
+      }).make<UserResponse>();
+
+      expect(response.data?.user.name).toBe('validated');
+    });
+
+    it('should throw ApiXResponseValidationError when a function validator throws', async () => {
+      const error = await new ApiXRequest({
+        ...config,
+        transport,
+        validator: () => {
+          throw new Error('user.name must be a string');
+        }
+      }).make().catch(error => error);
+
+      expect(error).toBeInstanceOf(ApiXResponseValidationError);
+      expect(error.statusCode).toBe(200);
+      expect(error.data).toEqual({ success: true, user: { name: 42 } });
+      expect(error.issues).toEqual([{ message: 'user.name must be a string' }]);
+    });
+
+    it('should report the issues of a standard schema', async () => {
+      const error = await new ApiXRequest({ ...config, transport, validator: userSchema })
+        .make()
+        .catch(error => error);
+
+      expect(error).toBeInstanceOf(ApiXResponseValidationError);
+      expect(error.issues).toEqual([{ message: 'Expected a string', path: ['user', 'name'] }]);
+      expect(error.message).toBe('API-X Response failed validation: Expected a string');
+    });
+
+    it('should not validate API-X error responses', async () => {
+      const errorTransport = new ApiXInMemoryTransport()
+        .on('POST', '/endpoint/method', ApiXInMemoryTransport.json(400, {
+          success: false,
+          error: { id: 'invalidRequest', message: 'The request is invalid.' }
+        }));
+      const validator = jest.fn();
+
+      await expect(
+        new ApiXRequest({ ...config, transport: errorTransport, validator }).make()
+      ).rejects.toThrow(ApiXResponseInvalidRequestError);
+      expect(validator).not.toHaveBeenCalled();
+    });
+
+    it('should throw ApiXResponseError for a non-2xx response without an API-X body', async () => {
+      const gatewayTransport = new ApiXInMemoryTransport()
+        .on('POST', '/endpoint/method', {
+          status: 503,
+          headers: { 'content-type': 'text/html' },
+          body: '<html>Service Unavailable</html>'
+        });
+      const validator = jest.fn();
+
+      const error = await new ApiXRequest({ ...config, transport: gatewayTransport, validator })
+        .make<UserResponse>()
+        .catch(error => error);
+
+      expect(error).toBeInstanceOf(ApiXResponseError);
+      expect(error.id).toBe('unknownError');
+      expect(error.statusCode).toBe(503);
+      expect(validator).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('response headers and cookies', () => {
+    const rateLimitHeaders = {
+      'ETag': '"v1"',
+      'RateLimit-Remaining': '0',
+      'Retry-After': '30'
+    };
+
+    it('should expose the headers and cookies of the response', async () => {
+      const transport = new ApiXInMemoryTransport()
+        .on('POST', '/endpoint/method', () => ({
+          ...ApiXInMemoryTransport.json(200, { success: true }, rateLimitHeaders),
+          setCookieHeaders: ['session=abc; Path=/; HttpOnly', 'theme=dark']
+        }));
+
+      const response = await new ApiXRequest({ ...config, transport }).make();
+
+      expect(response.headers?.get('etag')).toBe('"v1"');
+      expect(response.headers?.get('ratelimit-remaining')).toBe('0');
+      expect(response.cookies).toEqual([
+        { name: 'session', value: 'abc', attributes: { path: '/', httpOnly: true } },
+        { name: 'theme', value: 'dark', attributes: {} }
+      ]);
+    });
+
+    it('should expose the headers of error responses on the error', async () => {
+      const transport = new ApiXInMemoryTransport()
+        .on('POST', '/endpoint/method', ApiXInMemoryTransport.json(429, {
+          success: false,
+          error: { id: 'tooManyRequests', message: 'Slow down' }
+        }, rateLimitHeaders));
+
+      const error = await new ApiXRequest({ ...config, transport }).make().catch(error => error);
+
+      expect(error.id).toBe('tooManyRequests');
+      expect(error.headers.get('Retry-After')).toBe('30');
+      expect(error.cookies).toEqual([]);
+    });
+
+    it('should read Set-Cookie headers from fetch responses', async () => {
+      const headers = new Headers();
+      headers.append('Set-Cookie', 'a=1');
+      headers.append('Set-Cookie', 'b=2');
+      global.fetch = jest.fn().mockResolvedValue(new Response('{"success":true}', { status: 200, headers }));
+
+      const response = await new ApiXRequest(config).make();
+      expect(response.cookies?.map(cookie => cookie.name)).toEqual(['a', 'b']);
+    });
   });
-});
\ No newline at end of file
+});
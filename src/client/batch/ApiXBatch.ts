@@ -0,0 +1,322 @@
+import {
+  ApiXBatchOperationRequest,
+  ApiXBatchOperationResponse,
+  ApiXBatchResponseEnvelope
+} from './ApiXBatchEnvelope';
+import { ApiXErrorResponse, isApiXErrorResponse } from '../types/ApiXErrorResponse';
+import { ApiXResponse, ApiXResponseData } from '../types/ApiXResponse';
+import { ApiXResponseError, errorForResponse } from '../error/ApiXResponseError';
+import { ApiXBatchPolicy } from './ApiXBatchPolicy';
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXJsonObject } from '../types/ApiXJsonObject';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+import { ApiXRequestOptions } from '../types/ApiXRequestOptions';
+import { ApiXResponseHeaders } from '../headers/ApiXResponseHeaders';
+import { ApiXResponseValidationError } from '../error/ApiXResponseValidationError';
+import { ApiXResponseValidator } from '../types/ApiXResponseValidator';
+import { buildApiXUrl } from '../url/ApiXUrlBuilder';
+import { validateApiXResponse } from '../validation/ApiXResponseValidation';
+
+/**
+ * Options of an operation added to an `ApiXBatch`.
+ * 
+ * @category Batching Requests
+ */
+export type ApiXBatchOperationOptions<
+  Path extends string = string,
+  DataType extends ApiXResponseData = ApiXResponseData
+> = Pick<ApiXRequestOptions<Path, DataType>, 'params' | 'query' | 'validator'>;
+
+/**
+ * Options of `ApiXBatch.send`, which apply to the batch request, or to every
+ * request when the batch is sent in parallel.
+ * 
+ * @category Batching Requests
+ */
+export type ApiXBatchSendOptions = Pick<ApiXRequestOptions, 'timeoutMs' | 'signal'>;
+
+/**
+ * The outcome of an operation of an `ApiXBatch`: either its response, or the
+ * error it failed with, such as an `ApiXResponseError` subclass.
+ * 
+ * @category Batching Requests
+ */
+export type ApiXBatchResult<DataType extends ApiXResponseData = ApiXResponseData> =
+  | { readonly response: ApiXResponse<DataType>; readonly error?: undefined }
+  | { readonly response?: undefined; readonly error: unknown };
+
+/**
+ * Makes a single request on behalf of an `ApiXBatch`.
+ */
+export type ApiXBatchRequestMaker = (
+  url: URL,
+  httpMethod: ApiXHttpMethod,
+  data: ApiXJsonObject | undefined,
+  options: ApiXRequestOptions
+) => Promise<ApiXResponse>;
+
+interface ApiXBatchOperation {
+  readonly url: URL;
+  readonly httpMethod: ApiXHttpMethod;
+  readonly data?: ApiXJsonObject;
+  readonly validator?: ApiXResponseValidator<ApiXResponseData>;
+}
+
+/**
+ * Bundles several operations into a single signed request to a batch endpoint.
+ * 
+ * Create one with `ApiXClient.batch`, add operations, then `send` it:
+ * 
+ * ```typescript
+ * const [user, post] = await client.batch()
+ *   .get('/users/:id', { params: { id: 42 } })
+ *   .post('/posts', { title: 'Hello' })
+ *   .send();
+ * ```
+ * 
+ * Without a batch endpoint, or if the server has no batch route, the
+ * operations are sent as separate requests, in parallel.
+ * 
+ * @category Batching Requests
+ */
+export class ApiXBatch {
+
+  private readonly operations: ApiXBatchOperation[] = [];
+
+  /**
+   * Creates a new, empty batch.
+   * @param makeRequest Makes a single signed request.
+   * @param baseUrl The URL against which path templates are resolved.
+   * @param policy The batch endpoint. Without one, operations are sent in parallel.
+   */
+  public constructor(
+    private readonly makeRequest: ApiXBatchRequestMaker,
+    private readonly baseUrl?: URL | string,
+    private readonly policy?: ApiXBatchPolicy
+  ) {}
+
+  /**
+   * The number of operations in the batch.
+   */
+  public get size(): number {
+    return this.operations.length;
+  }
+
+  /**
+   * Adds an operation to the batch.
+   * @param httpMethod The HTTP method of the operation.
+   * @param url The URL of the operation, or a path template (e.g.:
+   * `/users/:id`) that is resolved against the client's `baseUrl`.
+   * @param data The JSON body of the operation, if any.
+   * @param options The path and query parameters of the operation, and a
+   * validator for its response data.
+   * @returns This batch, for chaining.
+   * @throws `ApiXRequestError` if the URL cannot be built.
+   */
+  public add<DataType extends ApiXResponseData = ApiXResponseData, Path extends string = string>(
+    httpMethod: ApiXHttpMethod,
+    url: URL | Path,
+    data?: ApiXJsonObject,
+    options: ApiXBatchOperationOptions<Path, DataType> = {}
+  ): this {
+    this.operations.push({
+      url: buildApiXUrl(url, { baseUrl: this.baseUrl, params: options.params, query: options.query }),
+      httpMethod,
+      data,
+      validator: options.validator
+    });
+    return this;
+  }
+
+  /**
+   * Adds a GET operation to the batch.
+   * @returns This batch, for chaining.
+   */
+  public get<DataType extends ApiXResponseData = ApiXResponseData, Path extends string = string>(
+    url: URL | Path,
+    options?: ApiXBatchOperationOptions<Path, DataType>
+  ): this {
+    return this.add<DataType, Path>('GET', url, undefined, options);
+  }
+
+  /**
+   * Adds a POST operation to the batch.
+   * @returns This batch, for chaining.
+   */
+  public post<DataType extends ApiXResponseData = ApiXResponseData, Path extends string = string>(
+    url: URL | Path,
+    data?: ApiXJsonObject,
+    options?: ApiXBatchOperationOptions<Path, DataType>
+  ): this {
+    return this.add<DataType, Path>('POST', url, data, options);
+  }
+
+  /**
+   * Adds a PUT operation to the batch.
+   * @returns This batch, for chaining.
+   */
+  public put<DataType extends ApiXResponseData = ApiXResponseData, Path extends string = string>(
+    url: URL | Path,
+    data?: ApiXJsonObject,
+    options?: ApiXBatchOperationOptions<Path, DataType>
+  ): this {
+    return this.add<DataType, Path>('PUT', url, data, options);
+  }
+
+  /**
+   * Adds a DELETE operation to the batch.
+   * @returns This batch, for chaining.
+   */
+  public delete<DataType extends ApiXResponseData = ApiXResponseData, Path extends string = string>(
+    url: URL | Path,
+    data?: ApiXJsonObject,
+    options?: ApiXBatchOperationOptions<Path, DataType>
+  ): this {
+    return this.add<DataType, Path>('DELETE', url, data, options);
+  }
+
+  /**
+   * Adds a PATCH operation to the batch.
+   * @returns This batch, for chaining.
+   */
+  public patch<DataType extends ApiXResponseData = ApiXResponseData, Path extends string = string>(
+    url: URL | Path,
+    data?: ApiXJsonObject,
+    options?: ApiXBatchOperationOptions<Path, DataType>
+  ): this {
+    return this.add<DataType, Path>('PATCH', url, data, options);
+  }
+
+  /**
+   * Sends the operations of the batch.
+   * 
+   * Each operation that fails has its own error in the results, e.g. an
+   * `ApiXResponseError` subclass matching the error ID of its response.
+   * @param options The timeout and cancellation signal of the batch request.
+   * @returns The result of each operation, in the order they were added.
+   * @throws Errors of the batch request itself, e.g. if it is unauthorized
+   * or the batch response is invalid.
+   */
+  public async send(options: ApiXBatchSendOptions = {}): Promise<ApiXBatchResult[]> {
+    if (this.operations.length === 0) {
+      return [];
+    }
+    if (!this.policy) {
+      return await this.sendInParallel(options);
+    }
+
+    const endpoint = buildApiXUrl(this.policy.endpoint, { baseUrl: this.baseUrl });
+    let response: ApiXResponse;
+    try {
+      response = await this.makeRequest(endpoint, 'POST', {
+        requests: this.operations.map((operation, index) => this.operationRequest(operation, index, endpoint))
+      }, options);
+    } catch (error) {
+      if (this.policy.fallbackToParallel !== false && this.isMissingBatchRoute(error)) {
+        return await this.sendInParallel(options);
+      }
+      throw error;
+    }
+    if (this.policy.fallbackToParallel !== false && this.isMissingBatchRoute(response)) {
+      return await this.sendInParallel(options);
+    }
+
+    const responses = (response.data as Partial<ApiXBatchResponseEnvelope> | undefined)?.responses;
+    if (!Array.isArray(responses)) {
+      throw new ApiXResponseValidationError(response.statusCode, response.data, [{
+        message: 'Expected the responses of the batch in "responses".',
+        path: ['responses']
+      }]);
+    }
+
+    responses.forEach((result: unknown, index) => {
+      if (!this.isOperationResponse(result)) {
+        throw new ApiXResponseValidationError(response.statusCode, response.data, [{
+          message: 'Expected a response with an "id" and a "status".',
+          path: ['responses', index]
+        }]);
+      }
+    });
+
+    const responsesById = new Map(responses.map(result => [String(result.id), result]));
+    return await Promise.all(this.operations.map((operation, index) => {
+      return this.operationResult(operation, responsesById.get(String(index)));
+    }));
+  }
+
+  //// Helper Methods ////
+  private operationRequest(operation: ApiXBatchOperation, index: number, endpoint: URL): ApiXBatchOperationRequest {
+    if (operation.url.origin !== endpoint.origin) {
+      throw new ApiXRequestError(`Cannot batch a request to ${operation.url.origin} with the batch endpoint ${endpoint}.`);
+    }
+    return {
+      id: String(index),
+      method: operation.httpMethod,
+      path: `${operation.url.pathname}${operation.url.search}`,
+      ...(operation.data !== undefined ? { body: operation.data } : {})
+    };
+  }
+
+  /**
+   * Determines whether an entry of the batch response has the shape of an
+   * `ApiXBatchOperationResponse`.
+   */
+  private isOperationResponse(value: unknown): value is ApiXBatchOperationResponse {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const result = value as Record<string, unknown>;
+    return (typeof result.id === 'string' || typeof result.id === 'number')
+      && typeof result.status === 'number' && Number.isInteger(result.status)
+      && (result.headers === undefined || (typeof result.headers === 'object' && result.headers !== null));
+  }
+
+  private async operationResult(
+    operation: ApiXBatchOperation,
+    result?: ApiXBatchOperationResponse
+  ): Promise<ApiXBatchResult> {
+    if (!result) {
+      return { error: new ApiXRequestError(`The batch response has no response for ${operation.httpMethod} ${operation.url}.`) };
+    }
+
+    const response: ApiXResponse = {
+      statusCode: result.status,
+      data: result.body ?? undefined,
+      headers: new ApiXResponseHeaders(result.headers ?? {}),
+      cookies: []
+    };
+    if (isApiXErrorResponse(response.data)) {
+      return { error: errorForResponse(response as ApiXResponse<ApiXErrorResponse>) };
+    }
+    try {
+      return { response: await validateApiXResponse(response, operation.validator) };
+    } catch (error) {
+      return { error };
+    }
+  }
+
+  private async sendInParallel(options: ApiXBatchSendOptions): Promise<ApiXBatchResult[]> {
+    return await Promise.all(this.operations.map(async (operation): Promise<ApiXBatchResult> => {
+      try {
+        const response = await this.makeRequest(operation.url, operation.httpMethod, operation.data, {
+          ...options,
+          validator: operation.validator
+        });
+        return { response };
+      } catch (error) {
+        return { error };
+      }
+    }));
+  }
+
+  /**
+   * Determines whether the batch endpoint does not exist, from an API-X error
+   * or from a bare `404` or `405` response without an API-X error body.
+   */
+  private isMissingBatchRoute(result: unknown): boolean {
+    const statusCode = result instanceof ApiXResponseError
+      ? result.statusCode
+      : (result as Partial<ApiXResponse> | undefined)?.statusCode;
+    return statusCode === 404 || statusCode === 405;
+  }
+}
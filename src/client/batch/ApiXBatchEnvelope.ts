@@ -0,0 +1,81 @@
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXJsonObject } from '../types/ApiXJsonObject';
+import { ApiXResponseData } from '../types/ApiXResponse';
+
+/**
+ * An operation in the body of a batch request.
+ * 
+ * @category Batching Requests
+ */
+export interface ApiXBatchOperationRequest extends ApiXJsonObject {
+  /**
+   * Identifies the operation in the batch response.
+   */
+  readonly id: string;
+
+  /**
+   * The HTTP method of the operation.
+   */
+  readonly method: ApiXHttpMethod;
+
+  /**
+   * The pathname and query of the operation, e.g. `/v1/users/1?fields=name`.
+   */
+  readonly path: string;
+
+  /**
+   * The JSON body of the operation, if any.
+   */
+  readonly body?: ApiXJsonObject;
+}
+
+/**
+ * The body of a batch request, which is signed as a whole.
+ * 
+ * @category Batching Requests
+ */
+export interface ApiXBatchRequestEnvelope extends ApiXJsonObject {
+  /**
+   * The operations of the batch, in order.
+   */
+  readonly requests: readonly ApiXBatchOperationRequest[];
+}
+
+/**
+ * The response to an operation in the body of a batch response.
+ * 
+ * @category Batching Requests
+ */
+export interface ApiXBatchOperationResponse {
+  /**
+   * The ID of the operation.
+   */
+  readonly id: string;
+
+  /**
+   * The HTTP status code of the operation.
+   */
+  readonly status: number;
+
+  /**
+   * The HTTP headers of the operation, if any.
+   */
+  readonly headers?: Record<string, string>;
+
+  /**
+   * The JSON data of the operation, if any.
+   */
+  readonly body?: ApiXResponseData | null;
+}
+
+/**
+ * The data of a batch response.
+ * 
+ * @category Batching Requests
+ */
+export interface ApiXBatchResponseEnvelope extends ApiXResponseData {
+  /**
+   * The response to each operation of the batch.
+   */
+  readonly responses: readonly ApiXBatchOperationResponse[];
+}
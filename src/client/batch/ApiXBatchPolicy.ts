@@ -0,0 +1,19 @@
+/**
+ * An object used to configure how an `ApiXBatch` is sent.
+ * 
+ * @category Batching Requests
+ */
+export interface ApiXBatchPolicy {
+  /**
+   * The URL of the batch endpoint, or a path (e.g.: `/batch`) that is resolved
+   * against the client's `baseUrl`.
+   */
+  readonly endpoint: URL | string;
+
+  /**
+   * Whether the operations are sent as separate requests, in parallel, when
+   * the batch endpoint responds with `404 Not Found` or `405 Method Not
+   * Allowed`. Defaults to `true`.
+   */
+  readonly fallbackToParallel?: boolean;
+}
@@ -0,0 +1,144 @@
+import {
+  ApiXResponseUnauthorizedRequestError,
+  ApiXResponseValidationError
+} from '../../error';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+
+describe('ApiXBatch', () => {
+  const baseUrl = 'https://apix.example.com/v1';
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+
+  it('should send every operation in one signed request and split the responses', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/v1/batch', ApiXInMemoryTransport.json(200, {
+        success: true,
+        responses: [
+          { id: '2', status: 401, body: { success: false, error: { id: 'unauthorizedRequest', message: 'Nope' } } },
+          { id: '0', status: 200, headers: { etag: '"u42"' }, body: { success: true, user: { id: 42 } } },
+          { id: '1', status: 201, body: { success: true } }
+        ]
+      }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, batch: { endpoint: '/batch' } });
+
+    const [user, post, admin, missing] = await client.batch()
+      .get('/users/:id', { params: { id: 42 }, query: { fields: 'name' } })
+      .post('/posts', { title: 'Hello' })
+      .delete('/admin')
+      .get('/missing')
+      .send();
+
+    expect(transport.requests).toHaveLength(1);
+    expect(transport.requests[0].headers['x-signature']).toBeDefined();
+    expect(JSON.parse(transport.requests[0].body as string)).toEqual({
+      requests: [
+        { id: '0', method: 'GET', path: '/v1/users/42?fields=name' },
+        { id: '1', method: 'POST', path: '/v1/posts', body: { title: 'Hello' } },
+        { id: '2', method: 'DELETE', path: '/v1/admin' },
+        { id: '3', method: 'GET', path: '/v1/missing' }
+      ]
+    });
+    expect(user.response?.data).toEqual({ success: true, user: { id: 42 } });
+    expect(user.response?.headers?.get('ETag')).toBe('"u42"');
+    expect(post.response?.statusCode).toBe(201);
+    expect(admin.error).toBeInstanceOf(ApiXResponseUnauthorizedRequestError);
+    expect(admin.error).toMatchObject({ statusCode: 401, message: 'Nope' });
+    expect(missing.error).toBeInstanceOf(Error);
+  });
+
+  it('should validate the response of each operation', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/v1/batch', ApiXInMemoryTransport.json(200, {
+        success: true,
+        responses: [{ id: '0', status: 200, body: { success: true } }]
+      }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, batch: { endpoint: '/batch' } });
+
+    const [result] = await client.batch()
+      .get('/users/1', {
+        validator: () => {
+          throw new Error('Missing user');
+        }
+      })
+      .send();
+
+    expect(result.error).toBeInstanceOf(ApiXResponseValidationError);
+  });
+
+  it('should send the operations in parallel when there is no batch route', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/v1/users/1', ApiXInMemoryTransport.json(200, { success: true, id: 1 }))
+      .on('GET', '/v1/users/2', ApiXInMemoryTransport.json(200, { success: true, id: 2 }));
+    const batchClient = new ApiXClient(keyStore, { baseUrl, transport, batch: { endpoint: '/batch' } });
+    const parallelClient = new ApiXClient(keyStore, { baseUrl, transport });
+
+    const results = await batchClient.batch().get('/users/1').get('/users/2').send();
+    expect(results.map(result => result.response?.data)).toEqual([
+      { success: true, id: 1 },
+      { success: true, id: 2 }
+    ]);
+    expect(transport.requests.map(request => new URL(request.url).pathname))
+      .toEqual(['/v1/batch', '/v1/users/1', '/v1/users/2']);
+
+    transport.requests.length = 0;
+    await parallelClient.batch().get('/users/1').get('/users/2').send();
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it('should send the operations in parallel when the batch route answers with a bare 404', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/v1/batch', { status: 404, headers: { 'content-type': 'text/html' }, body: '<html>Not Found</html>' })
+      .on('GET', '/v1/users/1', ApiXInMemoryTransport.json(200, { success: true, id: 1 }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, batch: { endpoint: '/batch' } });
+
+    const results = await client.batch().get('/users/1').send();
+    expect(results.map(result => result.response?.data)).toEqual([{ success: true, id: 1 }]);
+    expect(transport.requests.map(request => new URL(request.url).pathname))
+      .toEqual(['/v1/batch', '/v1/users/1']);
+  });
+
+  it.each([
+    [null],
+    ['ok'],
+    [{ id: '0' }],
+    [{ id: '0', status: '200' }],
+    [{ status: 200 }]
+  ])('should reject the invalid batch response entry %p', async entry => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/v1/batch', ApiXInMemoryTransport.json(200, { success: true, responses: [entry] }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, batch: { endpoint: '/batch' } });
+
+    const sent = client.batch().get('/users/1').send();
+    await expect(sent).rejects.toThrow(ApiXResponseValidationError);
+    await expect(sent).rejects.toMatchObject({ issues: [{ path: ['responses', 0] }] });
+  });
+
+  it('should throw when the batch request itself fails', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/v1/batch', ApiXInMemoryTransport.json(401, {
+        success: false,
+        error: { id: 'unauthorizedRequest', message: 'Invalid signature' }
+      }))
+      .on('POST', '/v1/empty', ApiXInMemoryTransport.json(200, { success: true }));
+
+    const client = new ApiXClient(keyStore, { baseUrl, transport, batch: { endpoint: '/batch' } });
+    await expect(client.batch().get('/users/1').send()).rejects.toThrow(ApiXResponseUnauthorizedRequestError);
+
+    const invalidClient = new ApiXClient(keyStore, { baseUrl, transport, batch: { endpoint: '/empty' } });
+    await expect(invalidClient.batch().get('/users/1').send()).rejects.toThrow(ApiXResponseValidationError);
+
+    const strictClient = new ApiXClient(keyStore, {
+      baseUrl,
+      transport,
+      batch: { endpoint: '/missing', fallbackToParallel: false }
+    });
+    await expect(strictClient.batch().get('/users/1').send()).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,3 @@
+export * from './ApiXBatch';
+export * from './ApiXBatchEnvelope';
+export * from './ApiXBatchPolicy';
@@ -0,0 +1,186 @@
+import {
+  createHash,
+  randomBytes
+} from 'crypto';
+import { ApiXRequestBody } from '../types/ApiXRequestBody';
+
+/**
+ * The bytes read from stream bodies, by stream. A stream can only be read
+ * once, so requests that send the same stream again (e.g. a retry) reuse them.
+ */
+const streamBodies = new WeakMap<object, Promise<Uint8Array>>();
+
+/**
+ * Checks whether a request body is one of the supported non-JSON bodies.
+ * @param body The request body.
+ * @returns `true` if the body is form data, multipart form data, or binary.
+ * 
+ * @category Sending Request Bodies
+ */
+export const isApiXRequestBody = (body: unknown): body is ApiXRequestBody => {
+  if (body === null || typeof body !== 'object') {
+    return false;
+  }
+  return body instanceof URLSearchParams
+    || isFormData(body)
+    || isBlob(body)
+    || body instanceof Uint8Array
+    || body instanceof ArrayBuffer
+    || isReadableStream(body)
+    || Symbol.asyncIterator in body;
+};
+
+/**
+ * Creates a random boundary for a `multipart/form-data` body.
+ * @returns The boundary.
+ * 
+ * @category Sending Request Bodies
+ */
+export const createApiXMultipartBoundary = (): string => {
+  return `----ApiXFormBoundary${randomBytes(12).toString('hex')}`;
+};
+
+/**
+ * Gets the `Content-Type` with which a request body is sent.
+ * @param body The request body.
+ * @param boundary The boundary used to encode `FormData` bodies.
+ * @returns The content type.
+ * 
+ * @category Sending Request Bodies
+ */
+export const apiXRequestBodyContentType = (body: ApiXRequestBody, boundary: string): string => {
+  if (body instanceof URLSearchParams) {
+    return 'application/x-www-form-urlencoded;charset=UTF-8';
+  }
+  if (isFormData(body)) {
+    return `multipart/form-data; boundary=${boundary}`;
+  }
+  if (isBlob(body) && body.type.length > 0) {
+    return body.type;
+  }
+  return 'application/octet-stream';
+};
+
+/**
+ * Encodes a request body into the exact bytes that are sent and signed.
+ * @param body The request body.
+ * @param boundary The boundary used to encode `FormData` bodies. It must be the
+ * same as the one in the `Content-Type` of the request.
+ * 
+ * A stream is read once, and its bytes are reused when it is encoded again,
+ * so that a retried request sends the same body.
+ * @returns The raw bytes of the body.
+ * @throws Any error raised while reading a `Blob` or a stream.
+ * 
+ * @category Sending Request Bodies
+ */
+export const encodeApiXRequestBody = async (body: ApiXRequestBody, boundary: string): Promise<Uint8Array> => {
+  if (body instanceof URLSearchParams) {
+    return Buffer.from(body.toString(), 'utf-8');
+  }
+  if (isFormData(body)) {
+    return await encodeMultipartBody(body, boundary);
+  }
+  if (isBlob(body)) {
+    return new Uint8Array(await body.arrayBuffer());
+  }
+  if (body instanceof Uint8Array) {
+    return body;
+  }
+  if (body instanceof ArrayBuffer) {
+    return new Uint8Array(body);
+  }
+  let bytes = streamBodies.get(body);
+  if (!bytes) {
+    const stream = body;
+    const read = readStream(stream).then(chunks => Buffer.concat(chunks));
+    // A failed read is not reused, so that sending the body again reads it again.
+    read.catch(() => {
+      if (streamBodies.get(stream) === read) {
+        streamBodies.delete(stream);
+      }
+    });
+    streamBodies.set(stream, read);
+    bytes = read;
+  }
+  return await bytes;
+};
+
+/**
+ * Computes the digest with which a non-JSON body is signed.
+ * @param bytes The raw bytes of the body.
+ * @returns The base64-encoded SHA-256 digest of the bytes.
+ * 
+ * @category Sending Request Bodies
+ */
+export const digestApiXRequestBody = (bytes: Uint8Array): string => {
+  return createHash('sha256')
+    .update(bytes)
+    .digest('base64');
+};
+
+const isFormData = (body: object): body is FormData => {
+  return typeof FormData !== 'undefined' && body instanceof FormData;
+};
+
+const isBlob = (body: object): body is Blob => {
+  return typeof Blob !== 'undefined' && body instanceof Blob;
+};
+
+const isReadableStream = (body: object): body is ReadableStream<Uint8Array> => {
+  return typeof (body as ReadableStream).getReader === 'function';
+};
+
+const readStream = async (
+  stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array | string>
+): Promise<Uint8Array[]> => {
+  const chunks: Uint8Array[] = [];
+  if (isReadableStream(stream)) {
+    const reader = stream.getReader();
+    try {
+      for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        chunks.push(result.value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+    return chunks;
+  }
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk);
+  }
+  return chunks;
+};
+
+/**
+ * Encodes form data as `multipart/form-data`, following the HTML standard:
+ * names and file names are quoted, with `"`, CR and LF percent-encoded.
+ */
+const encodeMultipartBody = async (formData: FormData, boundary: string): Promise<Uint8Array> => {
+  const escape = (value: string) => value
+    .replace(/\r/g, '%0D')
+    .replace(/\n/g, '%0A')
+    .replace(/"/g, '%22');
+  const entries: [string, FormDataEntryValue][] = [];
+  formData.forEach((value, name) => entries.push([name, value]));
+
+  const chunks: Uint8Array[] = [];
+  for (const [name, value] of entries) {
+    if (typeof value === 'string') {
+      chunks.push(Buffer.from(
+        `--${boundary}\r\nContent-Disposition: form-data; name="${escape(name)}"\r\n\r\n${value}\r\n`,
+        'utf-8'
+      ));
+      continue;
+    }
+    chunks.push(Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="${escape(name)}"; filename="${escape(value.name)}"\r\n`
+        + `Content-Type: ${value.type || 'application/octet-stream'}\r\n\r\n`,
+      'utf-8'
+    ));
+    chunks.push(new Uint8Array(await value.arrayBuffer()));
+    chunks.push(Buffer.from('\r\n', 'utf-8'));
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`, 'utf-8'));
+  return Buffer.concat(chunks);
+};
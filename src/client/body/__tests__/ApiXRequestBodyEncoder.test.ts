@@ -0,0 +1,157 @@
+import {
+  apiXRequestBodyContentType,
+  digestApiXRequestBody,
+  encodeApiXRequestBody,
+  isApiXRequestBody
+} from '../ApiXRequestBodyEncoder';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXRequest } from '../../ApiXRequest';
+import { ApiXRequestError } from '../../error';
+import { Readable } from 'stream';
+import { createHmac } from 'crypto';
+
+describe('ApiXRequestBodyEncoder', () => {
+  const boundary = '----ApiXFormBoundaryTest';
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+
+  it('should recognize non-JSON bodies', () => {
+    expect(isApiXRequestBody(new URLSearchParams())).toBe(true);
+    expect(isApiXRequestBody(new FormData())).toBe(true);
+    expect(isApiXRequestBody(Buffer.from('a'))).toBe(true);
+    expect(isApiXRequestBody(new Blob(['a']))).toBe(true);
+    expect(isApiXRequestBody(Readable.from(['a']))).toBe(true);
+    expect(isApiXRequestBody({ name: 'Alice' })).toBe(false);
+    expect(isApiXRequestBody(undefined)).toBe(false);
+  });
+
+  it('should choose the content type from the kind of body', () => {
+    expect(apiXRequestBodyContentType(new URLSearchParams(), boundary))
+      .toBe('application/x-www-form-urlencoded;charset=UTF-8');
+    expect(apiXRequestBodyContentType(new FormData(), boundary))
+      .toBe(`multipart/form-data; boundary=${boundary}`);
+    expect(apiXRequestBodyContentType(new Blob(['a'], { type: 'image/png' }), boundary)).toBe('image/png');
+    expect(apiXRequestBodyContentType(Buffer.from('a'), boundary)).toBe('application/octet-stream');
+  });
+
+  it('should encode url-encoded forms and binary bodies', async () => {
+    const decode = async (body: Parameters<typeof encodeApiXRequestBody>[0]) => {
+      return Buffer.from(await encodeApiXRequestBody(body, boundary)).toString('utf-8');
+    };
+
+    expect(await decode(new URLSearchParams({ q: 'a b', lang: 'en' }))).toBe('q=a+b&lang=en');
+    expect(await decode(new Blob(['hello']))).toBe('hello');
+    expect(await decode(new TextEncoder().encode('hello').buffer)).toBe('hello');
+    expect(await decode(Readable.from([Buffer.from('hel'), 'lo']))).toBe('hello');
+    expect(await decode(new Blob(['hello']).stream())).toBe('hello');
+  });
+
+  it('should encode multipart form data', async () => {
+    const formData = new FormData();
+    formData.append('title', 'Report');
+    formData.append('file', new Blob(['a,b'], { type: 'text/csv' }), 'q"1.csv');
+
+    const body = Buffer.from(await encodeApiXRequestBody(formData, boundary)).toString('utf-8');
+
+    expect(body).toBe([
+      `--${boundary}`,
+      'Content-Disposition: form-data; name="title"',
+      '',
+      'Report',
+      `--${boundary}`,
+      'Content-Disposition: form-data; name="file"; filename="q%221.csv"',
+      'Content-Type: text/csv',
+      '',
+      'a,b',
+      `--${boundary}--`,
+      ''
+    ].join('\r\n'));
+  });
+
+  it('should sign non-JSON bodies with the digest of their raw bytes', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/files', ApiXInMemoryTransport.json(200, { success: true }));
+    const bytes = Buffer.from([0, 1, 2, 255]);
+
+    await new ApiXRequest({
+      url: new URL('https://apix.example.com/files'),
+      keyStore,
+      transport,
+      httpMethod: 'POST',
+      body: bytes
+    }).make();
+
+    const [sent] = transport.requests;
+    const digest = digestApiXRequestBody(bytes);
+    const message = `/files.POST.${sent.headers['x-signature-nonce']}.${sent.headers['date']}.${digest}`;
+    expect(sent.body).toEqual(bytes);
+    expect(sent.headers['content-type']).toBe('application/octet-stream');
+    expect(sent.headers['content-digest']).toBe(`sha-256=:${digest}:`);
+    expect(sent.headers['x-signature']).toBe(createHmac('sha256', 'testAppKey').update(message, 'utf-8').digest('hex'));
+  });
+
+  it('should reject requests with both a JSON and a non-JSON body', () => {
+    expect(() => new ApiXRequest({
+      url: new URL('https://apix.example.com/files'),
+      keyStore,
+      data: { name: 'Alice' },
+      body: Buffer.from('a')
+    })).toThrow(ApiXRequestError);
+  });
+
+  it('should let ApiXClient send forms', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/login', ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, { baseUrl: 'https://apix.example.com', transport });
+
+    await client.makePostRequest('/login', new URLSearchParams({ user: 'alice' }));
+
+    const [sent] = transport.requests;
+    expect(Buffer.from(sent.body as Uint8Array).toString('utf-8')).toBe('user=alice');
+    expect(sent.headers['content-type']).toBe('application/x-www-form-urlencoded;charset=UTF-8');
+  });
+
+  it('should send the same stream body when a request is retried', async () => {
+    let calls = 0;
+    const transport = new ApiXInMemoryTransport()
+      .on('PUT', '/files/1', () => ++calls < 2
+        ? ApiXInMemoryTransport.json(503, { success: false, error: { id: 'unavailable', message: 'Try again' } })
+        : ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl: 'https://apix.example.com',
+      transport,
+      retry: { baseDelayMs: 0 }
+    });
+
+    await client.makePutRequest('/files/1', Readable.from([Buffer.from('hello '), 'world']));
+
+    expect(transport.requests).toHaveLength(2);
+    transport.requests.forEach(sent => {
+      expect(Buffer.from(sent.body as Uint8Array).toString('utf-8')).toBe('hello world');
+      expect(sent.headers['content-digest']).toBe(`sha-256=:${digestApiXRequestBody(Buffer.from('hello world'))}:`);
+    });
+  });
+
+  it('should read a stream body again when reading it failed', async () => {
+    let reads = 0;
+    const stream = {
+      async *[Symbol.asyncIterator]() {
+        if (++reads === 1) {
+          throw new Error('Connection reset');
+        }
+        yield 'hello';
+      }
+    };
+
+    await expect(encodeApiXRequestBody(stream, boundary)).rejects.toThrow('Connection reset');
+    await expect(encodeApiXRequestBody(stream, boundary)).resolves.toEqual(Buffer.from('hello'));
+    expect(reads).toBe(2);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * A cached response, in a form that can be serialized as JSON.
+ * 
+ * @category Caching Responses
+ */
+export interface ApiXCacheEntry {
+  /**
+   * The URL of the request.
+   */
+  readonly url: string;
+
+  /**
+   * The HTTP status code of the response.
+   */
+  readonly statusCode: number;
+
+  /**
+   * The parsed data of the response.
+   */
+  readonly data: unknown;
+
+  /**
+   * The HTTP headers of the response. Header names are lowercased.
+   */
+  readonly headers: Record<string, string>;
+
+  /**
+   * The value of each request header named by the `Vary` header of the response.
+   */
+  readonly varyHeaders: Record<string, string>;
+
+  /**
+   * When the response was received or last revalidated, in milliseconds since the epoch.
+   */
+  readonly storedAt: number;
+}
+
+/**
+ * An object that stores cached responses, such as an in-memory map or a
+ * persistent key-value store.
+ * 
+ * Keys never contain API keys in clear text.
+ * 
+ * @category Caching Responses
+ */
+export interface ApiXCacheStorage {
+  /**
+   * Gets an entry.
+   * @param key The key of the entry.
+   * @returns The entry, or `undefined` if there is none.
+   */
+  get(key: string): ApiXCacheEntry | undefined | Promise<ApiXCacheEntry | undefined>;
+
+  /**
+   * Stores an entry, replacing any entry with the same key.
+   * @param key The key of the entry.
+   * @param entry The entry.
+   */
+  set(key: string, entry: ApiXCacheEntry): void | Promise<void>;
+
+  /**
+   * Removes an entry.
+   * @param key The key of the entry.
+   */
+  delete(key: string): void | Promise<void>;
+}
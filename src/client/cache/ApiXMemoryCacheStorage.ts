@@ -0,0 +1,56 @@
+import { ApiXCacheEntry, ApiXCacheStorage } from './ApiXCacheStorage';
+
+/**
+ * A cache storage that keeps entries in memory, evicting the least recently
+ * used entry when it is full.
+ * 
+ * @category Caching Responses
+ */
+export class ApiXMemoryCacheStorage implements ApiXCacheStorage {
+
+  private readonly entries = new Map<string, ApiXCacheEntry>();
+
+  /**
+   * Creates a new in-memory cache storage.
+   * @param maxEntries The maximum number of entries. Defaults to `100`.
+   */
+  public constructor(
+    public readonly maxEntries: number = 100
+  ) {}
+
+  /**
+   * The number of entries in the storage.
+   */
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(key: string): ApiXCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  public set(key: string, entry: ApiXCacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      const leastRecentlyUsedKey = this.entries.keys().next().value as string;
+      this.entries.delete(leastRecentlyUsedKey);
+    }
+  }
+
+  public delete(key: string) {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Removes all entries.
+   */
+  public clear() {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,257 @@
+import { ApiXCacheEntry, ApiXCacheStorage } from './ApiXCacheStorage';
+import { ApiXMemoryCacheStorage } from './ApiXMemoryCacheStorage';
+import { ApiXResponse } from '../types/ApiXResponse';
+import { ApiXResponseHeaders } from '../headers/ApiXResponseHeaders';
+import { createHash } from 'crypto';
+
+/**
+ * A cached response found for a request.
+ * 
+ * @category Caching Responses
+ */
+export interface ApiXCacheLookup {
+  /**
+   * The key of the entry.
+   */
+  readonly key: string;
+
+  /**
+   * The cached entry.
+   */
+  readonly entry: ApiXCacheEntry;
+
+  /**
+   * Whether the entry can be used without revalidating it with the server.
+   */
+  readonly fresh: boolean;
+}
+
+/**
+ * A private HTTP cache for the GET responses of API-X requests.
+ * 
+ * Following RFC 9111, responses are stored unless they are marked with
+ * `Cache-Control: no-store` or `Vary: *`, and are fresh for their `max-age`,
+ * or until their `Expires` date. Stale responses, and responses marked with
+ * `no-cache`, are revalidated with `If-None-Match` or `If-Modified-Since`, and
+ * a `304 Not Modified` response is answered with the cached response.
+ * Responses are only used for requests whose headers match their `Vary` header.
+ * 
+ * Entries are keyed by the API key, `Authorization` header and cookies of the
+ * request (hashed), so responses for different credentials never mix.
+ * `Set-Cookie` headers are never stored, and cached data is copied, so
+ * changing a response never changes the cache.
+ * 
+ * @category Caching Responses
+ */
+export class ApiXResponseCache {
+
+  /**
+   * Creates a new response cache.
+   * @param storage Where the cached responses are stored. Defaults to an
+   * in-memory LRU storage of 100 entries.
+   */
+  public constructor(
+    public readonly storage: ApiXCacheStorage = new ApiXMemoryCacheStorage()
+  ) {}
+
+  /**
+   * Finds the cached response of a request.
+   * @param url The URL of the request.
+   * @param requestHeaders The headers of the request.
+   * @param apiKey The API key with which the request is signed.
+   * @returns The cached response, or `undefined` if there is none that
+   * matches the request.
+   */
+  public async lookup(
+    url: URL,
+    requestHeaders: Record<string, string>,
+    apiKey: string
+  ): Promise<ApiXCacheLookup | undefined> {
+    const key = this.key(url, requestHeaders, apiKey);
+    const entry = await this.storage.get(key);
+    if (!entry || !this.varyHeadersMatch(entry, requestHeaders)) {
+      return undefined;
+    }
+
+    const cacheControl = this.cacheControl(entry.headers);
+    const fresh = !('no-cache' in cacheControl)
+      && this.currentAge(entry) < this.freshnessLifetime(entry.headers, cacheControl, entry.storedAt);
+    return { key, entry, fresh };
+  }
+
+  /**
+   * Builds the headers that revalidate a cached response.
+   * @param lookup The cached response.
+   * @returns The `If-None-Match` and `If-Modified-Since` headers, if the
+   * response has an `ETag` or a `Last-Modified` header.
+   */
+  public conditionalHeaders(lookup: ApiXCacheLookup): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (lookup.entry.headers['etag']) {
+      headers['if-none-match'] = lookup.entry.headers['etag'];
+    }
+    if (lookup.entry.headers['last-modified']) {
+      headers['if-modified-since'] = lookup.entry.headers['last-modified'];
+    }
+    return headers;
+  }
+
+  /**
+   * Updates a cached response with the headers of a `304 Not Modified` response.
+   * @param lookup The cached response.
+   * @param notModified The `304` response.
+   * @returns The updated cached response.
+   */
+  public async revalidate(lookup: ApiXCacheLookup, notModified: ApiXResponse): Promise<ApiXResponse> {
+    const entry: ApiXCacheEntry = {
+      ...lookup.entry,
+      headers: {
+        ...lookup.entry.headers,
+        ...this.storableHeaders(notModified.headers)
+      },
+      storedAt: Date.now()
+    };
+    await this.storage.set(lookup.key, entry);
+    return this.response(entry);
+  }
+
+  /**
+   * Stores the response of a request, if it can be cached.
+   * @param url The URL of the request.
+   * @param requestHeaders The headers of the request.
+   * @param apiKey The API key with which the request is signed.
+   * @param response The response.
+   */
+  public async store(
+    url: URL,
+    requestHeaders: Record<string, string>,
+    apiKey: string,
+    response: ApiXResponse
+  ) {
+    const headers = this.storableHeaders(response.headers);
+    const cacheControl = this.cacheControl(headers);
+    const vary = this.varyHeaderNames(headers);
+    const key = this.key(url, requestHeaders, apiKey);
+
+    if (response.statusCode !== 200 || 'no-store' in cacheControl || vary.includes('*')) {
+      await this.storage.delete(key);
+      return;
+    }
+    const hasValidator = headers['etag'] !== undefined || headers['last-modified'] !== undefined;
+    if (!hasValidator && this.freshnessLifetime(headers, cacheControl, Date.now()) <= 0) {
+      return;
+    }
+
+    const normalizedRequestHeaders = this.lowercased(requestHeaders);
+    const varyHeaders: Record<string, string> = {};
+    vary.forEach(name => {
+      varyHeaders[name] = normalizedRequestHeaders[name] ?? '';
+    });
+
+    await this.storage.set(key, {
+      url: url.toString(),
+      statusCode: response.statusCode,
+      data: structuredClone(response.data ?? null),
+      headers,
+      varyHeaders,
+      storedAt: Date.now()
+    });
+  }
+
+  /**
+   * Builds the response of a cached entry.
+   * @param entry The cached entry.
+   * @returns The cached response, with a copy of its data. It has no cookies.
+   */
+  public response(entry: ApiXCacheEntry): ApiXResponse {
+    return {
+      data: structuredClone(entry.data) as ApiXResponse['data'],
+      statusCode: entry.statusCode,
+      headers: new ApiXResponseHeaders(entry.headers),
+      cookies: []
+    };
+  }
+
+  /**
+   * The key of a request: a hash of its credentials (the API key, and the
+   * `Authorization` and `Cookie` headers), and its URL.
+   */
+  private key(url: URL, requestHeaders: Record<string, string>, apiKey: string): string {
+    const headers = this.lowercased(requestHeaders);
+    const credentialsHash = createHash('sha256')
+      .update(JSON.stringify([apiKey, headers['authorization'] ?? '', headers['cookie'] ?? '']), 'utf-8')
+      .digest('hex');
+    return `${credentialsHash}:${url.toString()}`;
+  }
+
+  private storableHeaders(headers?: ApiXResponseHeaders): Record<string, string> {
+    const storable = this.lowercased(headers?.toJSON() ?? {});
+    delete storable['set-cookie'];
+    return storable;
+  }
+
+  private lowercased(headers: Record<string, string>): Record<string, string> {
+    const lowercased: Record<string, string> = {};
+    Object.entries(headers).forEach(([name, value]) => {
+      lowercased[name.toLowerCase()] = value;
+    });
+    return lowercased;
+  }
+
+  private varyHeaderNames(headers: Record<string, string>): string[] {
+    return (headers['vary'] ?? '')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(name => name.length > 0);
+  }
+
+  private varyHeadersMatch(entry: ApiXCacheEntry, requestHeaders: Record<string, string>): boolean {
+    const normalizedRequestHeaders = this.lowercased(requestHeaders);
+    return Object.entries(entry.varyHeaders)
+      .every(([name, value]) => (normalizedRequestHeaders[name] ?? '') === value);
+  }
+
+  /**
+   * Parses the directives of a `Cache-Control` header.
+   */
+  private cacheControl(headers: Record<string, string>): Record<string, string> {
+    const directives: Record<string, string> = {};
+    (headers['cache-control'] ?? '').split(',').forEach(directive => {
+      const [name, ...value] = directive.split('=');
+      if (name.trim().length > 0) {
+        directives[name.trim().toLowerCase()] = value.join('=').trim().replace(/^"|"$/g, '');
+      }
+    });
+    return directives;
+  }
+
+  /**
+   * The freshness lifetime of a response in milliseconds, from its `max-age`
+   * directive or its `Expires` header. `receivedAt` is used when the response
+   * has no `Date` header.
+   */
+  private freshnessLifetime(
+    headers: Record<string, string>,
+    cacheControl: Record<string, string>,
+    receivedAt: number
+  ): number {
+    if (cacheControl['max-age'] !== undefined) {
+      const maxAge = Number(cacheControl['max-age']);
+      return Number.isInteger(maxAge) ? maxAge * 1000 : 0;
+    }
+    if (headers['expires'] !== undefined) {
+      const expires = Date.parse(headers['expires']);
+      const date = headers['date'] !== undefined ? Date.parse(headers['date']) : NaN;
+      return Number.isNaN(expires) ? 0 : expires - (Number.isNaN(date) ? receivedAt : date);
+    }
+    return 0;
+  }
+
+  /**
+   * The age of a cached response in milliseconds, including its `Age` header.
+   */
+  private currentAge(entry: ApiXCacheEntry): number {
+    const age = Number(entry.headers['age'] ?? 0);
+    return (Number.isNaN(age) ? 0 : age * 1000) + Math.max(0, Date.now() - entry.storedAt);
+  }
+}
@@ -0,0 +1,210 @@
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXMemoryCacheStorage } from '../ApiXMemoryCacheStorage';
+import { ApiXResponseCache } from '../ApiXResponseCache';
+import { ApiXResponseError, ApiXResponseValidationError } from '../../error';
+
+describe('ApiXResponseCache', () => {
+  const baseUrl = 'https://apix.example.com';
+  const createKeyStore = (apiKey: string) => ({
+    getApiKey: jest.fn().mockReturnValue(apiKey),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey,
+      appKey: 'testAppKey'
+    })
+  });
+  const keyStore = createKeyStore('testApiKey');
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should serve fresh responses from the cache, then revalidate them with their ETag', async () => {
+    let version = 1;
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', request => request.headers['if-none-match'] === '"v1"'
+        ? { status: 304, headers: { 'cache-control': 'max-age=30' }, body: '' }
+        : ApiXInMemoryTransport.json(200, { success: true, version: version++ }, {
+          'cache-control': 'max-age=60',
+          etag: '"v1"'
+        }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, cache: new ApiXResponseCache() });
+
+    const first = await client.makeGetRequest('/config');
+    jest.setSystemTime(new Date('2026-01-01T00:00:59Z'));
+    const second = await client.makeGetRequest('/config');
+    expect(transport.requests).toHaveLength(1);
+    expect(second.data).toEqual({ success: true, version: 1 });
+    expect(second.headers?.get('ETag')).toBe('"v1"');
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    const revalidated = await client.makeGetRequest('/config');
+    expect(transport.requests).toHaveLength(2);
+    expect(transport.requests[1].headers['if-none-match']).toBe('"v1"');
+    expect(revalidated).toMatchObject({ statusCode: 200, data: first.data });
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:29Z'));
+    await client.makeGetRequest('/config');
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it('should revalidate no-cache responses with If-Modified-Since', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', request => request.headers['if-modified-since']
+        ? { status: 304, headers: {}, body: '' }
+        : ApiXInMemoryTransport.json(200, { success: true }, {
+          'cache-control': 'no-cache',
+          'last-modified': 'Wed, 31 Dec 2025 00:00:00 GMT'
+        }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, cache: new ApiXResponseCache() });
+
+    await client.makeGetRequest('/config');
+    const response = await client.makeGetRequest('/config');
+
+    expect(transport.requests[1].headers['if-modified-since']).toBe('Wed, 31 Dec 2025 00:00:00 GMT');
+    expect(response).toMatchObject({ statusCode: 200, data: { success: true } });
+  });
+
+  it('should honor Expires, no-store and Vary', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/expires', ApiXInMemoryTransport.json(200, { success: true }, {
+        date: 'Thu, 01 Jan 2026 00:00:00 GMT',
+        expires: 'Thu, 01 Jan 2026 00:00:10 GMT'
+      }))
+      .on('GET', '/private', ApiXInMemoryTransport.json(200, { success: true }, {
+        'cache-control': 'no-store, max-age=60'
+      }))
+      .on('GET', '/localized', ApiXInMemoryTransport.json(200, { success: true }, {
+        'cache-control': 'max-age=60',
+        vary: 'Accept-Language'
+      }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, cache: new ApiXResponseCache() });
+    let language = 'en';
+    client.use(async (request, next) => {
+      request.setHeader('Accept-Language', language);
+      return await next();
+    });
+
+    await client.makeGetRequest('/expires');
+    await client.makeGetRequest('/expires');
+    jest.setSystemTime(new Date('2026-01-01T00:00:10Z'));
+    await client.makeGetRequest('/expires');
+    expect(transport.requests).toHaveLength(2);
+
+    await client.makeGetRequest('/private');
+    await client.makeGetRequest('/private');
+    expect(transport.requests).toHaveLength(4);
+
+    await client.makeGetRequest('/localized');
+    await client.makeGetRequest('/localized');
+    language = 'fr';
+    await client.makeGetRequest('/localized');
+    expect(transport.requests).toHaveLength(6);
+  });
+
+  it('should never share responses between API keys', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/me', request => ApiXInMemoryTransport.json(200, {
+        success: true,
+        apiKey: request.headers['x-api-key']
+      }, { 'cache-control': 'max-age=60' }));
+    const cache = new ApiXResponseCache();
+    const alice = new ApiXClient(createKeyStore('alice'), { baseUrl, transport, cache });
+    const bob = new ApiXClient(createKeyStore('bob'), { baseUrl, transport, cache });
+
+    await alice.makeGetRequest('/me');
+    const response = await bob.makeGetRequest('/me');
+
+    expect(response.data).toEqual({ success: true, apiKey: 'bob' });
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it('should never share responses between Authorization headers or cookies', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/me', request => ApiXInMemoryTransport.json(200, {
+        success: true,
+        user: request.headers['authorization'] ?? request.headers['cookie']
+      }, { 'cache-control': 'max-age=60' }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, cache: new ApiXResponseCache() });
+
+    await client.makeGetRequest('/me', { headers: { Authorization: 'Bearer alice' } });
+    const bob = await client.makeGetRequest('/me', { headers: { Authorization: 'Bearer bob' } });
+    const carol = await client.makeGetRequest('/me', { headers: { Cookie: 'session=carol' } });
+    const cachedBob = await client.makeGetRequest('/me', { headers: { Authorization: 'Bearer bob' } });
+
+    expect(bob.data).toEqual({ success: true, user: 'Bearer bob' });
+    expect(carol.data).toEqual({ success: true, user: 'session=carol' });
+    expect(cachedBob.data).toEqual({ success: true, user: 'Bearer bob' });
+    expect(transport.requests).toHaveLength(3);
+  });
+
+  it('should return copies of cached data', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', ApiXInMemoryTransport.json(200, {
+        success: true,
+        flags: ['a']
+      }, { 'cache-control': 'max-age=60' }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, cache: new ApiXResponseCache() });
+
+    const stored = await client.makeGetRequest<{ success: boolean; flags: string[] }>('/config');
+    stored.data?.flags.push('b');
+    const cached = await client.makeGetRequest<{ success: boolean; flags: string[] }>('/config');
+    cached.data?.flags.push('c');
+    const cachedAgain = await client.makeGetRequest<{ success: boolean; flags: string[] }>('/config');
+
+    expect(cachedAgain.data).toEqual({ success: true, flags: ['a'] });
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('should serve fresh responses without the circuit breaker or rate limiter', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', ApiXInMemoryTransport.json(200, { success: true }, { 'cache-control': 'max-age=60' }))
+      .on('GET', '/status', ApiXInMemoryTransport.json(503, { success: false, error: { id: 'unavailable', message: 'Down' } }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport,
+      cache: new ApiXResponseCache(),
+      circuitBreaker: { failureThreshold: 1 },
+      rateLimit: { limit: 2, intervalMs: 60000 }
+    });
+
+    await client.makeGetRequest('/config');
+    await expect(client.makeGetRequest('/status')).rejects.toThrow(ApiXResponseError);
+    expect(client.circuitBreaker?.state(baseUrl)).toBe('open');
+
+    await expect(client.makeGetRequest('/config')).resolves.toMatchObject({ statusCode: 200, data: { success: true } });
+    expect(transport.requests).toHaveLength(2);
+  });
+
+  it('should validate cached responses', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', ApiXInMemoryTransport.json(200, { success: true }, { 'cache-control': 'max-age=60' }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport, cache: new ApiXResponseCache() });
+
+    await client.makeGetRequest('/config');
+    await expect(client.makeGetRequest('/config', {
+      validator: () => {
+        throw new Error('Missing version');
+      }
+    })).rejects.toThrow(ApiXResponseValidationError);
+  });
+
+  it('should evict the least recently used entries from memory', () => {
+    const storage = new ApiXMemoryCacheStorage(2);
+    const entry = { url: '', statusCode: 200, data: null, headers: {}, varyHeaders: {}, storedAt: 0 };
+
+    storage.set('a', entry);
+    storage.set('b', entry);
+    storage.get('a');
+    storage.set('c', entry);
+
+    expect(storage.size).toBe(2);
+    expect(storage.get('a')).toBe(entry);
+    expect(storage.get('b')).toBeUndefined();
+  });
+});
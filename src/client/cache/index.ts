@@ -0,0 +1,3 @@
+export * from './ApiXCacheStorage';
+export * from './ApiXMemoryCacheStorage';
+export * from './ApiXResponseCache';
@@ -0,0 +1,218 @@
+import { ApiXCircuitBreakerPolicy, defaultApiXCircuitBreakerPolicy } from './ApiXCircuitBreakerPolicy';
+import { ApiXRequestAbortedError, ApiXRequestError } from '../error/ApiXRequestError';
+import { ApiXCircuitOpenError } from '../error/ApiXCircuitOpenError';
+import { ApiXResponse } from '../types/ApiXResponse';
+import { ApiXResponseError } from '../error/ApiXResponseError';
+
+/**
+ * The state of a circuit.
+ * 
+ * - `closed`: requests are sent normally.
+ * - `open`: requests fail fast with an `ApiXCircuitOpenError`.
+ * - `half-open`: a limited number of trial requests are sent.
+ * 
+ * @category Breaking Circuits
+ */
+export type ApiXCircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * A change in the state of a circuit.
+ * 
+ * @category Breaking Circuits
+ */
+export interface ApiXCircuitStateChange {
+  /**
+   * The origin of the circuit (e.g.: `https://apix.example.com`).
+   */
+  readonly origin: string;
+
+  /**
+   * The previous state of the circuit.
+   */
+  readonly from: ApiXCircuitState;
+
+  /**
+   * The new state of the circuit.
+   */
+  readonly to: ApiXCircuitState;
+}
+
+/**
+ * A function called when the state of a circuit changes.
+ * 
+ * @category Breaking Circuits
+ */
+export type ApiXCircuitStateChangeListener = (change: ApiXCircuitStateChange) => void;
+
+interface ApiXCircuit {
+  state: ApiXCircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  trialRequests: number;
+}
+
+/**
+ * An object that runs requests through a circuit breaker per origin,
+ * according to an `ApiXCircuitBreakerPolicy`.
+ * 
+ * Network failures (including timeouts) and responses or `ApiXResponseError`s
+ * with one of the `failureStatusCodes` count as failures. Cancelled requests
+ * count as neither failures nor successes.
+ * 
+ * @category Breaking Circuits
+ */
+export class ApiXCircuitBreaker {
+
+  /**
+   * The policy with all defaults applied.
+   */
+  public readonly policy: Required<ApiXCircuitBreakerPolicy>;
+
+  private readonly circuits = new Map<string, ApiXCircuit>();
+
+  private readonly listeners: ApiXCircuitStateChangeListener[] = [];
+
+  /**
+   * Creates a new circuit breaker.
+   * @param policy The circuit breaker policy. Options that are not set use
+   * `defaultApiXCircuitBreakerPolicy`.
+   */
+  public constructor(policy: ApiXCircuitBreakerPolicy = {}) {
+    this.policy = {
+      ...defaultApiXCircuitBreakerPolicy,
+      ...policy
+    };
+  }
+
+  /**
+   * Gets the state of the circuit of an origin.
+   * @param origin The origin (e.g.: `https://apix.example.com`).
+   * @returns The state of the circuit. An open circuit stays `open` until a
+   * request is attempted after `resetTimeoutMs`.
+   */
+  public state(origin: string): ApiXCircuitState {
+    return this.circuits.get(origin)?.state ?? 'closed';
+  }
+
+  /**
+   * Adds a listener that is called every time the state of a circuit changes.
+   * @param listener The listener.
+   * @returns A function that removes the listener.
+   */
+  public onStateChange(listener: ApiXCircuitStateChangeListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index >= 0) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Runs a request attempt through the circuit of its origin.
+   * @param origin The origin of the request.
+   * @param attempt A function that creates, signs and sends the request.
+   * @returns The response of the attempt.
+   * @throws `ApiXCircuitOpenError` without calling `attempt` if the circuit
+   * is open, or the error of the attempt.
+   */
+  public async run<ResponseType extends ApiXResponse>(
+    origin: string,
+    attempt: () => Promise<ResponseType>
+  ): Promise<ResponseType> {
+    const circuit = this.circuit(origin);
+
+    if (circuit.state === 'open') {
+      const retryAt = circuit.openedAt + this.policy.resetTimeoutMs;
+      if (Date.now() < retryAt) {
+        throw new ApiXCircuitOpenError(origin, new Date(retryAt));
+      }
+      this.transition(origin, circuit, 'half-open');
+    }
+
+    const isTrialRequest = circuit.state === 'half-open';
+    if (isTrialRequest) {
+      if (circuit.trialRequests >= this.policy.halfOpenMaxRequests) {
+        throw new ApiXCircuitOpenError(origin, new Date(Date.now() + this.policy.resetTimeoutMs));
+      }
+      circuit.trialRequests += 1;
+    }
+
+    try {
+      const response = await attempt();
+      if (this.policy.failureStatusCodes.includes(response.statusCode)) {
+        this.recordFailure(origin, circuit);
+      } else {
+        this.recordSuccess(origin, circuit);
+      }
+      return response;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.recordFailure(origin, circuit);
+      } else if (error instanceof ApiXRequestAbortedError) {
+        if (isTrialRequest && circuit.state === 'half-open') {
+          circuit.trialRequests -= 1;
+        }
+      } else {
+        this.recordSuccess(origin, circuit);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Determines whether an error counts as a failure of the origin.
+   * @param error The error thrown by an attempt.
+   * @returns `true` for network failures (including timeouts) and for API-X
+   * errors with one of the `failureStatusCodes`.
+   */
+  public isFailure(error: unknown): boolean {
+    if (error instanceof ApiXResponseError) {
+      return this.policy.failureStatusCodes.includes(error.statusCode);
+    }
+    return error instanceof ApiXRequestError
+      && !(error instanceof ApiXRequestAbortedError)
+      && !(error instanceof ApiXCircuitOpenError);
+  }
+
+  private circuit(origin: string): ApiXCircuit {
+    let circuit = this.circuits.get(origin);
+    if (!circuit) {
+      circuit = {
+        state: 'closed',
+        consecutiveFailures: 0,
+        openedAt: 0,
+        trialRequests: 0
+      };
+      this.circuits.set(origin, circuit);
+    }
+    return circuit;
+  }
+
+  private recordSuccess(origin: string, circuit: ApiXCircuit) {
+    circuit.consecutiveFailures = 0;
+    if (circuit.state !== 'closed') {
+      this.transition(origin, circuit, 'closed');
+    }
+  }
+
+  private recordFailure(origin: string, circuit: ApiXCircuit) {
+    circuit.consecutiveFailures += 1;
+    if (circuit.state === 'half-open'
+      || (circuit.state === 'closed' && circuit.consecutiveFailures >= this.policy.failureThreshold)) {
+      circuit.openedAt = Date.now();
+      this.transition(origin, circuit, 'open');
+    }
+  }
+
+  private transition(origin: string, circuit: ApiXCircuit, state: ApiXCircuitState) {
+    const from = circuit.state;
+    circuit.state = state;
+    circuit.trialRequests = 0;
+    if (state === 'closed') {
+      circuit.consecutiveFailures = 0;
+    }
+    [...this.listeners].forEach(listener => listener({ origin, from, to: state }));
+  }
+}
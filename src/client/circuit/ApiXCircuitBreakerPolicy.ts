@@ -0,0 +1,47 @@
+/**
+ * An object used to configure the circuit breakers of a client.
+ * 
+ * Each origin has its own circuit. A circuit opens after `failureThreshold`
+ * consecutive failures, and rejects requests without sending them while it
+ * is open. After `resetTimeoutMs`, it becomes half-open and lets up to
+ * `halfOpenMaxRequests` trial requests through: it closes again if a trial
+ * succeeds, and reopens if one fails.
+ * 
+ * @category Breaking Circuits
+ */
+export interface ApiXCircuitBreakerPolicy {
+  /**
+   * The number of consecutive failures that opens a circuit. Defaults to `5`.
+   */
+  readonly failureThreshold?: number;
+
+  /**
+   * How long a circuit stays open before it lets a trial request through,
+   * in milliseconds. Defaults to `30000`.
+   */
+  readonly resetTimeoutMs?: number;
+
+  /**
+   * The number of trial requests allowed at once while a circuit is
+   * half-open. Defaults to `1`.
+   */
+  readonly halfOpenMaxRequests?: number;
+
+  /**
+   * The HTTP status codes that count as failures, in addition to network
+   * failures and timeouts. Defaults to `500`, `502`, `503` and `504`.
+   */
+  readonly failureStatusCodes?: readonly number[];
+}
+
+/**
+ * The values used for any option that is not set in an `ApiXCircuitBreakerPolicy`.
+ * 
+ * @category Breaking Circuits
+ */
+export const defaultApiXCircuitBreakerPolicy: Required<ApiXCircuitBreakerPolicy> = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+  halfOpenMaxRequests: 1,
+  failureStatusCodes: [500, 502, 503, 504]
+};
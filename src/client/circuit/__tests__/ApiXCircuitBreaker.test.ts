@@ -0,0 +1,148 @@
+import {
+  ApiXCircuitOpenError,
+  ApiXRequestAbortedError,
+  ApiXRequestError,
+  ApiXResponseInvalidRequestError,
+  ApiXResponseError
+} from '../../error';
+import { ApiXCircuitBreaker, ApiXCircuitStateChange } from '../ApiXCircuitBreaker';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+
+describe('ApiXCircuitBreaker', () => {
+  const origin = 'https://apix.example.com';
+  const networkFailure = () => Promise.reject(new ApiXRequestError('API-X Request failed: Error: ECONNREFUSED'));
+  const success = () => Promise.resolve({ statusCode: 200 });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after consecutive failures and fail fast while open', async () => {
+    const breaker = new ApiXCircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+    const attempt = jest.fn(networkFailure);
+
+    await expect(breaker.run(origin, attempt)).rejects.toThrow(ApiXRequestError);
+    await expect(breaker.run(origin, success)).resolves.toEqual({ statusCode: 200 });
+    await expect(breaker.run(origin, attempt)).rejects.toThrow(ApiXRequestError);
+    expect(breaker.state(origin)).toBe('closed');
+    await expect(breaker.run(origin, attempt)).rejects.toThrow(ApiXRequestError);
+    expect(breaker.state(origin)).toBe('open');
+
+    const error = await breaker.run(origin, attempt).catch(error => error);
+    expect(error).toBeInstanceOf(ApiXCircuitOpenError);
+    expect(error.retryAt).toEqual(new Date('2026-01-01T00:00:01Z'));
+    expect(attempt).toHaveBeenCalledTimes(3);
+    expect(breaker.state('https://other.example.com')).toBe('closed');
+  });
+
+  it('should let one trial request through when half-open', async () => {
+    const breaker = new ApiXCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    const changes: ApiXCircuitStateChange[] = [];
+    breaker.onStateChange(change => changes.push(change));
+
+    await expect(breaker.run(origin, networkFailure)).rejects.toThrow(ApiXRequestError);
+    jest.setSystemTime(new Date('2026-01-01T00:00:01Z'));
+
+    let finishTrial: (response: { statusCode: number }) => void = () => undefined;
+    const trial = breaker.run(origin, () => new Promise<{ statusCode: number }>(resolve => {
+      finishTrial = resolve;
+    }));
+    await expect(breaker.run(origin, success)).rejects.toThrow(ApiXCircuitOpenError);
+    finishTrial({ statusCode: 200 });
+    await trial;
+
+    expect(breaker.state(origin)).toBe('closed');
+    expect(changes).toEqual([
+      { origin, from: 'closed', to: 'open' },
+      { origin, from: 'open', to: 'half-open' },
+      { origin, from: 'half-open', to: 'closed' }
+    ]);
+  });
+
+  it('should reopen when the trial request fails', async () => {
+    const breaker = new ApiXCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+
+    await expect(breaker.run(origin, networkFailure)).rejects.toThrow(ApiXRequestError);
+    jest.setSystemTime(new Date('2026-01-01T00:00:01Z'));
+    await expect(breaker.run(origin, () => Promise.resolve({ statusCode: 503 }))).resolves.toEqual({ statusCode: 503 });
+
+    expect(breaker.state(origin)).toBe('open');
+  });
+
+  it('should only count configured status codes and network failures as failures', async () => {
+    const breaker = new ApiXCircuitBreaker({ failureThreshold: 1, failureStatusCodes: [503] });
+    const unsubscribe = breaker.onStateChange(() => {
+      throw new Error('Unexpected state change');
+    });
+
+    await expect(breaker.run(origin, () => Promise.reject(new ApiXResponseInvalidRequestError(400)))).rejects.toThrow();
+    await expect(breaker.run(origin, () => Promise.reject(new ApiXResponseError('serverError', 500)))).rejects.toThrow();
+    await expect(breaker.run(origin, () => Promise.reject(new ApiXRequestAbortedError()))).rejects.toThrow();
+    expect(breaker.state(origin)).toBe('closed');
+
+    unsubscribe();
+    await expect(breaker.run(origin, () => Promise.reject(new ApiXResponseError('unavailable', 503)))).rejects.toThrow();
+    expect(breaker.state(origin)).toBe('open');
+  });
+
+  it('should make ApiXClient fail fast without retrying while a circuit is open', async () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue('testAppKey'),
+      getKeys: jest.fn().mockReturnValue({
+        apiKey: 'testApiKey',
+        appKey: 'testAppKey'
+      })
+    };
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/status', () => Promise.reject(new Error('ECONNREFUSED')));
+    const client = new ApiXClient(keyStore, {
+      baseUrl: origin,
+      transport,
+      retry: { maxAttempts: 5, baseDelayMs: 0 },
+      circuitBreaker: { failureThreshold: 2 }
+    });
+
+    const request = expect(client.makeGetRequest('/status')).rejects.toThrow(ApiXCircuitOpenError);
+    await jest.runAllTimersAsync();
+    await request;
+
+    expect(transport.requests).toHaveLength(2);
+    expect(client.circuitBreaker?.state(origin)).toBe('open');
+  });
+
+  it('should count a gateway error without an API-X body as a failure when a validator is set', async () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue('testAppKey'),
+      getKeys: jest.fn().mockReturnValue({
+        apiKey: 'testApiKey',
+        appKey: 'testAppKey'
+      })
+    };
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/status', { status: 503, headers: { 'content-type': 'text/html' }, body: '<html>Service Unavailable</html>' });
+    const client = new ApiXClient(keyStore, {
+      baseUrl: origin,
+      transport,
+      circuitBreaker: { failureThreshold: 2 }
+    });
+    const validator = (data: unknown) => {
+      if (data === null) {
+        throw new Error('data is required');
+      }
+      return data as { success: boolean };
+    };
+
+    await expect(client.makeGetRequest('/status', { validator })).rejects.toMatchObject({ statusCode: 503 });
+    await expect(client.makeGetRequest('/status', { validator })).rejects.toThrow(ApiXResponseError);
+
+    expect(client.circuitBreaker?.state(origin)).toBe('open');
+    await expect(client.makeGetRequest('/status', { validator })).rejects.toThrow(ApiXCircuitOpenError);
+  });
+});
@@ -0,0 +1,2 @@
+export * from './ApiXCircuitBreaker';
+export * from './ApiXCircuitBreakerPolicy';
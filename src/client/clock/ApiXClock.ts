@@ -0,0 +1,94 @@
+import { ApiXClockSkewPolicy, defaultApiXClockSkewPolicy } from './ApiXClockSkewPolicy';
+
+/**
+ * Estimates the time of the server from the local clock, to stamp the `Date`
+ * header of requests.
+ * 
+ * The skew is learned from the time reported by the server and the local
+ * times at which the request was sent and its response received. As an HTTP
+ * `Date` header has a resolution of one second, the skew is only updated when
+ * the current estimate is inconsistent with a new measure, so a correct clock
+ * is left as it is.
+ * 
+ * @category Compensating Clock Skew
+ */
+export class ApiXClock {
+
+  private readonly policy: Required<Omit<ApiXClockSkewPolicy, 'syncEndpoint'>>;
+
+  private offsetMs = 0;
+
+  /**
+   * Creates a new clock, with no skew.
+   * @param policy How the skew is learned and reported.
+   */
+  public constructor(policy: ApiXClockSkewPolicy = {}) {
+    this.policy = {
+      learnFromResponses: policy.learnFromResponses ?? defaultApiXClockSkewPolicy.learnFromResponses,
+      toleranceMs: policy.toleranceMs ?? defaultApiXClockSkewPolicy.toleranceMs
+    };
+  }
+
+  /**
+   * The measured skew, in milliseconds: the server time minus the local time.
+   * A positive value means that the local clock is behind.
+   */
+  public get skewMs(): number {
+    return this.offsetMs;
+  }
+
+  /**
+   * The estimated current time of the server.
+   */
+  public now(): Date {
+    return new Date(Date.now() + this.offsetMs);
+  }
+
+  /**
+   * Updates the skew from a time reported by the server.
+   * @param serverTime The time reported by the server.
+   * @param sentAt The local time at which the request was sent, in milliseconds.
+   * @param receivedAt The local time at which the response was received, in milliseconds.
+   * @param resolutionMs The resolution of `serverTime`, e.g. `1000` for a `Date` header.
+   */
+  public observe(serverTime: Date, sentAt: number, receivedAt: number, resolutionMs = 0): void {
+    const time = serverTime.getTime();
+    if (isNaN(time)) {
+      return;
+    }
+    const minOffsetMs = time - receivedAt;
+    const maxOffsetMs = time + resolutionMs - sentAt;
+    if (this.offsetMs < minOffsetMs || this.offsetMs > maxOffsetMs) {
+      this.offsetMs = Math.round((minOffsetMs + maxOffsetMs) / 2);
+    }
+  }
+
+  /**
+   * Updates the skew from the `Date` header of a response, unless
+   * `learnFromResponses` is `false`.
+   * @param date The value of the `Date` header, if any.
+   * @param sentAt The local time at which the request was sent, in milliseconds.
+   * @param receivedAt The local time at which the response was received, in milliseconds.
+   */
+  public observeDateHeader(date: string | undefined, sentAt: number, receivedAt: number): void {
+    if (this.policy.learnFromResponses && date) {
+      this.observe(new Date(date), sentAt, receivedAt, 1000);
+    }
+  }
+
+  /**
+   * Measures the skew between the `Date` of a rejected request and the `Date`
+   * of its response.
+   * @param requestDate The `Date` header of the request.
+   * @param responseDate The `Date` header of the response, if any.
+   * @returns The skew, in milliseconds, if it exceeds the tolerance of the
+   * policy. Otherwise, `undefined`.
+   */
+  public suspectedSkewMs(requestDate: string, responseDate: string | undefined): number | undefined {
+    if (!responseDate) {
+      return undefined;
+    }
+    const skewMs = new Date(responseDate).getTime() - new Date(requestDate).getTime();
+    return Math.abs(skewMs) > this.policy.toleranceMs ? skewMs : undefined;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * An object used to configure how a client compensates for the skew between
+ * its clock and the server's.
+ * 
+ * @category Compensating Clock Skew
+ */
+export interface ApiXClockSkewPolicy {
+  /**
+   * Whether the skew is learned from the `Date` header of every response.
+   * Defaults to `true`.
+   */
+  readonly learnFromResponses?: boolean;
+
+  /**
+   * The URL of an endpoint used by `ApiXClient.synchronizeClock`, or a path
+   * (e.g.: `/time`) that is resolved against the client's `baseUrl`.
+   * 
+   * The skew is measured from its `Date` header, or, more precisely, from a
+   * `serverTime` field in its data (an ISO 8601 string or milliseconds since
+   * the epoch).
+   */
+  readonly syncEndpoint?: URL | string;
+
+  /**
+   * The skew, in milliseconds, above which a rejected request is reported as
+   * an `ApiXClockSkewError`. Defaults to `30000`.
+   */
+  readonly toleranceMs?: number;
+}
+
+/**
+ * The values used for any option that is not set in an `ApiXClockSkewPolicy`.
+ * 
+ * @category Compensating Clock Skew
+ */
+export const defaultApiXClockSkewPolicy: Required<Omit<ApiXClockSkewPolicy, 'syncEndpoint'>> = {
+  learnFromResponses: true,
+  toleranceMs: 30000
+};
@@ -0,0 +1,108 @@
+import {
+  ApiXClockSkewError,
+  ApiXRequestError,
+  ApiXResponseUnauthorizedRequestError
+} from '../../error';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXClock } from '../ApiXClock';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXTransportRequest } from '../../transport/ApiXTransport';
+
+describe('ApiXClock', () => {
+  const baseUrl = 'https://apix.example.com';
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const localTime = new Date('2026-01-01T00:00:00Z');
+  const serverTime = new Date('2026-01-01T00:02:00Z');
+
+  /**
+   * Rejects requests whose `Date` is more than a minute away from `serverTime`.
+   */
+  const strictServer = (request: ApiXTransportRequest) => {
+    const headers = { date: serverTime.toUTCString() };
+    if (Math.abs(new Date(request.headers.date).getTime() - serverTime.getTime()) > 60000) {
+      return ApiXInMemoryTransport.json(401, {
+        success: false,
+        error: { id: 'unauthorizedRequest', message: 'Request is too old.' }
+      }, headers);
+    }
+    return ApiXInMemoryTransport.json(200, { success: true }, headers);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: localTime });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should only update the skew when a measure contradicts it', () => {
+    const clock = new ApiXClock();
+    const now = Date.now();
+
+    clock.observe(new Date(now), now - 100, now + 100, 1000);
+    expect(clock.skewMs).toBe(0);
+
+    clock.observe(new Date(now + 5000), now - 100, now + 100, 1000);
+    expect(clock.skewMs).toBe(5500);
+
+    clock.observe(new Date(now + 5000), now, now, 1000);
+    expect(clock.skewMs).toBe(5500);
+    expect(clock.now().getTime()).toBe(now + 5500);
+  });
+
+  it('should report rejections caused by skew, then stamp requests with the learned skew', async () => {
+    const transport = new ApiXInMemoryTransport().on('GET', '/users', strictServer);
+    const client = new ApiXClient(keyStore, { baseUrl, transport, clockSkew: {} });
+
+    const rejection = client.makeGetRequest('/users');
+    await expect(rejection).rejects.toThrow(ApiXClockSkewError);
+    await expect(rejection).rejects.toThrow(ApiXResponseUnauthorizedRequestError);
+    await expect(rejection).rejects.toMatchObject({
+      statusCode: 401,
+      skewMs: 120000,
+      message: expect.stringContaining('120s behind the server')
+    });
+    expect(client.clock?.skewMs).toBe(120500);
+
+    await expect(client.makeGetRequest('/users')).resolves.toMatchObject({ statusCode: 200 });
+    expect(new Date(transport.requests[1].headers.date).getTime()).toBe(serverTime.getTime());
+  });
+
+  it('should leave requests unchanged without a clock skew policy, or when learning is off', async () => {
+    const transport = new ApiXInMemoryTransport().on('GET', '/users', strictServer);
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+    const notLearning = new ApiXClient(keyStore, { baseUrl, transport, clockSkew: { learnFromResponses: false } });
+
+    const error = await client.makeGetRequest('/users').catch(error => error);
+    expect(error).toBeInstanceOf(ApiXResponseUnauthorizedRequestError);
+    expect(error).not.toBeInstanceOf(ApiXClockSkewError);
+    expect(client.clock).toBeUndefined();
+
+    await expect(notLearning.makeGetRequest('/users')).rejects.toThrow(ApiXClockSkewError);
+    expect(notLearning.clock?.skewMs).toBe(0);
+  });
+
+  it('should synchronize the clock with a time endpoint', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/time', ApiXInMemoryTransport.json(200, {
+        success: true,
+        serverTime: '2026-01-01T00:02:00.250Z'
+      }))
+      .on('GET', '/users', strictServer);
+    const client = new ApiXClient(keyStore, { baseUrl, transport, clockSkew: { syncEndpoint: '/time' } });
+
+    expect(await client.synchronizeClock()).toBe(120250);
+    await expect(client.makeGetRequest('/users')).resolves.toMatchObject({ statusCode: 200 });
+
+    await expect(new ApiXClient(keyStore, { baseUrl, transport, clockSkew: {} }).synchronizeClock())
+      .rejects.toThrow(ApiXRequestError);
+  });
+});
@@ -0,0 +1,2 @@
+export * from './ApiXClock';
+export * from './ApiXClockSkewPolicy';
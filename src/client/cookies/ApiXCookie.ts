@@ -0,0 +1,135 @@
+/**
+ * The attributes of a cookie set by a `Set-Cookie` header.
+ * 
+ * @category Working with HTTP Cookies
+ */
+export interface ApiXCookieAttributes {
+  /**
+   * The date after which the cookie expires.
+   */
+  readonly expires?: Date;
+
+  /**
+   * The number of seconds until the cookie expires.
+   */
+  readonly maxAge?: number;
+
+  /**
+   * The domain to which the cookie is sent, without a leading dot.
+   */
+  readonly domain?: string;
+
+  /**
+   * The path to which the cookie is sent.
+   */
+  readonly path?: string;
+
+  /**
+   * Whether the cookie is only sent over secure connections.
+   */
+  readonly secure?: boolean;
+
+  /**
+   * Whether the cookie is inaccessible to client-side scripts.
+   */
+  readonly httpOnly?: boolean;
+
+  /**
+   * The `SameSite` policy of the cookie (e.g.: `Strict`, `Lax` or `None`).
+   */
+  readonly sameSite?: string;
+}
+
+/**
+ * A cookie set by a `Set-Cookie` response header.
+ * 
+ * @category Working with HTTP Cookies
+ */
+export interface ApiXCookie {
+  /**
+   * The name of the cookie.
+   */
+  readonly name: string;
+
+  /**
+   * The value of the cookie.
+   */
+  readonly value: string;
+
+  /**
+   * The attributes of the cookie.
+   */
+  readonly attributes: ApiXCookieAttributes;
+}
+
+/**
+ * Parses the value of a `Set-Cookie` header, following the parsing rules of
+ * RFC 6265 section 5.2. Unknown and invalid attributes are ignored.
+ * @param setCookie The value of a `Set-Cookie` header.
+ * @returns The cookie, or `undefined` if the header is invalid.
+ * 
+ * @category Working with HTTP Cookies
+ */
+export const parseSetCookie = (setCookie: string): ApiXCookie | undefined => {
+  const [nameValuePair, ...unparsedAttributes] = setCookie.split(';');
+  const separatorIndex = nameValuePair.indexOf('=');
+  if (separatorIndex < 0) {
+    return undefined;
+  }
+
+  const name = nameValuePair.slice(0, separatorIndex).trim();
+  const value = nameValuePair.slice(separatorIndex + 1).trim();
+  if (name.length === 0) {
+    return undefined;
+  }
+
+  const attributes: {
+    -readonly [Key in keyof ApiXCookieAttributes]: ApiXCookieAttributes[Key]
+  } = {};
+
+  unparsedAttributes.forEach(unparsedAttribute => {
+    const attributeSeparatorIndex = unparsedAttribute.indexOf('=');
+    const attributeName = (attributeSeparatorIndex < 0
+      ? unparsedAttribute
+      : unparsedAttribute.slice(0, attributeSeparatorIndex)).trim().toLowerCase();
+    const attributeValue = attributeSeparatorIndex < 0
+      ? ''
+      : unparsedAttribute.slice(attributeSeparatorIndex + 1).trim();
+
+    switch (attributeName) {
+      case 'expires': {
+        const expires = new Date(attributeValue);
+        if (!isNaN(expires.getTime())) {
+          attributes.expires = expires;
+        }
+        break;
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(attributeValue)) {
+          attributes.maxAge = parseInt(attributeValue, 10);
+        }
+        break;
+      case 'domain':
+        if (attributeValue.length > 0) {
+          attributes.domain = attributeValue.replace(/^\./, '').toLowerCase();
+        }
+        break;
+      case 'path':
+        if (attributeValue.startsWith('/')) {
+          attributes.path = attributeValue;
+        }
+        break;
+      case 'secure':
+        attributes.secure = true;
+        break;
+      case 'httponly':
+        attributes.httpOnly = true;
+        break;
+      case 'samesite':
+        attributes.sameSite = attributeValue;
+        break;
+    }
+  });
+
+  return { name, value, attributes };
+};
@@ -0,0 +1,305 @@
+import { ApiXCookie, parseSetCookie } from './ApiXCookie';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+
+/**
+ * A cookie stored in an `ApiXCookieJar`.
+ * 
+ * @category Working with HTTP Cookies
+ */
+export interface ApiXStoredCookie {
+  /**
+   * The name of the cookie.
+   */
+  readonly name: string;
+
+  /**
+   * The value of the cookie.
+   */
+  readonly value: string;
+
+  /**
+   * The domain of the cookie, lowercased.
+   */
+  readonly domain: string;
+
+  /**
+   * Whether the cookie is only sent to `domain` itself, and not to its subdomains.
+   * This is the case for cookies set without a `Domain` attribute.
+   */
+  readonly hostOnly: boolean;
+
+  /**
+   * The path of the cookie.
+   */
+  readonly path: string;
+
+  /**
+   * The time at which the cookie expires, in milliseconds since the epoch.
+   * Session cookies do not expire.
+   */
+  readonly expiresAt?: number;
+
+  /**
+   * Whether the cookie is only sent over secure connections.
+   */
+  readonly secure: boolean;
+
+  /**
+   * Whether the cookie is inaccessible to client-side scripts.
+   */
+  readonly httpOnly: boolean;
+
+  /**
+   * The time at which the cookie was first stored, in milliseconds since the epoch.
+   */
+  readonly createdAt: number;
+}
+
+/**
+ * A store of cookies received from API-X servers, following the storage and
+ * retrieval rules of RFC 6265.
+ * 
+ * The jar honors the `Domain`, `Path`, `Expires`, `Max-Age` and `Secure`
+ * attributes. Public suffixes are not checked beyond rejecting single-label
+ * domains such as `com`.
+ * 
+ * @category Working with HTTP Cookies
+ */
+export class ApiXCookieJar {
+
+  private cookies: ApiXStoredCookie[] = [];
+
+  /**
+   * Creates a new cookie jar.
+   * @param cookies The cookies to start with, e.g. from a serialized jar.
+   */
+  public constructor(cookies: readonly ApiXStoredCookie[] = []) {
+    this.cookies = [...cookies];
+  }
+
+  /**
+   * Stores a cookie received in a response.
+   * @param cookie The parsed cookie, or the value of a `Set-Cookie` header.
+   * @param url The URL of the request that received the cookie.
+   * @param now The current time.
+   * @returns `true` if the cookie was stored (or removed because it expired),
+   * `false` if it was rejected.
+   */
+  public setCookie(cookie: ApiXCookie | string, url: URL, now: Date = new Date()): boolean {
+    const parsedCookie = typeof cookie === 'string' ? parseSetCookie(cookie) : cookie;
+    if (!parsedCookie) {
+      return false;
+    }
+
+    const { name, value, attributes } = parsedCookie;
+    const host = url.hostname.toLowerCase();
+    const isSecureUrl = url.protocol === 'https:';
+
+    let domain = host;
+    let hostOnly = true;
+    if (attributes.domain !== undefined) {
+      if (!this.domainMatches(host, attributes.domain)) {
+        return false;
+      }
+      if (attributes.domain.includes('.')) {
+        domain = attributes.domain;
+        hostOnly = false;
+      } else if (attributes.domain !== host) {
+        // A single-label domain, such as `com`, is only kept as a host-only
+        // cookie of that host (RFC 6265 section 5.3, step 5).
+        return false;
+      }
+    }
+
+    if (attributes.secure && !isSecureUrl) {
+      return false;
+    }
+
+    let expiresAt: number | undefined;
+    if (attributes.maxAge !== undefined) {
+      expiresAt = now.getTime() + attributes.maxAge * 1000;
+    } else if (attributes.expires !== undefined) {
+      expiresAt = attributes.expires.getTime();
+    }
+
+    const path = attributes.path ?? this.defaultPath(url);
+    const existingIndex = this.cookies.findIndex(stored => (
+      stored.name === name && stored.domain === domain && stored.path === path
+    ));
+    const existing = existingIndex >= 0 ? this.cookies[existingIndex] : undefined;
+    if (existingIndex >= 0) {
+      this.cookies.splice(existingIndex, 1);
+    }
+
+    if (expiresAt !== undefined && expiresAt <= now.getTime()) {
+      return true;
+    }
+
+    this.cookies.push({
+      name,
+      value,
+      domain,
+      hostOnly,
+      path,
+      expiresAt,
+      secure: attributes.secure ?? false,
+      httpOnly: attributes.httpOnly ?? false,
+      createdAt: existing?.createdAt ?? now.getTime()
+    });
+    return true;
+  }
+
+  /**
+   * Stores the cookies received in a response.
+   * @param cookies The parsed cookies, or the values of `Set-Cookie` headers.
+   * @param url The URL of the request that received the cookies.
+   * @param now The current time.
+   */
+  public setCookies(cookies: readonly (ApiXCookie | string)[], url: URL, now: Date = new Date()) {
+    cookies.forEach(cookie => this.setCookie(cookie, url, now));
+  }
+
+  /**
+   * Returns the cookies that should be sent with a request, ordered as
+   * described by RFC 6265: longer paths first, then older cookies first.
+   * @param url The URL of the request.
+   * @param now The current time.
+   * @returns The matching cookies.
+   */
+  public getCookies(url: URL, now: Date = new Date()): ApiXStoredCookie[] {
+    this.removeExpiredCookies(now);
+    const host = url.hostname.toLowerCase();
+    const isSecureUrl = url.protocol === 'https:';
+    return this.cookies
+      .filter(cookie => (
+        (cookie.hostOnly ? cookie.domain === host : this.domainMatches(host, cookie.domain))
+        && this.pathMatches(url.pathname, cookie.path)
+        && (!cookie.secure || isSecureUrl)
+      ))
+      .sort((a, b) => (b.path.length - a.path.length) || (a.createdAt - b.createdAt));
+  }
+
+  /**
+   * Returns the cookies that should be sent with a request as name-value
+   * pairs, as accepted by `ApiXRequest.setCookies`. When several cookies have
+   * the same name, the most specific one is used.
+   * @param url The URL of the request.
+   * @param now The current time.
+   * @returns A record of cookie name-value pairs.
+   */
+  public getCookieValues(url: URL, now: Date = new Date()): Record<string, string> {
+    const values: Record<string, string> = {};
+    this.getCookies(url, now).forEach(cookie => {
+      if (!(cookie.name in values)) {
+        values[cookie.name] = cookie.value;
+      }
+    });
+    return values;
+  }
+
+  /**
+   * Removes all cookies from the jar.
+   */
+  public clear() {
+    this.cookies = [];
+  }
+
+  /**
+   * Serializes the cookies in the jar, e.g. to keep a session between runs of a CLI tool.
+   * 
+   * Expired cookies are not included. Session cookies _are_ included; remove them
+   * before serializing if the session should not outlive the process.
+   * @param now The current time.
+   * @returns A JSON string that can be passed to `ApiXCookieJar.restore`.
+   */
+  public serialize(now: Date = new Date()): string {
+    this.removeExpiredCookies(now);
+    return JSON.stringify({ version: 1, cookies: this.cookies });
+  }
+
+  /**
+   * Restores a jar serialized with `serialize`.
+   * @param serialized The serialized jar.
+   * @returns A new cookie jar with the serialized cookies.
+   * @throws `ApiXRequestError` if the serialized jar is not valid JSON, or
+   * if it or one of its cookies is invalid.
+   */
+  public static restore(serialized: string): ApiXCookieJar {
+    let jar: { version?: unknown, cookies?: unknown } | null;
+    try {
+      jar = JSON.parse(serialized);
+    } catch (error) {
+      throw new ApiXRequestError(`Invalid serialized cookie jar. ${error}`);
+    }
+    if (jar?.version !== 1 || !Array.isArray(jar.cookies)) {
+      throw new ApiXRequestError('Invalid serialized cookie jar.');
+    }
+    const cookies: unknown[] = jar.cookies;
+    cookies.forEach((cookie, index) => {
+      if (!ApiXCookieJar.isStoredCookie(cookie)) {
+        throw new ApiXRequestError(`Invalid serialized cookie jar. The cookie at index ${index} is invalid.`);
+      }
+    });
+    return new ApiXCookieJar(cookies as ApiXStoredCookie[]);
+  }
+
+  //// Helper Methods ////
+  /**
+   * Determines whether a restored value has the shape of an `ApiXStoredCookie`.
+   */
+  private static isStoredCookie(value: unknown): value is ApiXStoredCookie {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const cookie = value as Record<string, unknown>;
+    const isTime = (time: unknown) => typeof time === 'number' && isFinite(time);
+    return typeof cookie.name === 'string' && cookie.name.length > 0
+      && typeof cookie.value === 'string'
+      && typeof cookie.domain === 'string' && cookie.domain.length > 0
+      && typeof cookie.path === 'string' && cookie.path.startsWith('/')
+      && (cookie.expiresAt === undefined || isTime(cookie.expiresAt))
+      && isTime(cookie.createdAt)
+      && typeof cookie.hostOnly === 'boolean'
+      && typeof cookie.secure === 'boolean'
+      && typeof cookie.httpOnly === 'boolean';
+  }
+
+  private removeExpiredCookies(now: Date) {
+    this.cookies = this.cookies.filter(cookie => (
+      cookie.expiresAt === undefined || cookie.expiresAt > now.getTime()
+    ));
+  }
+
+  /**
+   * Domain matching as defined by RFC 6265 section 5.1.3.
+   */
+  private domainMatches(host: string, domain: string): boolean {
+    if (host === domain) {
+      return true;
+    }
+    const isIpAddress = /^[\d.]+$/.test(host) || host.includes(':') || host.startsWith('[');
+    return !isIpAddress && host.endsWith(`.${domain}`);
+  }
+
+  /**
+   * Path matching as defined by RFC 6265 section 5.1.4.
+   */
+  private pathMatches(requestPath: string, cookiePath: string): boolean {
+    if (requestPath === cookiePath) {
+      return true;
+    }
+    return requestPath.startsWith(cookiePath)
+      && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/');
+  }
+
+  /**
+   * The default path of a cookie as defined by RFC 6265 section 5.1.4.
+   */
+  private defaultPath(url: URL): string {
+    const path = url.pathname;
+    if (!path.startsWith('/') || path.lastIndexOf('/') === 0) {
+      return '/';
+    }
+    return path.slice(0, path.lastIndexOf('/'));
+  }
+}
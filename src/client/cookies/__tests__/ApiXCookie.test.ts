@@ -0,0 +1,35 @@
+import { parseSetCookie } from '../ApiXCookie';
+
+describe('parseSetCookie', () => {
+  it('should parse the name, value and attributes of a cookie', () => {
+    const cookie = parseSetCookie(
+      'session=abc=123; Expires=Wed, 21 Oct 2026 07:28:00 GMT; Max-Age=3600; Domain=.Example.com; Path=/api; Secure; HttpOnly; SameSite=Lax'
+    );
+    expect(cookie).toEqual({
+      name: 'session',
+      value: 'abc=123',
+      attributes: {
+        expires: new Date('Wed, 21 Oct 2026 07:28:00 GMT'),
+        maxAge: 3600,
+        domain: 'example.com',
+        path: '/api',
+        secure: true,
+        httpOnly: true,
+        sameSite: 'Lax'
+      }
+    });
+  });
+
+  it('should ignore invalid and unknown attributes', () => {
+    expect(parseSetCookie('id=1; Expires=never; Max-Age=soon; Path=relative; Priority=High')).toEqual({
+      name: 'id',
+      value: '1',
+      attributes: {}
+    });
+  });
+
+  it('should reject cookies without a name', () => {
+    expect(parseSetCookie('novalue')).toBeUndefined();
+    expect(parseSetCookie('=value')).toBeUndefined();
+  });
+});
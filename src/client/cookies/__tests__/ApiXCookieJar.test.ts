@@ -0,0 +1,123 @@
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXCookieJar } from '../ApiXCookieJar';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXRequestError } from '../../error';
+
+describe('ApiXCookieJar', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+  const url = new URL('https://api.example.com/v1/users/login');
+  let jar: ApiXCookieJar;
+
+  beforeEach(() => {
+    jar = new ApiXCookieJar();
+  });
+
+  it('should store host-only cookies with the default path', () => {
+    expect(jar.setCookie('session=abc', url, now)).toBe(true);
+
+    const [cookie] = jar.getCookies(new URL('https://api.example.com/v1/users'), now);
+    expect(cookie).toMatchObject({ name: 'session', domain: 'api.example.com', hostOnly: true, path: '/v1/users' });
+    expect(jar.getCookies(new URL('https://www.api.example.com/v1/users'), now)).toEqual([]);
+    expect(jar.getCookies(new URL('https://api.example.com/v1/usersx'), now)).toEqual([]);
+  });
+
+  it('should send domain cookies to subdomains and reject foreign domains', () => {
+    expect(jar.setCookie('a=1; Domain=example.com; Path=/', url, now)).toBe(true);
+    expect(jar.setCookie('b=2; Domain=other.com; Path=/', url, now)).toBe(false);
+    expect(jar.setCookie('c=3; Domain=com; Path=/', url, now)).toBe(false);
+
+    expect(jar.getCookieValues(new URL('https://cdn.example.com/'), now)).toEqual({ a: '1' });
+  });
+
+  it('should send cookies whose Domain is the request host to its subdomains', () => {
+    const host = new URL('https://example.com/');
+    expect(jar.setCookie('a=1; Domain=example.com; Path=/', host, now)).toBe(true);
+    expect(jar.setCookie('b=2; Domain=localhost; Path=/', new URL('http://localhost/'), now)).toBe(true);
+
+    expect(jar.getCookies(host, now)).toMatchObject([{ name: 'a', domain: 'example.com', hostOnly: false }]);
+    expect(jar.getCookieValues(new URL('https://api.example.com/'), now)).toEqual({ a: '1' });
+    expect(jar.getCookies(new URL('http://localhost/'), now)).toMatchObject([{ name: 'b', hostOnly: true }]);
+  });
+
+  it('should honor Max-Age over Expires and remove expired cookies', () => {
+    jar.setCookie('a=1; Max-Age=60; Expires=Thu, 01 Jan 2026 00:00:01 GMT; Path=/', url, now);
+    jar.setCookie('b=2; Expires=Thu, 01 Jan 2026 00:00:30 GMT; Path=/', url, now);
+
+    const later = new Date(now.getTime() + 45 * 1000);
+    expect(jar.getCookieValues(url, later)).toEqual({ a: '1' });
+
+    jar.setCookie('a=deleted; Max-Age=0; Path=/', url, later);
+    expect(jar.getCookieValues(url, later)).toEqual({});
+  });
+
+  it('should only send secure cookies over https', () => {
+    expect(jar.setCookie('a=1; Secure; Path=/', new URL('http://api.example.com/'), now)).toBe(false);
+    jar.setCookie('a=1; Secure; Path=/', url, now);
+
+    expect(jar.getCookieValues(new URL('http://api.example.com/'), now)).toEqual({});
+    expect(jar.getCookieValues(new URL('https://api.example.com/'), now)).toEqual({ a: '1' });
+  });
+
+  it('should replace cookies and order them by path length, then creation time', () => {
+    jar.setCookie('a=1; Path=/', url, now);
+    jar.setCookie('a=2; Path=/v1', url, new Date(now.getTime() + 1));
+    jar.setCookie('b=1; Path=/', url, new Date(now.getTime() + 2));
+    jar.setCookie('a=3; Path=/', url, new Date(now.getTime() + 3));
+
+    expect(jar.getCookies(url, now).map(cookie => `${cookie.name}=${cookie.value}`)).toEqual(['a=2', 'a=3', 'b=1']);
+    expect(jar.getCookieValues(url, now)).toEqual({ a: '2', b: '1' });
+  });
+
+  it('should serialize and restore its cookies', () => {
+    jar.setCookie('session=abc; Path=/; Max-Age=3600', url, now);
+    jar.setCookie('expired=1; Path=/; Max-Age=1', url, new Date(now.getTime() - 5000));
+
+    const restored = ApiXCookieJar.restore(jar.serialize(now));
+    expect(restored.getCookieValues(url, now)).toEqual({ session: 'abc' });
+    expect(() => ApiXCookieJar.restore('{"version":2}')).toThrow('Invalid serialized cookie jar.');
+
+    restored.clear();
+    expect(restored.getCookies(url, now)).toEqual([]);
+  });
+
+  it.each([
+    'not json',
+    'null',
+    '{"version":1,"cookies":[null]}',
+    '{"version":1,"cookies":[{"name":"session","value":"abc"}]}',
+    '{"version":1,"cookies":[{"name":"session","value":"abc","domain":"api.example.com","hostOnly":true,'
+      + '"path":"/","expiresAt":"tomorrow","secure":true,"httpOnly":true,"createdAt":0}]}'
+  ])('should reject the invalid serialized jar %s', serialized => {
+    expect(() => ApiXCookieJar.restore(serialized)).toThrow(ApiXRequestError);
+  });
+
+  it('should carry session cookies between requests made by ApiXClient', async () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue('testAppKey'),
+      getKeys: jest.fn().mockReturnValue({
+        apiKey: 'testApiKey',
+        appKey: 'testAppKey'
+      })
+    };
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/login', () => ({
+        ...ApiXInMemoryTransport.json(200, { success: true }),
+        setCookieHeaders: ['session=abc; Path=/; HttpOnly']
+      }))
+      .on('GET', '/me', ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl: 'https://api.example.com',
+      transport,
+      cookieJar: new ApiXCookieJar()
+    });
+
+    await client.makePostRequest('/login', { user: 'alice' });
+    const request = client.createGetRequest(new URL('https://api.example.com/me'));
+    expect(request.cookies).toEqual({});
+    await client.makeGetRequest('/me');
+
+    expect(transport.requests[1].headers['Cookie']).toBe('session=abc');
+    expect(client.cookieJar?.getCookieValues(new URL('https://api.example.com/'))).toEqual({ session: 'abc' });
+  });
+});
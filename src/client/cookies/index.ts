@@ -0,0 +1,2 @@
+export * from './ApiXCookie';
+export * from './ApiXCookieJar';
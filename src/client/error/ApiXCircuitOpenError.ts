@@ -0,0 +1,29 @@
+import { ApiXRequestError } from './ApiXRequestError';
+
+/**
+ * An error thrown without sending a request because the circuit breaker of
+ * its origin is open.
+ */
+export class ApiXCircuitOpenError extends ApiXRequestError {
+  /**
+   * Creates a new instance of an API-X Circuit Open Error.
+   * @param origin The origin whose circuit is open (e.g.: `https://apix.example.com`).
+   * @param retryAt When the circuit lets a trial request through again.
+   */
+  public constructor(
+    public readonly origin: string,
+    public readonly retryAt: Date
+  ) {
+    super(`API-X circuit for ${origin} is open until ${retryAt.toISOString()}.`);
+    this.name = 'ApiXCircuitOpenError';
+  }
+}
+
+/**
+ * Type guard to determine if an error is an instance of ApiXCircuitOpenError.
+ * @param error The error to check.
+ * @returns True if the error is an ApiXCircuitOpenError, false otherwise.
+ */
+export function isApiXCircuitOpenError(error: unknown): error is ApiXCircuitOpenError {
+  return error instanceof ApiXCircuitOpenError;
+}
@@ -0,0 +1,37 @@
+import {
+  ApiXResponseError,
+  ApiXResponseUnauthorizedRequestError
+} from './ApiXResponseError';
+
+/**
+ * An error thrown when a request is rejected as unauthorized, and its `Date`
+ * header is too far from the `Date` of the server's response, which usually
+ * means that the local clock is wrong.
+ * 
+ * Requests made after this error are stamped with the learned skew, unless
+ * `learnFromResponses` is `false`.
+ */
+export class ApiXClockSkewError extends ApiXResponseUnauthorizedRequestError {
+  /**
+   * Creates a new instance of an API-X Clock Skew Error.
+   * @param error The error returned by the server.
+   * @param skewMs The skew between the server and the request, in
+   * milliseconds. A positive value means that the local clock is behind.
+   */
+  public constructor(error: ApiXResponseError, public readonly skewMs: number) {
+    super(
+      error.statusCode,
+      `API-X Request was rejected and the local clock is ${Math.round(Math.abs(skewMs) / 1000)}s ${skewMs > 0 ? 'behind' : 'ahead of'} the server, which is likely the cause: ${error.message}`,
+      { headers: error.headers, cookies: error.cookies }
+    );
+  }
+}
+
+/**
+ * Type guard to determine if an error is an instance of ApiXClockSkewError.
+ * @param error The error to check.
+ * @returns True if the error is an ApiXClockSkewError, false otherwise.
+ */
+export function isApiXClockSkewError(error: unknown): error is ApiXClockSkewError {
+  return error instanceof ApiXClockSkewError;
+}
@@ -23,3 +23,73 @@ export function isApiXRequestError(error: unknown): error is ApiXRequestError {
     error instanceof ApiXRequestError && error.constructor === ApiXRequestError
   );
 }
+
+/**
+ * An error thrown when a request does not complete within its timeout.
+ */
+export class ApiXRequestTimeoutError extends ApiXRequestError {
+  /**
+   * Creates a new instance of an API-X Request Timeout Error.
+   * @param timeoutMs The timeout that elapsed, in milliseconds.
+   */
+  public constructor(public readonly timeoutMs: number) {
+    super(`API-X Request timed out after ${timeoutMs}ms.`);
+    this.name = 'ApiXRequestTimeoutError';
+  }
+}
+
+/**
+ * An error thrown when a request is cancelled with an `AbortSignal`.
+ */
+export class ApiXRequestAbortedError extends ApiXRequestError {
+  /**
+   * Creates a new instance of an API-X Request Aborted Error.
+   * @param reason The abort reason of the signal, if any.
+   */
+  public constructor(public readonly reason?: unknown) {
+    super('API-X Request was aborted.');
+    this.name = 'ApiXRequestAbortedError';
+  }
+}
+
+/**
+ * An error thrown when a request cannot reach the server, e.g. because the
+ * network is unavailable or the connection was reset.
+ */
+export class ApiXRequestNetworkError extends ApiXRequestError {
+  /**
+   * Creates a new instance of an API-X Request Network Error.
+   * @param error The error thrown while sending the request.
+   */
+  public constructor(public readonly error: unknown) {
+    super(`API-X Request failed: ${error}`);
+    this.name = 'ApiXRequestNetworkError';
+  }
+}
+
+/**
+ * Type guard to determine if an error is an instance of ApiXRequestTimeoutError.
+ * @param error The error to check.
+ * @returns True if the error is an ApiXRequestTimeoutError, false otherwise.
+ */
+export function isApiXRequestTimeoutError(error: unknown): error is ApiXRequestTimeoutError {
+  return error instanceof ApiXRequestTimeoutError;
+}
+
+/**
+ * Type guard to determine if an error is an instance of ApiXRequestAbortedError.
+ * @param error The error to check.
+ * @returns True if the error is an ApiXRequestAbortedError, false otherwise.
+ */
+export function isApiXRequestAbortedError(error: unknown): error is ApiXRequestAbortedError {
+  return error instanceof ApiXRequestAbortedError;
+}
+
+/**
+ * Type guard to determine if an error is an instance of ApiXRequestNetworkError.
+ * @param error The error to check.
+ * @returns True if the error is an ApiXRequestNetworkError, false otherwise.
+ */
+export function isApiXRequestNetworkError(error: unknown): error is ApiXRequestNetworkError {
+  return error instanceof ApiXRequestNetworkError;
+}
@@ -1,5 +1,22 @@
+import { ApiXCookie } from "../cookies/ApiXCookie";
 import { ApiXErrorResponse } from "../types/ApiXErrorResponse";
 import { ApiXResponse } from "../types";
+import { ApiXResponseHeaders } from "../headers/ApiXResponseHeaders";
+
+/**
+ * Additional information about the response that caused an `ApiXResponseError`.
+ */
+export interface ApiXResponseErrorOptions {
+  /**
+   * The HTTP headers of the response, such as `Retry-After` or rate-limit headers.
+   */
+  readonly headers?: ApiXResponseHeaders;
+
+  /**
+   * The cookies set by the response.
+   */
+  readonly cookies?: readonly ApiXCookie[];
+}
 
 /**
  * Returns an ApiXError instance for a given error ID.
@@ -9,9 +26,13 @@ import { ApiXResponse } from "../types";
  */
 export const errorForResponse = (response: ApiXResponse<ApiXErrorResponse>): ApiXResponseError => {
   const responseData = response.data;
+  const options: ApiXResponseErrorOptions = {
+    headers: response.headers,
+    cookies: response.cookies
+  };
 
   if (!responseData || typeof responseData !== 'object') {
-    throw new ApiXResponseError('unknownError', response.statusCode);
+    throw new ApiXResponseError('unknownError', response.statusCode, undefined, options);
   }
 
   const {
@@ -24,21 +45,21 @@ export const errorForResponse = (response: ApiXResponse<ApiXErrorResponse>): Api
 
   switch (error.id) {
     case 'unauthorizedApp':
-      return new ApiXResponseUnauthorizedAppError(response.statusCode, error.message);
+      return new ApiXResponseUnauthorizedAppError(response.statusCode, error.message, options);
     case 'unauthorizedRequest':
-      return new ApiXResponseUnauthorizedRequestError(response.statusCode, error.message);
+      return new ApiXResponseUnauthorizedRequestError(response.statusCode, error.message, options);
     case 'invalidRequest':
-      return new ApiXResponseInvalidRequestError(response.statusCode, error.message);
+      return new ApiXResponseInvalidRequestError(response.statusCode, error.message, options);
     case 'missingRequiredHeaders':
-      return new ApiXResponseMissingRequiredHeadersError(response.statusCode, error.message);
+      return new ApiXResponseMissingRequiredHeadersError(response.statusCode, error.message, options);
     case 'missingJsonBody':
-      return new ApiXResponseMissingJsonBodyError(response.statusCode, error.message);
+      return new ApiXResponseMissingJsonBodyError(response.statusCode, error.message, options);
     case 'invalidJsonBody':
-      return new ApiXResponseInvalidJsonBodyError(response.statusCode, error.message);
+      return new ApiXResponseInvalidJsonBodyError(response.statusCode, error.message, options);
     case 'insecureProtocol':
-      return new ApiXResponseInsecureProtocolError(response.statusCode, error.message);
+      return new ApiXResponseInsecureProtocolError(response.statusCode, error.message, options);
     default:
-      return new ApiXResponseError(error.id, response.statusCode, error.message);
+      return new ApiXResponseError(error.id, response.statusCode, error.message, options);
   }
 };
 
@@ -71,15 +92,32 @@ export class ApiXResponseError extends Error {
    */
   public readonly statusCode: number;
 
+  /**
+   * The HTTP headers of the response, if available.
+   * 
+   * These can be used to read headers such as `Retry-After` or rate-limit headers.
+   */
+  public readonly headers?: ApiXResponseHeaders;
+
+  /**
+   * The cookies set by the response, if available.
+   */
+  public readonly cookies?: readonly ApiXCookie[];
+
   /**
    * Creates a new instance of an API-X Error.
    * @param id The error ID.
+   * @param statusCode The HTTP status code of the response.
+   * @param message An optional error message.
+   * @param options The headers and cookies of the response, if available.
    */
-  public constructor(id: string, statusCode: number, message?: string) {
+  public constructor(id: string, statusCode: number, message?: string, options: ApiXResponseErrorOptions = {}) {
     super(message);
     this.id = id;
     this.name = id;
     this.statusCode = statusCode;
+    this.headers = options.headers;
+    this.cookies = options.cookies;
   }
 }
 
@@ -88,8 +126,8 @@ export class ApiXResponseError extends Error {
  * This error is thrown when an app is not authorized to make a request.
  */
 export class ApiXResponseUnauthorizedAppError extends ApiXResponseError {
-  public constructor(statusCode: number, message?: string) {
-    super('unauthorizedApp', statusCode, message);
+  public constructor(statusCode: number, message?: string, options?: ApiXResponseErrorOptions) {
+    super('unauthorizedApp', statusCode, message, options);
   }
 }
 
@@ -98,8 +136,8 @@ export class ApiXResponseUnauthorizedAppError extends ApiXResponseError {
  * This error is thrown when a request is not authorized.
  */
 export class ApiXResponseUnauthorizedRequestError extends ApiXResponseError {
-  public constructor(statusCode: number, message?: string) {
-    super('unauthorizedRequest', statusCode, message);
+  public constructor(statusCode: number, message?: string, options?: ApiXResponseErrorOptions) {
+    super('unauthorizedRequest', statusCode, message, options);
   }
 }
 
@@ -108,8 +146,8 @@ export class ApiXResponseUnauthorizedRequestError extends ApiXResponseError {
  * This error is thrown when a request is invalid.
  */
 export class ApiXResponseInvalidRequestError extends ApiXResponseError {
-  public constructor(statusCode: number, message?: string) {
-    super('invalidRequest', statusCode, message);
+  public constructor(statusCode: number, message?: string, options?: ApiXResponseErrorOptions) {
+    super('invalidRequest', statusCode, message, options);
   }
 }
 
@@ -118,8 +156,8 @@ export class ApiXResponseInvalidRequestError extends ApiXResponseError {
  * This error is thrown when required headers are missing from a request.
  */
 export class ApiXResponseMissingRequiredHeadersError extends ApiXResponseError {
-  public constructor(statusCode: number, message?: string) {
-    super('missingRequiredHeaders', statusCode, message);
+  public constructor(statusCode: number, message?: string, options?: ApiXResponseErrorOptions) {
+    super('missingRequiredHeaders', statusCode, message, options);
   }
 }
 
@@ -128,8 +166,8 @@ export class ApiXResponseMissingRequiredHeadersError extends ApiXResponseError {
  * This error is thrown when a request that requires a JSON body does not have one.
  */
 export class ApiXResponseMissingJsonBodyError extends ApiXResponseError {
-  public constructor(statusCode: number, message?: string) {
-    super('missingJsonBody', statusCode, message);
+  public constructor(statusCode: number, message?: string, options?: ApiXResponseErrorOptions) {
+    super('missingJsonBody', statusCode, message, options);
   }
 }
 
@@ -138,8 +176,8 @@ export class ApiXResponseMissingJsonBodyError extends ApiXResponseError {
  * This error is thrown when a request's JSON body is invalid or cannot be parsed.
  */
 export class ApiXResponseInvalidJsonBodyError extends ApiXResponseError {
-  public constructor(statusCode: number, message?: string) {
-    super('invalidJsonBody', statusCode, message);
+  public constructor(statusCode: number, message?: string, options?: ApiXResponseErrorOptions) {
+    super('invalidJsonBody', statusCode, message, options);
   }
 }
 
@@ -148,8 +186,8 @@ export class ApiXResponseInvalidJsonBodyError extends ApiXResponseError {
  * This error is thrown when a request is made over an insecure protocol (e.g., HTTP instead of HTTPS).
  */
 export class ApiXResponseInsecureProtocolError extends ApiXResponseError {
-  public constructor(statusCode: number, message?: string) {
-    super('insecureProtocol', statusCode, message);
+  public constructor(statusCode: number, message?: string, options?: ApiXResponseErrorOptions) {
+    super('insecureProtocol', statusCode, message, options);
   }
 }
 
@@ -0,0 +1,31 @@
+import { ApiXValidationIssue } from '../types/ApiXResponseValidator';
+
+/**
+ * An error thrown when the data of a response does not pass the validator
+ * attached to the request.
+ */
+export class ApiXResponseValidationError extends Error {
+  /**
+   * Creates a new instance of an API-X Response Validation Error.
+   * @param statusCode The HTTP status code of the response.
+   * @param data The raw data of the response.
+   * @param issues The problems found by the validator.
+   */
+  public constructor(
+    public readonly statusCode: number,
+    public readonly data: unknown,
+    public readonly issues: readonly ApiXValidationIssue[]
+  ) {
+    super(`API-X Response failed validation: ${issues.map(issue => issue.message).join('; ')}`);
+    this.name = 'ApiXResponseValidationError';
+  }
+}
+
+/**
+ * Type guard to determine if an error is an instance of ApiXResponseValidationError.
+ * @param error The error to check.
+ * @returns True if the error is an ApiXResponseValidationError, false otherwise.
+ */
+export function isApiXResponseValidationError(error: unknown): error is ApiXResponseValidationError {
+  return error instanceof ApiXResponseValidationError;
+}
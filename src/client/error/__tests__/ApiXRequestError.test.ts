@@ -1,6 +1,12 @@
 import {
+  ApiXRequestAbortedError,
   ApiXRequestError,
+  ApiXRequestNetworkError,
+  ApiXRequestTimeoutError,
+  isApiXRequestAbortedError,
   isApiXRequestError,
+  isApiXRequestNetworkError,
+  isApiXRequestTimeoutError,
 } from '../ApiXRequestError';
 
 describe('ApiXRequestError', () => {
@@ -174,4 +180,38 @@ describe('ApiXRequestError', () => {
       expect(isApiXRequestError(error)).toBe(true);
     });
   });
+
+  describe('Timeout and Abort Errors', () => {
+    it('should create ApiXRequestTimeoutError as an ApiXRequestError', () => {
+      const error = new ApiXRequestTimeoutError(5000);
+      expect(error).toBeInstanceOf(ApiXRequestError);
+      expect(error.name).toBe('ApiXRequestTimeoutError');
+      expect(error.timeoutMs).toBe(5000);
+      expect(isApiXRequestTimeoutError(error)).toBe(true);
+      expect(isApiXRequestAbortedError(error)).toBe(false);
+      expect(isApiXRequestError(error)).toBe(false);
+    });
+
+    it('should create ApiXRequestAbortedError as an ApiXRequestError', () => {
+      const error = new ApiXRequestAbortedError('cancelled');
+      expect(error).toBeInstanceOf(ApiXRequestError);
+      expect(error.name).toBe('ApiXRequestAbortedError');
+      expect(error.reason).toBe('cancelled');
+      expect(isApiXRequestAbortedError(error)).toBe(true);
+      expect(isApiXRequestTimeoutError(error)).toBe(false);
+      expect(isApiXRequestError(error)).toBe(false);
+    });
+
+    it('should create ApiXRequestNetworkError as an ApiXRequestError', () => {
+      const cause = new TypeError('fetch failed');
+      const error = new ApiXRequestNetworkError(cause);
+      expect(error).toBeInstanceOf(ApiXRequestError);
+      expect(error.name).toBe('ApiXRequestNetworkError');
+      expect(error.message).toBe('API-X Request failed: TypeError: fetch failed');
+      expect(error.error).toBe(cause);
+      expect(isApiXRequestNetworkError(error)).toBe(true);
+      expect(isApiXRequestAbortedError(error)).toBe(false);
+      expect(isApiXRequestError(error)).toBe(false);
+    });
+  });
 });
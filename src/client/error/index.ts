@@ -1,5 +1,6 @@
 export {
   ApiXResponseError,
+  ApiXResponseErrorOptions,
   ApiXResponseUnauthorizedAppError,
   ApiXResponseUnauthorizedRequestError,
   ApiXResponseInvalidRequestError,
@@ -11,3 +12,6 @@ export {
   isSpecificApiXResponseError
 } from './ApiXResponseError';
 export * from './ApiXRequestError';
+export * from './ApiXResponseValidationError';
+export * from './ApiXCircuitOpenError';
+export * from './ApiXClockSkewError';
@@ -0,0 +1,95 @@
+/**
+ * The HTTP headers of a response. Header names are case-insensitive.
+ * 
+ * @category Working with HTTP Headers
+ */
+export class ApiXResponseHeaders {
+
+  private readonly values: Record<string, string> = {};
+
+  private readonly setCookieHeaders: readonly string[];
+
+  /**
+   * Creates a new set of response headers.
+   * @param headers The headers of the response.
+   * @param setCookieHeaders The value of each `Set-Cookie` header of the response.
+   */
+  public constructor(
+    headers: Record<string, string> = {},
+    setCookieHeaders: readonly string[] = []
+  ) {
+    Object.entries(headers).forEach(([name, value]) => {
+      this.values[this.headerName(name)] = value;
+    });
+    this.setCookieHeaders = [...setCookieHeaders];
+  }
+
+  /**
+   * Returns the value of a header.
+   * @param name The case-insensitive name of the header.
+   * @returns The value of the header or `undefined`. Multiple `Set-Cookie`
+   * headers are joined with `, `; use `getSetCookie` to read them separately.
+   */
+  public get(name: string): string | undefined {
+    const headerName = this.headerName(name);
+    if (headerName === 'set-cookie' && this.setCookieHeaders.length > 0) {
+      return this.setCookieHeaders.join(', ');
+    }
+    return this.values[headerName];
+  }
+
+  /**
+   * Determines whether a header is present.
+   * @param name The case-insensitive name of the header.
+   * @returns `true` if the response has the header.
+   */
+  public has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  /**
+   * Returns the value of each `Set-Cookie` header.
+   * @returns The `Set-Cookie` header values, in the order they were received.
+   */
+  public getSetCookie(): string[] {
+    if (this.setCookieHeaders.length > 0) {
+      return [...this.setCookieHeaders];
+    }
+    const setCookie = this.values['set-cookie'];
+    return setCookie !== undefined ? [setCookie] : [];
+  }
+
+  /**
+   * Returns how long the server asks to wait with its `Retry-After` header.
+   * @returns The delay in milliseconds, from a number of seconds or an HTTP
+   * date, or `undefined` if the header is missing or invalid.
+   */
+  public getRetryAfterMs(): number | undefined {
+    const retryAfter = this.get('Retry-After')?.trim();
+    if (!retryAfter) {
+      return undefined;
+    }
+    if (/^\d+$/.test(retryAfter)) {
+      return Number(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Returns all headers as a record with lowercased names.
+   * @returns A record of header name-value pairs.
+   */
+  public toJSON(): Record<string, string> {
+    const headers = { ...this.values };
+    const setCookie = this.get('set-cookie');
+    if (setCookie !== undefined) {
+      headers['set-cookie'] = setCookie;
+    }
+    return headers;
+  }
+
+  private headerName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+}
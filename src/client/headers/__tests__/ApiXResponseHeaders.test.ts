@@ -0,0 +1,38 @@
+import { ApiXResponseHeaders } from '../ApiXResponseHeaders';
+
+describe('ApiXResponseHeaders', () => {
+  it('should read headers case-insensitively', () => {
+    const headers = new ApiXResponseHeaders({ 'ETag': '"abc"', 'retry-after': '120' });
+    expect(headers.get('etag')).toBe('"abc"');
+    expect(headers.get('Retry-After')).toBe('120');
+    expect(headers.has('ETAG')).toBe(true);
+    expect(headers.has('location')).toBe(false);
+    expect(headers.get('location')).toBeUndefined();
+  });
+
+  it('should keep Set-Cookie headers separate', () => {
+    const headers = new ApiXResponseHeaders({}, ['a=1; Path=/', 'b=2']);
+    expect(headers.getSetCookie()).toEqual(['a=1; Path=/', 'b=2']);
+    expect(headers.get('Set-Cookie')).toBe('a=1; Path=/, b=2');
+    expect(headers.toJSON()).toEqual({ 'set-cookie': 'a=1; Path=/, b=2' });
+  });
+
+  it('should fall back to a single Set-Cookie header', () => {
+    const headers = new ApiXResponseHeaders({ 'Set-Cookie': 'a=1' });
+    expect(headers.getSetCookie()).toEqual(['a=1']);
+    expect(new ApiXResponseHeaders().getSetCookie()).toEqual([]);
+  });
+
+  it('should read Retry-After as seconds or an HTTP date', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    try {
+      expect(new ApiXResponseHeaders({ 'Retry-After': '120' }).getRetryAfterMs()).toBe(120000);
+      expect(new ApiXResponseHeaders({ 'Retry-After': 'Thu, 01 Jan 2026 00:00:30 GMT' }).getRetryAfterMs()).toBe(30000);
+      expect(new ApiXResponseHeaders({ 'Retry-After': 'Wed, 31 Dec 2025 00:00:00 GMT' }).getRetryAfterMs()).toBe(0);
+      expect(new ApiXResponseHeaders({ 'Retry-After': 'soon' }).getRetryAfterMs()).toBeUndefined();
+      expect(new ApiXResponseHeaders().getRetryAfterMs()).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
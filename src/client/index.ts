@@ -1,5 +1,22 @@
+export * from './batch';
+export * from './body';
+export * from './cache';
+export * from './circuit';
+export * from './clock';
+export * from './cookies';
 export * from './error';
+export * from './headers';
+export * from './middleware';
+export * from './offline';
+export * from './pagination';
+export * from './ratelimit';
+export * from './retry';
 export * from './security';
+export * from './signing';
+export * from './streaming';
+export * from './transport';
 export * from './types';
+export * from './url';
+export * from './validation';
 export * from './ApiXRequest';
 export * from './ApiXClient';
@@ -0,0 +1,110 @@
+import { ApiXRequest } from '../ApiXRequest';
+import { ApiXResponse } from '../types/ApiXResponse';
+
+/**
+ * The view of a request that middleware receives.
+ * 
+ * Middleware can read the request and change its unprotected headers and
+ * cookies, but it cannot send the request, and it cannot read the
+ * `X-Signature`, `X-Signature-Nonce` or `X-API-Key` headers. At runtime,
+ * middleware receives a frozen object with only these members, not the
+ * request itself.
+ * 
+ * @category Using Middleware
+ */
+export type ApiXMiddlewareRequest = Pick<
+  ApiXRequest,
+  | 'url'
+  | 'httpMethod'
+  | 'data'
+  | 'body'
+  | 'headers'
+  | 'cookies'
+  | 'header'
+  | 'setHeader'
+  | 'unsetHeader'
+  | 'setCookies'
+  | 'addCookie'
+  | 'removeCookie'
+  | 'getCookie'
+>;
+
+/**
+ * A function that signs and sends the request (through any remaining
+ * middleware) and returns its response.
+ * 
+ * @category Using Middleware
+ */
+export type ApiXMiddlewareNext = () => Promise<ApiXResponse>;
+
+/**
+ * A function that wraps sending a request.
+ * 
+ * Middleware runs in the order it is added to the client. Before calling
+ * `next`, it can change the unprotected headers and cookies of the request;
+ * the request is signed only after every middleware has called `next`.
+ * After `next` settles, it can inspect or replace the response, or catch and
+ * replace the error.
+ * 
+ * ```typescript
+ * client.use(async (request, next) => {
+ *   request.setHeader('Authorization', `Bearer ${token}`);
+ *   return await next();
+ * });
+ * ```
+ * 
+ * _Note: Middleware runs once per attempt, so when a request is retried it
+ * receives a new request object each time._
+ * 
+ * @category Using Middleware
+ */
+export type ApiXMiddleware = (
+  request: ApiXMiddlewareRequest,
+  next: ApiXMiddlewareNext
+) => Promise<ApiXResponse>;
+
+/**
+ * Creates the frozen view of a request that is passed to middleware.
+ * @param request The request.
+ * @returns An object that only exposes the members of `ApiXMiddlewareRequest`.
+ */
+const middlewareRequest = (request: ApiXMiddlewareRequest): ApiXMiddlewareRequest => Object.freeze({
+  get url() { return request.url; },
+  get httpMethod() { return request.httpMethod; },
+  get data() { return request.data; },
+  get body() { return request.body; },
+  get headers() { return request.headers; },
+  get cookies() { return request.cookies; },
+  header: (name: string) => request.header(name),
+  setHeader: (name: string, value: string) => request.setHeader(name, value),
+  unsetHeader: (name: string) => request.unsetHeader(name),
+  setCookies: (cookies: Record<string, string>) => request.setCookies(cookies),
+  addCookie: (name: string, value: string) => request.addCookie(name, value),
+  removeCookie: (name: string) => request.removeCookie(name),
+  getCookie: (name: string) => request.getCookie(name)
+});
+
+/**
+ * Runs a request through a middleware chain.
+ * @param middleware The middleware, in the order it runs.
+ * @param request The request. Each middleware receives a view of it that
+ * only exposes the members of `ApiXMiddlewareRequest`.
+ * @param send The function that sends the request after the last middleware.
+ * @returns The response returned by the first middleware.
+ * 
+ * @category Using Middleware
+ */
+export const runApiXMiddleware = (
+  middleware: readonly ApiXMiddleware[],
+  request: ApiXMiddlewareRequest,
+  send: ApiXMiddlewareNext
+): Promise<ApiXResponse> => {
+  const view = middlewareRequest(request);
+  const run = (index: number): Promise<ApiXResponse> => {
+    if (index >= middleware.length) {
+      return send();
+    }
+    return middleware[index](view, () => run(index + 1));
+  };
+  return run(0);
+};
@@ -0,0 +1,123 @@
+import { ApiXMiddleware, runApiXMiddleware } from '../ApiXMiddleware';
+import { ApiXResponseError, ApiXResponseInvalidRequestError } from '../../error';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+
+describe('ApiXMiddleware', () => {
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const url = new URL('https://apix.example.com/endpoint');
+
+  let transport: ApiXInMemoryTransport;
+  let client: ApiXClient;
+
+  beforeEach(() => {
+    transport = new ApiXInMemoryTransport()
+      .on('GET', '/endpoint', ApiXInMemoryTransport.json(200, { success: true, payload: { value: 1 } }))
+      .on('POST', '/endpoint', ApiXInMemoryTransport.json(400, {
+        success: false,
+        error: { id: 'invalidRequest', message: 'The request is invalid.' }
+      }));
+    client = new ApiXClient(keyStore, { transport });
+  });
+
+  it('should run middleware in the order it was added', async () => {
+    const calls: string[] = [];
+    const middleware = (name: string): ApiXMiddleware => async (_, next) => {
+      calls.push(`${name}:before`);
+      const response = await next();
+      calls.push(`${name}:after`);
+      return response;
+    };
+
+    await client.use(middleware('a')).use(middleware('b')).makeGetRequest(url);
+    expect(calls).toEqual(['a:before', 'b:before', 'b:after', 'a:after']);
+  });
+
+  it('should send headers and cookies set by middleware, signed with the request', async () => {
+    client.use(async (request, next) => {
+      request.setHeader('Authorization', 'Bearer token');
+      request.addCookie('session', 'abc');
+      return await next();
+    });
+
+    await client.makeGetRequest(url);
+
+    const [sent] = transport.requests;
+    expect(sent.headers['authorization']).toBe('Bearer token');
+    expect(sent.headers['Cookie']).toBe('session=abc');
+    expect(sent.headers['x-signature']).toBeDefined();
+  });
+
+  it('should never expose protected headers to middleware', async () => {
+    client.use(async (request, next) => {
+      expect(() => request.header('X-Signature')).toThrow();
+      expect(() => request.setHeader('X-API-Key', 'stolen')).toThrow();
+      const response = await next();
+      expect(() => request.header('X-Signature-Nonce')).toThrow();
+      expect(Object.keys(request.headers).map(name => name.toLowerCase()))
+        .not.toEqual(expect.arrayContaining(['x-signature']));
+      return response;
+    });
+
+    await expect(client.makeGetRequest(url)).resolves.toBeDefined();
+    expect.assertions(5);
+  });
+
+  it('should not let middleware send the request or read its signature material', async () => {
+    client.use(async (request, next) => {
+      const unsafe = request as unknown as Record<string, unknown>;
+      expect(unsafe['make']).toBeUndefined();
+      expect(unsafe['stream']).toBeUndefined();
+      expect(unsafe['protectedHeaders']).toBeUndefined();
+      expect(Object.isFrozen(request)).toBe(true);
+      const response = await next();
+      expect(unsafe['protectedHeaders']).toBeUndefined();
+      expect(request.url.toString()).toBe(url.toString());
+      return response;
+    });
+
+    await expect(client.makeGetRequest(url)).resolves.toBeDefined();
+    expect.assertions(7);
+  });
+
+  it('should let middleware replace the response', async () => {
+    client.use(async (_, next) => {
+      const response = await next();
+      const data = response.data as unknown as { payload: { value: number } };
+      return { ...response, data: { success: true, unwrapped: data.payload.value } };
+    });
+
+    const response = await client.makeGetRequest(url);
+    expect(response.data).toEqual({ success: true, unwrapped: 1 });
+  });
+
+  it('should let middleware inspect and replace errors', async () => {
+    client.use(async (_, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ApiXResponseInvalidRequestError);
+        throw new ApiXResponseError('wrapped', (error as ApiXResponseError).statusCode, 'Wrapped error');
+      }
+    });
+
+    await expect(client.makePostRequest(url, { key: 'value' })).rejects.toMatchObject({
+      id: 'wrapped',
+      statusCode: 400
+    });
+  });
+
+  it('should call the send function after the last middleware', async () => {
+    const send = jest.fn().mockResolvedValue({ statusCode: 204 });
+    const response = await runApiXMiddleware([], {} as never, send);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(response).toEqual({ statusCode: 204 });
+  });
+});
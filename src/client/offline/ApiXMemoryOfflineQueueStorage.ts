@@ -0,0 +1,26 @@
+import { ApiXOfflineQueueStorage, ApiXQueuedRequest } from './ApiXOfflineQueueStorage';
+
+/**
+ * Stores the requests of an `ApiXOfflineQueue` in memory.
+ * 
+ * Requests are lost when the process exits. Use a durable storage for
+ * requests that must survive restarts.
+ * 
+ * @category Queueing Offline Requests
+ */
+export class ApiXMemoryOfflineQueueStorage implements ApiXOfflineQueueStorage {
+
+  private requests: ApiXQueuedRequest[] = [];
+
+  public getAll(): readonly ApiXQueuedRequest[] {
+    return [...this.requests];
+  }
+
+  public add(request: ApiXQueuedRequest): void {
+    this.requests.push(request);
+  }
+
+  public delete(id: string): void {
+    this.requests = this.requests.filter(request => request.id !== id);
+  }
+}
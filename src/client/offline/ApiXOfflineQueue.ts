@@ -0,0 +1,313 @@
+import { ApiXOfflineQueueStorage, ApiXQueuedRequest } from './ApiXOfflineQueueStorage';
+import {
+  ApiXRequestAbortedError,
+  ApiXRequestError,
+  ApiXRequestNetworkError,
+  ApiXRequestTimeoutError
+} from '../error/ApiXRequestError';
+import { ApiXResponse, ApiXResponseData } from '../types/ApiXResponse';
+import { ApiXCircuitOpenError } from '../error/ApiXCircuitOpenError';
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXJsonObject } from '../types/ApiXJsonObject';
+import { ApiXMemoryOfflineQueueStorage } from './ApiXMemoryOfflineQueueStorage';
+import { ApiXRequestOptions } from '../types/ApiXRequestOptions';
+import { ApiXResponseError } from '../error/ApiXResponseError';
+import { buildApiXUrl } from '../url/ApiXUrlBuilder';
+import { randomUUID } from 'crypto';
+
+/**
+ * Why a queued request was dropped from an `ApiXOfflineQueue`.
+ * 
+ * - `conflict`: the server responded with `409 Conflict` or `412 Precondition
+ *   Failed`, e.g. because the resource changed while the device was offline.
+ * - `permanent`: the server rejected the request in a way that sending it
+ *   again would not fix, e.g. with `400 Bad Request`, or the request could not
+ *   be sent at all, e.g. because of an invalid URL or a failing middleware.
+ * 
+ * @category Queueing Offline Requests
+ */
+export type ApiXOfflineFailureReason = 'conflict' | 'permanent';
+
+/**
+ * A queued request that failed when it was replayed, and was dropped.
+ * 
+ * @category Queueing Offline Requests
+ */
+export interface ApiXOfflineFailure {
+  /**
+   * The queued request.
+   */
+  readonly request: ApiXQueuedRequest;
+
+  /**
+   * Why the request was dropped.
+   */
+  readonly reason: ApiXOfflineFailureReason;
+
+  /**
+   * The error the request failed with, usually an `ApiXResponseError`.
+   */
+  readonly error: unknown;
+}
+
+/**
+ * An object used to configure an `ApiXOfflineQueue`.
+ * 
+ * @category Queueing Offline Requests
+ */
+export interface ApiXOfflineQueueOptions {
+  /**
+   * Where queued requests are stored. Defaults to an `ApiXMemoryOfflineQueueStorage`.
+   */
+  readonly storage?: ApiXOfflineQueueStorage;
+
+  /**
+   * Called when a queued request fails with a conflict or a permanent error,
+   * once it is dropped from the queue.
+   * 
+   * Errors thrown by this callback are ignored, so that a failing callback
+   * cannot keep a request in the queue forever.
+   */
+  readonly onFailure?: (failure: ApiXOfflineFailure) => void | Promise<void>;
+}
+
+/**
+ * Options of a request added to an `ApiXOfflineQueue`.
+ * 
+ * @category Queueing Offline Requests
+ */
+export type ApiXOfflineRequestOptions<Path extends string = string> =
+  Pick<ApiXRequestOptions<Path>, 'params' | 'query' | 'headers'>;
+
+/**
+ * The outcome of `ApiXOfflineQueue.replay`.
+ * 
+ * @category Queueing Offline Requests
+ */
+export interface ApiXOfflineReplayResult {
+  /**
+   * The number of requests that succeeded.
+   */
+  readonly sent: number;
+
+  /**
+   * The number of requests that were dropped after a conflict or a permanent error.
+   */
+  readonly failed: number;
+
+  /**
+   * The number of requests still in the queue, because the replay stopped
+   * at a network failure or a temporary error.
+   */
+  readonly remaining: number;
+}
+
+/**
+ * Headers that are created when a request is signed, or that hold secrets,
+ * and are therefore never stored.
+ */
+const unqueueableHeaders = [
+  'authorization',
+  'proxy-authorization',
+  'x-api-key',
+  'x-signature',
+  'x-signature-nonce',
+  'x-signature-algorithm',
+  'x-signature-canonicalization',
+  'content-digest',
+  'content-type',
+  'cookie',
+  'date'
+];
+
+/**
+ * Status codes of responses that may succeed if the request is sent again later.
+ */
+const temporaryFailureStatusCodes = [408, 425, 429];
+
+/**
+ * Stores requests made while a device is offline, and sends them in order
+ * once it is back online.
+ * 
+ * Only the intent of each request (method, URL, JSON body and unprotected
+ * headers) is stored. Requests are signed when they are replayed, so they
+ * have a fresh `Date` header, nonce and signature.
+ * 
+ * ```typescript
+ * const queue = client.createOfflineQueue({ storage, onFailure });
+ * await queue.enqueue('POST', '/notes', { text: 'Hello' });
+ * window.addEventListener('online', () => queue.replay());
+ * ```
+ * 
+ * @category Queueing Offline Requests
+ */
+export class ApiXOfflineQueue {
+
+  private readonly storage: ApiXOfflineQueueStorage;
+
+  /**
+   * The replay in progress, if any.
+   */
+  private replaying?: Promise<ApiXOfflineReplayResult>;
+
+  /**
+   * Creates a new offline queue.
+   * @param makeRequest Makes a single signed request.
+   * @param baseUrl The URL against which path templates are resolved.
+   * @param options The storage and failure callback of the queue.
+   */
+  public constructor(
+    private readonly makeRequest: (
+      url: URL,
+      httpMethod: ApiXHttpMethod,
+      data: ApiXJsonObject | undefined,
+      options: ApiXRequestOptions
+    ) => Promise<ApiXResponse<ApiXResponseData>>,
+    private readonly baseUrl?: URL | string,
+    private readonly options: ApiXOfflineQueueOptions = {}
+  ) {
+    this.storage = options.storage ?? new ApiXMemoryOfflineQueueStorage();
+  }
+
+  /**
+   * Adds a request to the end of the queue.
+   * @param httpMethod The HTTP method of the request.
+   * @param url The URL of the request, or a path template (e.g.:
+   * `/users/:id`) that is resolved against the client's `baseUrl`.
+   * @param data The JSON body of the request, if any.
+   * @param options The path and query parameters and the headers of the request.
+   * @returns The queued request.
+   * @throws `ApiXRequestError` if the URL cannot be built, or if a protected
+   * or read-only header, or a `Cookie` header, is set.
+   */
+  public async enqueue<Path extends string = string>(
+    httpMethod: ApiXHttpMethod,
+    url: URL | Path,
+    data?: ApiXJsonObject,
+    options: ApiXOfflineRequestOptions<Path> = {}
+  ): Promise<ApiXQueuedRequest> {
+    const headers: Record<string, string> = {};
+    Object.entries(options.headers ?? {}).forEach(([name, value]) => {
+      const headerName = name.toLowerCase();
+      if (unqueueableHeaders.includes(headerName)) {
+        throw new ApiXRequestError(`Attempting to queue a protected header: ${name}!`);
+      }
+      headers[headerName] = value;
+    });
+
+    const request: ApiXQueuedRequest = {
+      id: randomUUID(),
+      httpMethod,
+      url: buildApiXUrl(url, { baseUrl: this.baseUrl, params: options.params, query: options.query }).toString(),
+      ...(data !== undefined ? { data } : {}),
+      headers,
+      queuedAt: Date.now()
+    };
+    await this.storage.add(request);
+    return request;
+  }
+
+  /**
+   * Returns the requests waiting in the queue, in order.
+   */
+  public async requests(): Promise<readonly ApiXQueuedRequest[]> {
+    return await this.storage.getAll();
+  }
+
+  /**
+   * Sends the queued requests one at a time, in order.
+   * 
+   * A request that succeeds is removed from the queue. A request that fails
+   * with a conflict or a permanent error is reported to `onFailure` and
+   * removed. The replay stops at the first network failure, timeout,
+   * cancellation, open circuit or temporary error (`408`, `425`, `429` or
+   * `5xx`), leaving that request and the ones after it in the queue. Any other
+   * error, such as an invalid URL or a failing middleware, is permanent.
+   * 
+   * If a replay is already in progress, its result is returned.
+   * @param options The timeout and cancellation signal of each request.
+   * @returns How many requests were sent, dropped and left in the queue.
+   */
+  public replay(options: Pick<ApiXRequestOptions, 'timeoutMs' | 'signal'> = {}): Promise<ApiXOfflineReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.replayQueuedRequests(options).finally(() => {
+        this.replaying = undefined;
+      });
+    }
+    return this.replaying;
+  }
+
+  //// Helper Methods ////
+  private async replayQueuedRequests(
+    options: Pick<ApiXRequestOptions, 'timeoutMs' | 'signal'>
+  ): Promise<ApiXOfflineReplayResult> {
+    const requests = await this.storage.getAll();
+    let sent = 0;
+    let failed = 0;
+
+    for (const request of requests) {
+      let failure: Omit<ApiXOfflineFailure, 'request'> | undefined;
+      try {
+        const response = await this.makeRequest(new URL(request.url), request.httpMethod, request.data, {
+          ...options,
+          headers: request.headers
+        });
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+          // A response without an API-X error body, such as a gateway's error page.
+          throw new ApiXResponseError('unknownError', response.statusCode, undefined, {
+            headers: response.headers,
+            cookies: response.cookies
+          });
+        }
+        sent++;
+      } catch (error) {
+        const reason = this.failureReason(error);
+        if (!reason) {
+          return { sent, failed, remaining: requests.length - sent - failed };
+        }
+        failure = { reason, error };
+        failed++;
+      }
+      await this.storage.delete(request.id);
+      if (failure) {
+        await this.reportFailure({ request, ...failure });
+      }
+    }
+
+    return { sent, failed, remaining: 0 };
+  }
+
+  private async reportFailure(failure: ApiXOfflineFailure): Promise<void> {
+    try {
+      await this.options.onFailure?.(failure);
+    } catch {
+      // The request is already dropped, and the replay goes on.
+    }
+  }
+
+  /**
+   * Determines why a replayed request should be dropped, or returns
+   * `undefined` if it should be sent again later.
+   */
+  private failureReason(error: unknown): ApiXOfflineFailureReason | undefined {
+    if (
+      error instanceof ApiXRequestNetworkError
+      || error instanceof ApiXRequestTimeoutError
+      || error instanceof ApiXRequestAbortedError
+      || error instanceof ApiXCircuitOpenError
+    ) {
+      return undefined;
+    }
+    if (!(error instanceof ApiXResponseError)) {
+      // E.g. an invalid URL or a failing middleware, which sending the request again would not fix.
+      return 'permanent';
+    }
+    if (error.statusCode === 409 || error.statusCode === 412) {
+      return 'conflict';
+    }
+    if (error.statusCode >= 500 || temporaryFailureStatusCodes.includes(error.statusCode)) {
+      return undefined;
+    }
+    return 'permanent';
+  }
+}
@@ -0,0 +1,69 @@
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXJsonObject } from '../types/ApiXJsonObject';
+
+/**
+ * A request waiting in an `ApiXOfflineQueue`.
+ * 
+ * Only the intent of the request is stored. It never contains a signature,
+ * a nonce, a `Date` header or a key: the request is signed when it is replayed.
+ * 
+ * @category Queueing Offline Requests
+ */
+export interface ApiXQueuedRequest {
+  /**
+   * A unique ID of the queued request.
+   */
+  readonly id: string;
+
+  /**
+   * The HTTP method of the request.
+   */
+  readonly httpMethod: ApiXHttpMethod;
+
+  /**
+   * The URL of the request.
+   */
+  readonly url: string;
+
+  /**
+   * The JSON body of the request, if any.
+   */
+  readonly data?: ApiXJsonObject;
+
+  /**
+   * The unprotected headers of the request, with lowercased names.
+   */
+  readonly headers: Record<string, string>;
+
+  /**
+   * When the request was queued, in milliseconds since the epoch.
+   */
+  readonly queuedAt: number;
+}
+
+/**
+ * Stores the requests of an `ApiXOfflineQueue`, e.g. in memory, in a file or
+ * in `localStorage`. Queued requests are plain JSON values.
+ * 
+ * Methods can return a value or a promise.
+ * 
+ * @category Queueing Offline Requests
+ */
+export interface ApiXOfflineQueueStorage {
+  /**
+   * Returns every stored request, in the order they were added.
+   */
+  getAll(): readonly ApiXQueuedRequest[] | Promise<readonly ApiXQueuedRequest[]>;
+
+  /**
+   * Adds a request after the stored requests.
+   * @param request The request to add.
+   */
+  add(request: ApiXQueuedRequest): void | Promise<void>;
+
+  /**
+   * Deletes a stored request.
+   * @param id The ID of the request.
+   */
+  delete(id: string): void | Promise<void>;
+}
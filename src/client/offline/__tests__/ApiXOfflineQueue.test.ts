@@ -0,0 +1,192 @@
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXMemoryOfflineQueueStorage } from '../ApiXMemoryOfflineQueueStorage';
+import { ApiXRequestError } from '../../error';
+import { ApiXTransportResponse } from '../../transport/ApiXTransport';
+
+describe('ApiXOfflineQueue', () => {
+  const baseUrl = 'https://apix.example.com';
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const ok = ApiXInMemoryTransport.json(200, { success: true });
+  const error = (status: number, id: string): ApiXTransportResponse => ApiXInMemoryTransport.json(status, {
+    success: false,
+    error: { id, message: id }
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should store the intent of requests without secrets', async () => {
+    const storage = new ApiXMemoryOfflineQueueStorage();
+    const client = new ApiXClient(keyStore, { baseUrl, transport: new ApiXInMemoryTransport() });
+    const queue = client.createOfflineQueue({ storage });
+
+    await queue.enqueue('PATCH', '/notes/:id', { text: 'Hello' }, {
+      params: { id: 7 },
+      query: { notify: true },
+      headers: { 'If-Match': '"v1"' }
+    });
+
+    expect(storage.getAll()).toEqual([{
+      id: expect.any(String),
+      httpMethod: 'PATCH',
+      url: 'https://apix.example.com/notes/7?notify=true',
+      data: { text: 'Hello' },
+      headers: { 'if-match': '"v1"' },
+      queuedAt: expect.any(Number)
+    }]);
+    expect(JSON.stringify(storage.getAll())).not.toMatch(/testApiKey|testAppKey/);
+    await expect(queue.enqueue('POST', '/notes', {}, { headers: { 'X-API-Key': 'secret' } }))
+      .rejects.toThrow(ApiXRequestError);
+    await expect(queue.enqueue('POST', '/notes', {}, { headers: { Authorization: 'Bearer token' } }))
+      .rejects.toThrow(ApiXRequestError);
+    await expect(queue.enqueue('POST', '/notes', {}, { headers: { 'Proxy-Authorization': 'Basic abc' } }))
+      .rejects.toThrow(ApiXRequestError);
+    expect(storage.getAll()).toHaveLength(1);
+  });
+
+  it('should replay requests in order, signing each one when it is sent', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/notes', ok)
+      .on('PATCH', '/notes/1', ok);
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+    const queue = client.createOfflineQueue();
+
+    await queue.enqueue('POST', '/notes', { text: 'Hello' });
+    await queue.enqueue('PATCH', '/notes/1', { text: 'Bye' }, { headers: { 'If-Match': '"v1"' } });
+    jest.setSystemTime(new Date('2026-01-01T01:00:00Z'));
+
+    expect(await queue.replay()).toEqual({ sent: 2, failed: 0, remaining: 0 });
+    expect(transport.requests.map(request => `${request.method} ${new URL(request.url).pathname}`))
+      .toEqual(['POST /notes', 'PATCH /notes/1']);
+    expect(transport.requests[1].headers).toMatchObject({
+      'if-match': '"v1"',
+      date: 'Thu, 01 Jan 2026 01:00:00 GMT',
+      'x-api-key': 'testApiKey'
+    });
+    expect(transport.requests[0].headers['x-signature-nonce'])
+      .not.toBe(transport.requests[1].headers['x-signature-nonce']);
+    expect(await queue.requests()).toEqual([]);
+  });
+
+  it('should report and drop conflicts and permanent failures', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('PUT', '/notes/1', error(409, 'conflict'))
+      .on('POST', '/notes', error(400, 'invalidRequest'))
+      .on('DELETE', '/notes/2', ok);
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+    const onFailure = jest.fn();
+    const queue = client.createOfflineQueue({ onFailure });
+
+    const conflicting = await queue.enqueue('PUT', '/notes/1', { text: 'Mine' });
+    const invalid = await queue.enqueue('POST', '/notes', {});
+    await queue.enqueue('DELETE', '/notes/2');
+
+    expect(await queue.replay()).toEqual({ sent: 1, failed: 2, remaining: 0 });
+    expect(onFailure).toHaveBeenNthCalledWith(1, expect.objectContaining({ request: conflicting, reason: 'conflict' }));
+    expect(onFailure).toHaveBeenNthCalledWith(2, expect.objectContaining({ request: invalid, reason: 'permanent' }));
+    expect(onFailure.mock.calls[0][0].error).toMatchObject({ statusCode: 409 });
+  });
+
+  it('should stop at temporary failures and keep the remaining requests', async () => {
+    let online = false;
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/notes', () => {
+        if (!online) {
+          throw new TypeError('fetch failed');
+        }
+        return ok;
+      })
+      .on('DELETE', '/notes/1', () => online ? ok : error(503, 'unavailable'));
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+    const onFailure = jest.fn();
+    const queue = client.createOfflineQueue({ onFailure });
+
+    await queue.enqueue('DELETE', '/notes/1');
+    await queue.enqueue('POST', '/notes', { text: 'Hello' });
+
+    expect(await queue.replay()).toEqual({ sent: 0, failed: 0, remaining: 2 });
+    expect(transport.requests).toHaveLength(1);
+
+    online = true;
+    const [first, second] = await Promise.all([queue.replay(), queue.replay()]);
+    expect(first).toBe(second);
+    expect(first).toEqual({ sent: 2, failed: 0, remaining: 0 });
+    expect(transport.requests).toHaveLength(3);
+    expect(onFailure).not.toHaveBeenCalled();
+  });
+
+  it('should report and drop requests that fail before they are sent', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/notes', ok)
+      .on('DELETE', '/notes/2', ok);
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+    client.use((request, next) => {
+      if (request.httpMethod === 'POST') {
+        throw new TypeError('Cannot read the draft');
+      }
+      return next();
+    });
+    const onFailure = jest.fn();
+    const queue = client.createOfflineQueue({ onFailure });
+
+    const poisoned = await queue.enqueue('POST', '/notes', { text: 'Hello' });
+    await queue.enqueue('DELETE', '/notes/2');
+
+    expect(await queue.replay()).toEqual({ sent: 1, failed: 1, remaining: 0 });
+    expect(onFailure).toHaveBeenCalledWith({
+      request: poisoned,
+      reason: 'permanent',
+      error: expect.any(TypeError)
+    });
+    expect(transport.requests.map(request => request.method)).toEqual(['DELETE']);
+  });
+
+  it('should keep requests answered by a gateway error page without an API-X body', async () => {
+    const page = (status: number) => ({ status, headers: { 'content-type': 'text/html' }, body: '<html>Error</html>' });
+    let status = 503;
+    const transport = new ApiXInMemoryTransport()
+      .on('PUT', '/notes/1', () => page(status));
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+    const onFailure = jest.fn();
+    const queue = client.createOfflineQueue({ onFailure });
+
+    await queue.enqueue('PUT', '/notes/1', { text: 'Mine' });
+
+    expect(await queue.replay()).toEqual({ sent: 0, failed: 0, remaining: 1 });
+    status = 429;
+    expect(await queue.replay()).toEqual({ sent: 0, failed: 0, remaining: 1 });
+    expect(await queue.requests()).toHaveLength(1);
+
+    status = 404;
+    expect(await queue.replay()).toEqual({ sent: 0, failed: 1, remaining: 0 });
+    expect(onFailure.mock.calls[0][0]).toMatchObject({ reason: 'permanent', error: { statusCode: 404 } });
+  });
+
+  it('should drop failed requests even if onFailure throws', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/notes', error(400, 'invalidRequest'))
+      .on('DELETE', '/notes/2', ok);
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+    const queue = client.createOfflineQueue({
+      onFailure: () => {
+        throw new Error('Cannot report the failure');
+      }
+    });
+
+    await queue.enqueue('POST', '/notes', {});
+    await queue.enqueue('DELETE', '/notes/2');
+
+    expect(await queue.replay()).toEqual({ sent: 1, failed: 1, remaining: 0 });
+    expect(await queue.requests()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,3 @@
+export * from './ApiXMemoryOfflineQueueStorage';
+export * from './ApiXOfflineQueue';
+export * from './ApiXOfflineQueueStorage';
@@ -0,0 +1,263 @@
+import { ApiXResponse, ApiXResponseData } from '../types/ApiXResponse';
+import { ApiXPaginationStrategy } from './ApiXPaginationStrategy';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+import { ApiXResponseValidationError } from '../error/ApiXResponseValidationError';
+import { canonicalizeApiXUrl } from '../url/ApiXCanonicalQuery';
+
+/**
+ * Options of `apiXCursorPagination`.
+ * 
+ * @category Paginating Responses
+ */
+export interface ApiXCursorPaginationOptions {
+  /**
+   * The field of the response data that holds the items of a page. Use dots
+   * for nested fields (e.g.: `result.items`). Defaults to `items`.
+   */
+  readonly itemsField?: string;
+
+  /**
+   * The field of the response data that holds the cursor of the next page.
+   * Use dots for nested fields. Defaults to `nextCursor`.
+   */
+  readonly cursorField?: string;
+
+  /**
+   * The query parameter that sends the cursor. Defaults to `cursor`.
+   */
+  readonly cursorParam?: string;
+
+  /**
+   * The number of items to request per page, if any.
+   */
+  readonly pageSize?: number;
+
+  /**
+   * The query parameter that sends the page size. Defaults to `limit`.
+   */
+  readonly limitParam?: string;
+}
+
+/**
+ * Options of `apiXOffsetPagination`.
+ * 
+ * @category Paginating Responses
+ */
+export interface ApiXOffsetPaginationOptions {
+  /**
+   * The number of items to request per page.
+   */
+  readonly pageSize: number;
+
+  /**
+   * The field of the response data that holds the items of a page. Use dots
+   * for nested fields (e.g.: `result.items`). Defaults to `items`.
+   */
+  readonly itemsField?: string;
+
+  /**
+   * The field of the response data that holds the total number of items, if
+   * the endpoint returns it. Use dots for nested fields.
+   * 
+   * Without it, the last page is the first one with fewer than `pageSize` items.
+   */
+  readonly totalField?: string;
+
+  /**
+   * The query parameter that sends the offset. Defaults to `offset`.
+   */
+  readonly offsetParam?: string;
+
+  /**
+   * The query parameter that sends the page size. Defaults to `limit`.
+   */
+  readonly limitParam?: string;
+}
+
+/**
+ * Options of `apiXLinkPagination`.
+ * 
+ * @category Paginating Responses
+ */
+export interface ApiXLinkPaginationOptions {
+  /**
+   * The field of the response data that holds the items of a page. Use dots
+   * for nested fields (e.g.: `result.items`). Defaults to `items`.
+   */
+  readonly itemsField?: string;
+
+  /**
+   * The number of items to request on the first page, if any. The next pages
+   * use the URLs of the `Link` header as they are.
+   */
+  readonly pageSize?: number;
+
+  /**
+   * The query parameter that sends the page size. Defaults to `limit`.
+   */
+  readonly limitParam?: string;
+}
+
+/**
+ * Paginates an endpoint that returns the cursor of the next page in its
+ * response data, e.g. `{ "items": [...], "nextCursor": "abc" }`.
+ * 
+ * The last page is the one without a cursor.
+ * @param options The fields and query parameters used by the endpoint.
+ * @returns A pagination strategy.
+ * 
+ * @category Paginating Responses
+ */
+export const apiXCursorPagination = <Item = unknown, DataType extends ApiXResponseData = ApiXResponseData>(
+  options: ApiXCursorPaginationOptions = {}
+): ApiXPaginationStrategy<Item, DataType> => {
+  const {
+    itemsField = 'items',
+    cursorField = 'nextCursor',
+    cursorParam = 'cursor',
+    pageSize,
+    limitParam = 'limit'
+  } = options;
+
+  return {
+    firstPage: url => withQuery(url, { [limitParam]: pageSize }),
+    items: response => readItems<Item>(response, itemsField),
+    nextPage: (url, response) => {
+      const cursor = readField(response.data, cursorField);
+      if (cursor === undefined || cursor === null || cursor === '') {
+        return undefined;
+      }
+      return withQuery(url, { [cursorParam]: String(cursor) });
+    }
+  };
+};
+
+/**
+ * Paginates an endpoint that takes an offset and a limit as query
+ * parameters, e.g. `/users?offset=40&limit=20`.
+ * @param options The page size, fields and query parameters used by the endpoint.
+ * @returns A pagination strategy.
+ * 
+ * @category Paginating Responses
+ */
+export const apiXOffsetPagination = <Item = unknown, DataType extends ApiXResponseData = ApiXResponseData>(
+  options: ApiXOffsetPaginationOptions
+): ApiXPaginationStrategy<Item, DataType> => {
+  const {
+    pageSize,
+    itemsField = 'items',
+    totalField,
+    offsetParam = 'offset',
+    limitParam = 'limit'
+  } = options;
+
+  return {
+    firstPage: url => withQuery(url, {
+      [offsetParam]: url.searchParams.get(offsetParam) ?? 0,
+      [limitParam]: pageSize
+    }),
+    items: response => readItems<Item>(response, itemsField),
+    nextPage: (url, response, items) => {
+      const offset = Number(url.searchParams.get(offsetParam) ?? 0) + items.length;
+      const total = totalField ? readField(response.data, totalField) : undefined;
+      const isLastPage = typeof total === 'number'
+        ? offset >= total || items.length === 0
+        : items.length < pageSize;
+      return isLastPage ? undefined : withQuery(url, { [offsetParam]: offset });
+    }
+  };
+};
+
+/**
+ * Paginates an endpoint that links to its next page with an RFC 8288 `Link`
+ * header, e.g. `Link: <https://apix.example.com/users?page=2>; rel="next"`.
+ * 
+ * The last page is the one without a `next` link. A `next` link to another
+ * origin than the current page's is rejected, so that the API key and a
+ * valid signature are never sent to a third party.
+ * @param options The page size, fields and query parameters used by the endpoint.
+ * @returns A pagination strategy.
+ * 
+ * @category Paginating Responses
+ */
+export const apiXLinkPagination = <Item = unknown, DataType extends ApiXResponseData = ApiXResponseData>(
+  options: ApiXLinkPaginationOptions = {}
+): ApiXPaginationStrategy<Item, DataType> => {
+  const {
+    itemsField = 'items',
+    pageSize,
+    limitParam = 'limit'
+  } = options;
+
+  return {
+    firstPage: url => withQuery(url, { [limitParam]: pageSize }),
+    items: response => readItems<Item>(response, itemsField),
+    nextPage: (url, response) => {
+      const link = response.headers?.get('Link');
+      const target = link ? nextLinkTarget(link) : undefined;
+      if (target === undefined) {
+        return undefined;
+      }
+      const next = new URL(target, url);
+      if (next.origin !== url.origin) {
+        throw new ApiXRequestError(`Cannot follow a next link to ${next.origin} from a page of ${url.origin}.`);
+      }
+      return canonicalizeApiXUrl(next);
+    }
+  };
+};
+
+/**
+ * Returns a copy of `url` with the given query parameters set, in canonical
+ * form. Parameters whose value is `undefined` are left as they are.
+ */
+const withQuery = (url: URL, query: Record<string, string | number | undefined>): URL => {
+  const copy = new URL(url.toString());
+  Object.entries(query).forEach(([name, value]) => {
+    if (value !== undefined) {
+      copy.searchParams.set(name, String(value));
+    }
+  });
+  return canonicalizeApiXUrl(copy);
+};
+
+const readField = (data: unknown, field: string): unknown => {
+  return field.split('.').reduce<unknown>((value, key) => {
+    return typeof value === 'object' && value !== null
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+  }, data);
+};
+
+const readItems = <Item>(response: ApiXResponse, field: string): readonly Item[] => {
+  const items = readField(response.data, field);
+  if (!Array.isArray(items)) {
+    throw new ApiXResponseValidationError(response.statusCode, response.data, [{
+      message: `Expected the items of the page in "${field}".`,
+      path: field.split('.')
+    }]);
+  }
+  return items as Item[];
+};
+
+/**
+ * Returns the target of the `rel="next"` link of a `Link` header, as described
+ * by RFC 8288.
+ */
+const nextLinkTarget = (header: string): string | undefined => {
+  const linkPattern = /<([^>]*)>((?:\s*;\s*[^;,=\s]+(?:\s*=\s*(?:"(?:[^"\\]|\\.)*"|[^;,\s]*))?)*)/g;
+
+  let link: RegExpExecArray | null;
+  while ((link = linkPattern.exec(header)) !== null) {
+    const parameterPattern = /;\s*([^;,=\s]+)(?:\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;,\s]*)))?/g;
+    let parameter: RegExpExecArray | null;
+    while ((parameter = parameterPattern.exec(link[2])) !== null) {
+      const [, name, quotedValue, value] = parameter;
+      const relations = (quotedValue ?? value ?? '').toLowerCase().split(/\s+/);
+      if (name.toLowerCase() === 'rel' && relations.includes('next')) {
+        return link[1];
+      }
+    }
+  }
+  return undefined;
+};
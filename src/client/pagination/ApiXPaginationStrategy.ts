@@ -0,0 +1,59 @@
+import { ApiXResponse, ApiXResponseData } from '../types/ApiXResponse';
+
+/**
+ * A page of results returned by `ApiXClient.paginate`.
+ * 
+ * @category Paginating Responses
+ */
+export interface ApiXPage<Item = unknown, DataType extends ApiXResponseData = ApiXResponseData> {
+  /**
+   * The zero-based index of the page.
+   */
+  readonly index: number;
+
+  /**
+   * The URL the page was requested from.
+   */
+  readonly url: URL;
+
+  /**
+   * The items of the page.
+   */
+  readonly items: readonly Item[];
+
+  /**
+   * The response of the page.
+   */
+  readonly response: ApiXResponse<DataType>;
+}
+
+/**
+ * Determines how the pages of a list endpoint are requested and read.
+ * 
+ * Use one of the built-in strategies (`apiXCursorPagination`,
+ * `apiXOffsetPagination` or `apiXLinkPagination`), or implement this interface
+ * for endpoints that paginate differently.
+ * 
+ * @category Paginating Responses
+ */
+export interface ApiXPaginationStrategy<Item = unknown, DataType extends ApiXResponseData = ApiXResponseData> {
+  /**
+   * Returns the URL of the first page, e.g. with a page size added to its query.
+   * @param url The URL passed to `paginate`.
+   */
+  firstPage(url: URL): URL;
+
+  /**
+   * Returns the items of a page.
+   * @param response The response of the page.
+   */
+  items(response: ApiXResponse<DataType>): readonly Item[];
+
+  /**
+   * Returns the URL of the next page, or `undefined` if this is the last page.
+   * @param url The URL of the current page.
+   * @param response The response of the current page.
+   * @param items The items of the current page.
+   */
+  nextPage(url: URL, response: ApiXResponse<DataType>, items: readonly Item[]): URL | undefined;
+}
@@ -0,0 +1,106 @@
+import { ApiXPage, ApiXPaginationStrategy } from './ApiXPaginationStrategy';
+import { ApiXResponse, ApiXResponseData } from '../types/ApiXResponse';
+
+/**
+ * Limits how much of a list is read by an `ApiXPaginator`.
+ * 
+ * @category Paginating Responses
+ */
+export interface ApiXPaginationLimits {
+  /**
+   * The maximum number of pages to request. Defaults to no limit.
+   */
+  readonly maxPages?: number;
+
+  /**
+   * The maximum number of items to return. Defaults to no limit.
+   * 
+   * No page is requested once this many items have been returned, and the
+   * items of the last page are truncated if needed.
+   */
+  readonly maxItems?: number;
+}
+
+/**
+ * Reads the pages of a list endpoint, one request per page.
+ * 
+ * Iterate over a paginator to get each item, or over `pages()` to get each
+ * page. Pages are requested as they are needed, so breaking out of a
+ * `for await` loop stops the pagination.
+ * 
+ * ```typescript
+ * for await (const user of client.paginate('/users', apiXCursorPagination<User>())) {
+ *   console.log(user.name);
+ * }
+ * ```
+ * 
+ * @category Paginating Responses
+ */
+export class ApiXPaginator<Item = unknown, DataType extends ApiXResponseData = ApiXResponseData>
+implements AsyncIterable<Item> {
+
+  /**
+   * Creates a new paginator.
+   * @param url The URL of the list, before the strategy adds its first page parameters.
+   * @param strategy Determines how pages are requested and read.
+   * @param requestPage Makes a new, signed request for the page at a URL.
+   * @param limits The maximum number of pages and items to read.
+   */
+  public constructor(
+    private readonly url: URL,
+    private readonly strategy: ApiXPaginationStrategy<Item, DataType>,
+    private readonly requestPage: (url: URL) => Promise<ApiXResponse<DataType>>,
+    private readonly limits: ApiXPaginationLimits = {}
+  ) {}
+
+  /**
+   * Requests the pages of the list, in order.
+   * 
+   * Pagination stops after the last page, once a limit is reached, or if the
+   * next page has the URL of a page that was already requested, so that a
+   * server that links back to an earlier page cannot loop forever.
+   * @returns An async iterable of the pages.
+   * @throws The error of the first page request that fails.
+   */
+  public async *pages(): AsyncGenerator<ApiXPage<Item, DataType>, void, undefined> {
+    const maxPages = this.limits.maxPages ?? Infinity;
+    const maxItems = this.limits.maxItems ?? Infinity;
+    let url: URL | undefined = this.strategy.firstPage(this.url);
+    const visited = new Set<string>();
+    let itemCount = 0;
+
+    for (let index = 0; url && index < maxPages && itemCount < maxItems; index++) {
+      visited.add(url.toString());
+      const response = await this.requestPage(url);
+      const items = this.strategy.items(response);
+      const nextUrl = this.strategy.nextPage(url, response, items);
+      const pageItems = items.slice(0, maxItems - itemCount);
+      itemCount += pageItems.length;
+
+      yield { index, url, items: pageItems, response };
+      url = nextUrl && !visited.has(nextUrl.toString()) ? nextUrl : undefined;
+    }
+  }
+
+  /**
+   * Requests the pages of the list, in order, and returns their items.
+   * @returns An async iterator of the items.
+   */
+  public async *[Symbol.asyncIterator](): AsyncGenerator<Item, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Reads every item of the list, within the paginator's limits.
+   * @returns The items.
+   */
+  public async toArray(): Promise<Item[]> {
+    const items: Item[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+}
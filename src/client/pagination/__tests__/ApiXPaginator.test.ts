@@ -0,0 +1,160 @@
+import { ApiXRequestError, ApiXResponseValidationError } from '../../error';
+import {
+  apiXCursorPagination,
+  apiXLinkPagination,
+  apiXOffsetPagination
+} from '../ApiXPaginationStrategies';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXTransportRequest } from '../../transport/ApiXTransport';
+
+describe('ApiXPaginator', () => {
+  const baseUrl = 'https://apix.example.com';
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const users = Array.from({ length: 5 }, (_, index) => ({ id: index + 1 }));
+  const query = (request: ApiXTransportRequest) => new URL(request.url).searchParams;
+
+  it('should follow cursors with freshly signed requests', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/users', request => {
+        const start = Number(query(request).get('cursor') ?? 0);
+        const limit = Number(query(request).get('limit'));
+        const end = start + limit;
+        return ApiXInMemoryTransport.json(200, {
+          success: true,
+          result: { users: users.slice(start, end) },
+          next: end < users.length ? String(end) : null
+        });
+      });
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+
+    const pages = [];
+    for await (const page of client.paginate('/users', apiXCursorPagination({
+      itemsField: 'result.users',
+      cursorField: 'next',
+      pageSize: 2
+    })).pages()) {
+      pages.push(page);
+    }
+
+    expect(pages.map(page => page.items)).toEqual([users.slice(0, 2), users.slice(2, 4), users.slice(4)]);
+    expect(pages.map(page => page.url.search)).toEqual(['?limit=2', '?cursor=2&limit=2', '?cursor=4&limit=2']);
+    const nonces = transport.requests.map(request => request.headers['x-signature-nonce']);
+    expect(new Set(nonces).size).toBe(3);
+  });
+
+  it('should page through offsets until a short page or the total', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/users', request => {
+        const offset = Number(query(request).get('offset'));
+        const limit = Number(query(request).get('limit'));
+        return ApiXInMemoryTransport.json(200, {
+          success: true,
+          items: users.slice(offset, offset + limit),
+          total: users.length
+        });
+      });
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+
+    const withoutTotal = await client.paginate('/users', apiXOffsetPagination({ pageSize: 3 })).toArray();
+    expect(withoutTotal).toEqual(users);
+    expect(transport.requests).toHaveLength(2);
+
+    transport.requests.length = 0;
+    const withTotal = await client.paginate('/users', apiXOffsetPagination({ pageSize: 5, totalField: 'total' })).toArray();
+    expect(withTotal).toEqual(users);
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('should follow RFC 8288 next links', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/users', request => {
+        const page = Number(query(request).get('page') ?? 1);
+        const link = page < 3
+          ? `</users?page=${page - 1}>; rel="prev", </users?page=${page + 1}>; rel="next last"`
+          : '</users?page=2>; rel=prev';
+        return ApiXInMemoryTransport.json(200, { success: true, items: [users[page - 1]] }, { link });
+      });
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+
+    const items = await client.paginate('/users', apiXLinkPagination({ pageSize: 1 })).toArray();
+
+    expect(items).toEqual(users.slice(0, 3));
+    expect(transport.requests.map(request => request.url)).toEqual([
+      'https://apix.example.com/users?limit=1',
+      'https://apix.example.com/users?page=2',
+      'https://apix.example.com/users?page=3'
+    ]);
+  });
+
+  it('should stop when a next link leads back to a page that was already requested', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/users', request => {
+        const page = query(request).get('page') === '2' ? 2 : 1;
+        const link = `</users?page=${page === 1 ? 2 : 1}>; rel="next"`;
+        return ApiXInMemoryTransport.json(200, { success: true, items: [users[page - 1]] }, { link });
+      });
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+
+    const items = await client.paginate('/users?page=1', apiXLinkPagination()).toArray();
+
+    expect(items).toEqual(users.slice(0, 2));
+    expect(transport.requests.map(request => request.url)).toEqual([
+      'https://apix.example.com/users?page=1',
+      'https://apix.example.com/users?page=2'
+    ]);
+  });
+
+  it('should not follow next links to another origin', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/users', ApiXInMemoryTransport.json(200, { success: true, items: [users[0]] }, {
+        link: '<https://attacker.example.com/users?page=2>; rel="next"'
+      }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+
+    await expect(client.paginate('/users', apiXLinkPagination()).toArray())
+      .rejects.toThrow(ApiXRequestError);
+    expect(transport.requests.map(request => request.url)).toEqual(['https://apix.example.com/users']);
+  });
+
+  it('should stop requesting pages at the limits or when iteration stops', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/users', request => {
+        const offset = Number(query(request).get('offset'));
+        return ApiXInMemoryTransport.json(200, { success: true, items: users.slice(offset, offset + 2) });
+      });
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+    const strategy = apiXOffsetPagination<{ id: number }>({ pageSize: 2 });
+
+    expect(await client.paginate('/users', strategy, { maxItems: 3 }).toArray()).toEqual(users.slice(0, 3));
+    expect(transport.requests).toHaveLength(2);
+
+    transport.requests.length = 0;
+    expect(await client.paginate('/users', strategy, { maxPages: 1 }).toArray()).toEqual(users.slice(0, 2));
+    expect(transport.requests).toHaveLength(1);
+
+    transport.requests.length = 0;
+    for await (const user of client.paginate('/users', strategy)) {
+      if (user.id === 1) {
+        break;
+      }
+    }
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('should throw when a page has no items', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/users', ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+
+    await expect(client.paginate('/users', apiXCursorPagination()).toArray())
+      .rejects.toThrow(ApiXResponseValidationError);
+  });
+});
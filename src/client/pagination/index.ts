@@ -0,0 +1,3 @@
+export * from './ApiXPaginationStrategies';
+export * from './ApiXPaginationStrategy';
+export * from './ApiXPaginator';
@@ -0,0 +1,67 @@
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+
+/**
+ * A function that determines which rate limit bucket a request uses.
+ * 
+ * Requests with the same key share the same token bucket.
+ * 
+ * @category Rate Limiting Requests
+ */
+export type ApiXRateLimitKey = (url: URL, httpMethod: ApiXHttpMethod) => string;
+
+/**
+ * An object used to configure how the requests of a client are rate limited.
+ * 
+ * Each bucket holds up to `burst` tokens and gains `limit` tokens every
+ * `intervalMs` milliseconds. Every request takes a token, and waits for one
+ * when the bucket is empty.
+ * 
+ * @category Rate Limiting Requests
+ */
+export interface ApiXRateLimitPolicy {
+  /**
+   * The number of requests allowed per interval.
+   */
+  readonly limit: number;
+
+  /**
+   * The length of the interval, in milliseconds.
+   */
+  readonly intervalMs: number;
+
+  /**
+   * The maximum number of requests that can be sent at once after the bucket
+   * has been idle. Defaults to `limit`.
+   */
+  readonly burst?: number;
+
+  /**
+   * Determines the bucket of each request. Defaults to `apiXRateLimitKeyByHost`,
+   * which uses one bucket per host.
+   */
+  readonly key?: ApiXRateLimitKey;
+
+  /**
+   * Whether buckets are paused when a response is `429 Too Many Requests`, or
+   * has a `Retry-After` header or `RateLimit` headers that report no remaining
+   * requests. Defaults to `true`.
+   */
+  readonly respectServerLimits?: boolean;
+}
+
+/**
+ * Uses one rate limit bucket per host (e.g.: `apix.example.com:8443`).
+ * 
+ * @category Rate Limiting Requests
+ */
+export const apiXRateLimitKeyByHost: ApiXRateLimitKey = url => url.host;
+
+/**
+ * Uses one rate limit bucket per HTTP method, host and pathname
+ * (e.g.: `GET apix.example.com/v1/users`).
+ * 
+ * @category Rate Limiting Requests
+ */
+export const apiXRateLimitKeyByRoute: ApiXRateLimitKey = (url, httpMethod) => {
+  return `${httpMethod} ${url.host}${url.pathname}`;
+};
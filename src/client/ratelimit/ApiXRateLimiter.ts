@@ -0,0 +1,221 @@
+import {
+  ApiXRateLimitKey,
+  ApiXRateLimitPolicy,
+  apiXRateLimitKeyByHost
+} from './ApiXRateLimitPolicy';
+import { ApiXRequestAbortedError, ApiXRequestError } from '../error/ApiXRequestError';
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXResponseHeaders } from '../headers/ApiXResponseHeaders';
+
+interface ApiXRateLimitWaiter {
+  readonly resolve: () => void;
+  readonly reject: (error: unknown) => void;
+  readonly signal?: AbortSignal;
+  readonly onAbort: () => void;
+}
+
+interface ApiXRateLimitBucket {
+  tokens: number;
+  updatedAt: number;
+  pausedUntil: number;
+  readonly waiters: ApiXRateLimitWaiter[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * The longest delay of a timer (about 24.8 days). Longer delays make
+ * `setTimeout` fire immediately, so pauses and timers are capped to it.
+ */
+const maxDelayMs = 2 ** 31 - 1;
+
+/**
+ * A token bucket rate limiter for API-X requests.
+ * 
+ * Requests wait in the order they call `acquire`. Because a request only
+ * needs to be created once it has a token, its `Date` header and nonce are
+ * those of the moment it is actually sent.
+ * 
+ * @category Rate Limiting Requests
+ */
+export class ApiXRateLimiter {
+
+  private readonly buckets = new Map<string, ApiXRateLimitBucket>();
+
+  private readonly keyForRequest: ApiXRateLimitKey;
+
+  /**
+   * Creates a new rate limiter.
+   * @param policy The rate limit policy.
+   * @throws `ApiXRequestError` if `limit`, `intervalMs` or `burst` is not a
+   * positive number.
+   */
+  public constructor(
+    public readonly policy: ApiXRateLimitPolicy
+  ) {
+    const isPositive = (value: number) => typeof value === 'number' && isFinite(value) && value > 0;
+    if (!isPositive(policy.limit) || !isPositive(policy.intervalMs)) {
+      throw new ApiXRequestError('The limit and intervalMs of a rate limit policy must be positive numbers.');
+    }
+    if (policy.burst !== undefined && !isPositive(policy.burst)) {
+      throw new ApiXRequestError('The burst of a rate limit policy must be a positive number.');
+    }
+    this.keyForRequest = policy.key ?? apiXRateLimitKeyByHost;
+  }
+
+  /**
+   * Determines the bucket of a request.
+   * @param url The URL of the request.
+   * @param httpMethod The HTTP method of the request.
+   * @returns The key of the bucket.
+   */
+  public key(url: URL, httpMethod: ApiXHttpMethod): string {
+    return this.keyForRequest(url, httpMethod);
+  }
+
+  /**
+   * Waits until a request can be sent, and takes a token from its bucket.
+   * @param key The key of the bucket.
+   * @param signal A signal that stops waiting.
+   * @throws `ApiXRequestAbortedError` if `signal` is aborted while waiting.
+   */
+  public acquire(key: string, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new ApiXRequestAbortedError(signal.reason));
+    }
+
+    const bucket = this.bucket(key);
+    return new Promise<void>((resolve, reject) => {
+      const waiter: ApiXRateLimitWaiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          const index = bucket.waiters.indexOf(waiter);
+          if (index >= 0) {
+            bucket.waiters.splice(index, 1);
+          }
+          reject(new ApiXRequestAbortedError(signal?.reason));
+          this.drain(key, bucket);
+        }
+      };
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+      bucket.waiters.push(waiter);
+      this.drain(key, bucket);
+    });
+  }
+
+  /**
+   * Pauses a bucket. Requests that use it wait until the pause ends.
+   * @param key The key of the bucket.
+   * @param durationMs How long to pause the bucket, in milliseconds. It is
+   * capped to about 24.8 days, and durations that are not positive are ignored.
+   */
+  public pause(key: string, durationMs: number) {
+    const bucket = this.bucket(key);
+    const pauseMs = durationMs > 0 ? Math.min(durationMs, maxDelayMs) : 0;
+    bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + pauseMs);
+    this.drain(key, bucket);
+  }
+
+  /**
+   * Adapts a bucket to the rate limit signals of a response, unless
+   * `respectServerLimits` is `false`.
+   * 
+   * The bucket is paused for the duration of a `Retry-After` header, or
+   * until the reset of `RateLimit` / `RateLimit-Remaining` and `RateLimit-Reset`
+   * headers that report no remaining requests. A `429` response without
+   * these headers empties the bucket.
+   * @param key The key of the bucket.
+   * @param statusCode The HTTP status code of the response.
+   * @param headers The HTTP headers of the response.
+   */
+  public update(key: string, statusCode: number, headers?: ApiXResponseHeaders) {
+    if (this.policy.respectServerLimits === false) {
+      return;
+    }
+
+    const pauseMs = headers?.getRetryAfterMs() ?? this.rateLimitResetMs(headers);
+    if (pauseMs !== undefined) {
+      this.pause(key, pauseMs);
+    } else if (statusCode === 429) {
+      const bucket = this.bucket(key);
+      this.refill(bucket);
+      bucket.tokens = 0;
+    }
+  }
+
+  private bucket(key: string): ApiXRateLimitBucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        tokens: this.capacity,
+        updatedAt: Date.now(),
+        pausedUntil: 0,
+        waiters: []
+      };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private get capacity(): number {
+    return Math.max(1, this.policy.burst ?? this.policy.limit);
+  }
+
+  private refill(bucket: ApiXRateLimitBucket) {
+    const now = Date.now();
+    const tokensPerMs = this.policy.limit / this.policy.intervalMs;
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) * tokensPerMs);
+    bucket.updatedAt = now;
+  }
+
+  /**
+   * Lets waiting requests through while there are tokens, and schedules the
+   * next attempt when the bucket is empty or paused.
+   */
+  private drain(key: string, bucket: ApiXRateLimitBucket) {
+    clearTimeout(bucket.timer);
+    bucket.timer = undefined;
+    this.refill(bucket);
+
+    while (bucket.waiters.length > 0 && Date.now() >= bucket.pausedUntil && bucket.tokens >= 1) {
+      const waiter = bucket.waiters.shift() as ApiXRateLimitWaiter;
+      waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      bucket.tokens -= 1;
+      waiter.resolve();
+    }
+
+    if (bucket.waiters.length === 0) {
+      if (bucket.tokens >= this.capacity && Date.now() >= bucket.pausedUntil) {
+        this.buckets.delete(key);
+      }
+      return;
+    }
+
+    const tokensPerMs = this.policy.limit / this.policy.intervalMs;
+    const delay = Math.max(
+      bucket.pausedUntil - Date.now(),
+      (1 - bucket.tokens) / tokensPerMs
+    );
+    bucket.timer = setTimeout(() => this.drain(key, bucket), Math.min(Math.ceil(delay), maxDelayMs));
+  }
+
+  /**
+   * Reads the reset of `RateLimit` headers when no requests remain. Both the
+   * `RateLimit-Remaining` / `RateLimit-Reset` headers and the combined
+   * `RateLimit` header (`remaining=0, reset=10` or `r=0;t=10`) are supported.
+   */
+  private rateLimitResetMs(headers?: ApiXResponseHeaders): number | undefined {
+    const combined = headers?.get('RateLimit') ?? '';
+    const remaining = headers?.get('RateLimit-Remaining')
+      ?? /(?:^|[\s,;])(?:remaining|r)=(\d+)/.exec(combined)?.[1];
+    const reset = headers?.get('RateLimit-Reset')
+      ?? /(?:^|[\s,;])(?:reset|t)=(\d+)/.exec(combined)?.[1];
+
+    if (remaining === undefined || reset === undefined || Number(remaining) > 0) {
+      return undefined;
+    }
+    const resetSeconds = Number(reset);
+    return Number.isNaN(resetSeconds) ? undefined : resetSeconds * 1000;
+  }
+}
@@ -0,0 +1,182 @@
+import { ApiXRequestAbortedError, ApiXRequestError, ApiXRequestTimeoutError } from '../../error';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXRateLimiter } from '../ApiXRateLimiter';
+import { ApiXResponseHeaders } from '../../headers/ApiXResponseHeaders';
+import { apiXRateLimitKeyByRoute } from '../ApiXRateLimitPolicy';
+
+describe('ApiXRateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Acquires a token and records when it was granted, in milliseconds since the test started.
+   */
+  const acquireAndRecord = (limiter: ApiXRateLimiter, key: string, granted: number[], signal?: AbortSignal) => {
+    const start = new Date('2026-01-01T00:00:00Z').getTime();
+    return limiter.acquire(key, signal).then(() => {
+      granted.push(Date.now() - start);
+    });
+  };
+
+  it('should let a burst through, then space out requests in order', async () => {
+    const limiter = new ApiXRateLimiter({ limit: 2, intervalMs: 1000 });
+    const granted: number[] = [];
+
+    const requests = [1, 2, 3, 4].map(() => acquireAndRecord(limiter, 'apix.example.com', granted));
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all(requests);
+
+    expect(granted).toEqual([0, 0, 500, 1000]);
+  });
+
+  it('should keep buckets independent', async () => {
+    const limiter = new ApiXRateLimiter({ limit: 1, intervalMs: 1000 });
+    const granted: number[] = [];
+
+    await acquireAndRecord(limiter, 'a.example.com', granted);
+    await acquireAndRecord(limiter, 'b.example.com', granted);
+
+    expect(granted).toEqual([0, 0]);
+    expect(limiter.key(new URL('https://a.example.com:8443/users?id=1'), 'GET')).toBe('a.example.com:8443');
+    expect(apiXRateLimitKeyByRoute(new URL('https://a.example.com/users?id=1'), 'POST')).toBe('POST a.example.com/users');
+  });
+
+  it('should stop waiting when the signal is aborted', async () => {
+    const limiter = new ApiXRateLimiter({ limit: 1, intervalMs: 1000 });
+    const abortController = new AbortController();
+    const granted: number[] = [];
+
+    await limiter.acquire('key');
+    const aborted = limiter.acquire('key', abortController.signal);
+    const next = acquireAndRecord(limiter, 'key', granted);
+    abortController.abort();
+
+    await expect(aborted).rejects.toThrow(ApiXRequestAbortedError);
+    await jest.advanceTimersByTimeAsync(1000);
+    await next;
+    expect(granted).toEqual([1000]);
+  });
+
+  it('should pause buckets on Retry-After and RateLimit headers', async () => {
+    const limiter = new ApiXRateLimiter({ limit: 10, intervalMs: 1000 });
+    const granted: number[] = [];
+
+    limiter.update('retry', 503, new ApiXResponseHeaders({ 'retry-after': '2' }));
+    limiter.update('ratelimit', 200, new ApiXResponseHeaders({ 'ratelimit-remaining': '0', 'ratelimit-reset': '3' }));
+    limiter.update('combined', 200, new ApiXResponseHeaders({ ratelimit: 'limit=10, remaining=0, reset=4' }));
+    limiter.update('remaining', 200, new ApiXResponseHeaders({ ratelimit: '"default";r=5;t=4' }));
+
+    const requests = ['retry', 'ratelimit', 'combined', 'remaining']
+      .map(key => acquireAndRecord(limiter, key, granted));
+    await jest.advanceTimersByTimeAsync(4000);
+    await Promise.all(requests);
+
+    expect(granted).toEqual([0, 2000, 3000, 4000]);
+  });
+
+  it.each([
+    { limit: 0, intervalMs: 1000 },
+    { limit: 1, intervalMs: 0 },
+    { limit: Infinity, intervalMs: 1000 },
+    { limit: 1, intervalMs: NaN },
+    { limit: 1, intervalMs: 1000, burst: 0 }
+  ])('should reject the invalid policy %o', policy => {
+    expect(() => new ApiXRateLimiter(policy)).toThrow(ApiXRequestError);
+  });
+
+  it('should cap long pauses without firing timers early', async () => {
+    const limiter = new ApiXRateLimiter({ limit: 1, intervalMs: 1000 });
+    const granted: number[] = [];
+
+    limiter.update('key', 429, new ApiXResponseHeaders({ 'retry-after': '99999999999' }));
+    limiter.pause('key', NaN);
+    const request = acquireAndRecord(limiter, 'key', granted);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(granted).toEqual([]);
+    expect(jest.getTimerCount()).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(2 ** 31 - 1);
+    await request;
+    expect(granted).toEqual([2 ** 31 - 1]);
+  });
+
+  it('should empty the bucket on 429 responses without rate limit headers', async () => {
+    const limiter = new ApiXRateLimiter({ limit: 4, intervalMs: 1000 });
+    const ignoring = new ApiXRateLimiter({ limit: 4, intervalMs: 1000, respectServerLimits: false });
+    const granted: number[] = [];
+
+    limiter.update('key', 429);
+    ignoring.update('key', 429, new ApiXResponseHeaders({ 'retry-after': '10' }));
+
+    const requests = [
+      acquireAndRecord(limiter, 'key', granted),
+      acquireAndRecord(ignoring, 'key', granted)
+    ];
+    await jest.advanceTimersByTimeAsync(250);
+    await Promise.all(requests);
+
+    expect(granted).toEqual([0, 250]);
+  });
+
+  it('should make ApiXClient wait for the bucket, stamping requests when they are sent', async () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue('testAppKey'),
+      getKeys: jest.fn().mockReturnValue({
+        apiKey: 'testApiKey',
+        appKey: 'testAppKey'
+      })
+    };
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', ApiXInMemoryTransport.json(200, { success: true }, { 'retry-after': '5' }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl: 'https://apix.example.com',
+      transport,
+      rateLimit: { limit: 100, intervalMs: 1000 }
+    });
+
+    await client.makeGetRequest('/config');
+    const second = client.makeGetRequest('/config');
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(transport.requests).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await second;
+    expect(transport.requests).toHaveLength(2);
+    expect(transport.requests[1].headers['date']).toBe('Thu, 01 Jan 2026 00:00:05 GMT');
+  });
+
+  it('should count the wait for a token in the timeout of ApiXClient requests', async () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue('testAppKey'),
+      getKeys: jest.fn().mockReturnValue({
+        apiKey: 'testApiKey',
+        appKey: 'testAppKey'
+      })
+    };
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl: 'https://apix.example.com',
+      transport,
+      timeoutMs: 1000,
+      rateLimit: { limit: 1, intervalMs: 60000 }
+    });
+
+    await client.makeGetRequest('/config');
+    const second = client.makeGetRequest('/config');
+    const rejected = expect(second).rejects.toThrow(ApiXRequestTimeoutError);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await rejected;
+    expect(transport.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,2 @@
+export * from './ApiXRateLimitPolicy';
+export * from './ApiXRateLimiter';
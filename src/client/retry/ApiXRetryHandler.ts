@@ -0,0 +1,137 @@
+import { ApiXRequestAbortedError, ApiXRequestError } from '../error/ApiXRequestError';
+import { ApiXRetryPolicy, defaultApiXRetryPolicy } from './ApiXRetryPolicy';
+import { ApiXCircuitOpenError } from '../error/ApiXCircuitOpenError';
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXResponse } from '../types/ApiXResponse';
+import { ApiXResponseError } from '../error/ApiXResponseError';
+import { ApiXResponseHeaders } from '../headers/ApiXResponseHeaders';
+
+/**
+ * An object that runs request attempts according to an `ApiXRetryPolicy`.
+ * 
+ * @category Retrying Requests
+ */
+export class ApiXRetryHandler {
+
+  /**
+   * The policy with all defaults applied.
+   */
+  public readonly policy: Required<ApiXRetryPolicy>;
+
+  /**
+   * Creates a new retry handler.
+   * @param policy The retry policy. Options that are not set use `defaultApiXRetryPolicy`.
+   */
+  public constructor(policy: ApiXRetryPolicy = {}) {
+    this.policy = {
+      ...defaultApiXRetryPolicy,
+      ...policy
+    };
+  }
+
+  /**
+   * Runs `attempt` until it succeeds, fails with a non-retryable error, or the
+   * maximum number of attempts is reached.
+   * @param httpMethod The HTTP method of the request being attempted.
+   * @param attempt A function that creates, signs and sends a _new_ request.
+   * It receives the attempt number, starting at `1`.
+   * @param signal A signal that stops waiting between attempts.
+   * @returns The response of the last attempt.
+   * @throws The error of the last attempt, or `ApiXRequestAbortedError` if
+   * `signal` is aborted while waiting.
+   */
+  public async run<ResponseType extends ApiXResponse>(
+    httpMethod: ApiXHttpMethod,
+    attempt: (attemptNumber: number) => Promise<ResponseType>,
+    signal?: AbortSignal
+  ): Promise<ResponseType> {
+    const maxAttempts = this.policy.retryableMethods.includes(httpMethod)
+      ? Math.max(1, this.policy.maxAttempts)
+      : 1;
+
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      const isLastAttempt = attemptNumber >= maxAttempts;
+      let retryAfterMs: number | undefined;
+      try {
+        const response = await attempt(attemptNumber);
+        if (isLastAttempt || !this.isRetryableResponse(response)) {
+          return response;
+        }
+        retryAfterMs = this.retryAfterMs(response.statusCode, response.headers);
+      } catch (error) {
+        if (isLastAttempt || !this.isRetryableError(error)) {
+          throw error;
+        }
+        if (error instanceof ApiXResponseError) {
+          retryAfterMs = this.retryAfterMs(error.statusCode, error.headers);
+        }
+      }
+      await this.sleep(retryAfterMs ?? this.delayBeforeAttempt(attemptNumber + 1), signal);
+    }
+  }
+
+  /**
+   * Determines whether an error should be retried.
+   * @param error The error thrown by an attempt.
+   * @returns `true` for network failures (including timeouts) and for API-X
+   * errors with a retryable status code or error ID. Cancelled requests, and
+   * requests rejected by an open circuit, are never retried.
+   */
+  public isRetryableError(error: unknown): boolean {
+    if (error instanceof ApiXResponseError) {
+      return this.policy.retryableStatusCodes.includes(error.statusCode)
+        || this.policy.retryableErrorIds.includes(error.id);
+    }
+    return error instanceof ApiXRequestError
+      && !(error instanceof ApiXRequestAbortedError)
+      && !(error instanceof ApiXCircuitOpenError);
+  }
+
+  /**
+   * Determines whether a response that did not throw should be retried.
+   * @param response The response of an attempt.
+   * @returns `true` if the response has a retryable status code.
+   */
+  public isRetryableResponse(response: ApiXResponse): boolean {
+    return this.policy.retryableStatusCodes.includes(response.statusCode);
+  }
+
+  /**
+   * Computes the delay before an attempt using exponential backoff with full jitter.
+   * @param attemptNumber The attempt that is about to be made (`2` for the first retry).
+   * @returns The delay in milliseconds.
+   */
+  public delayBeforeAttempt(attemptNumber: number): number {
+    const exponentialDelay = this.policy.baseDelayMs * Math.pow(2, attemptNumber - 2);
+    return Math.random() * Math.min(this.policy.maxDelayMs, exponentialDelay);
+  }
+
+  /**
+   * Reads the delay that a `429 Too Many Requests` or `503 Service Unavailable`
+   * response asks for with its `Retry-After` header, capped at `maxDelayMs`.
+   */
+  private retryAfterMs(statusCode: number, headers?: ApiXResponseHeaders): number | undefined {
+    if (statusCode !== 429 && statusCode !== 503) {
+      return undefined;
+    }
+    const retryAfterMs = headers?.getRetryAfterMs();
+    return retryAfterMs !== undefined ? Math.min(this.policy.maxDelayMs, retryAfterMs) : undefined;
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new ApiXRequestAbortedError(signal.reason));
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new ApiXRequestAbortedError(signal?.reason));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,66 @@
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+
+/**
+ * An object used to configure how failed requests are retried.
+ * 
+ * Every attempt is made with a fresh request, so each one carries its own
+ * `Date` header, nonce and signature and passes the server's replay protection.
+ * 
+ * @category Retrying Requests
+ */
+export interface ApiXRetryPolicy {
+  /**
+   * The maximum number of attempts, including the first one. Defaults to `3`.
+   */
+  readonly maxAttempts?: number;
+
+  /**
+   * The base delay of the exponential backoff, in milliseconds. Defaults to `100`.
+   * 
+   * The delay before attempt `n + 1` is a random value between zero and
+   * `baseDelayMs * 2^(n - 1)` (full jitter), capped at `maxDelayMs`.
+   */
+  readonly baseDelayMs?: number;
+
+  /**
+   * The maximum delay between two attempts, in milliseconds. Defaults to `10000`.
+   * 
+   * `429` and `503` responses with a `Retry-After` header are retried after
+   * the delay of the header instead of the backoff, capped at this value.
+   */
+  readonly maxDelayMs?: number;
+
+  /**
+   * The HTTP status codes that are retried. Defaults to `408`, `429`, `500`, `502`, `503` and `504`.
+   */
+  readonly retryableStatusCodes?: readonly number[];
+
+  /**
+   * The API-X error IDs (e.g.: `unauthorizedRequest`) that are retried regardless of
+   * their status code. Defaults to none.
+   */
+  readonly retryableErrorIds?: readonly string[];
+
+  /**
+   * The HTTP methods that are retried. Defaults to the idempotent methods:
+   * `GET`, `PUT` and `DELETE`.
+   * 
+   * Add `POST` or `PATCH` only if the endpoints you call can safely handle
+   * the same operation more than once.
+   */
+  readonly retryableMethods?: readonly ApiXHttpMethod[];
+}
+
+/**
+ * The values used for any option that is not set in an `ApiXRetryPolicy`.
+ * 
+ * @category Retrying Requests
+ */
+export const defaultApiXRetryPolicy: Required<ApiXRetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 10000,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryableErrorIds: [],
+  retryableMethods: ['GET', 'PUT', 'DELETE']
+};
@@ -0,0 +1,173 @@
+import { ApiXRequestAbortedError, ApiXRequestError, ApiXResponseError } from '../../error';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXResponseHeaders } from '../../headers/ApiXResponseHeaders';
+import { ApiXRetryHandler } from '../ApiXRetryHandler';
+
+describe('ApiXRetryHandler', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should retry network failures until an attempt succeeds', async () => {
+    const handler = new ApiXRetryHandler({ baseDelayMs: 0 });
+    const attempt = jest.fn()
+      .mockRejectedValueOnce(new ApiXRequestError('Network Error'))
+      .mockResolvedValueOnce({ statusCode: 200, data: { success: true } });
+
+    const response = await handler.run('GET', attempt);
+    expect(response.statusCode).toBe(200);
+    expect(attempt).toHaveBeenCalledTimes(2);
+    expect(attempt).toHaveBeenLastCalledWith(2);
+  });
+
+  it('should stop after the maximum number of attempts and rethrow the last error', async () => {
+    const handler = new ApiXRetryHandler({ maxAttempts: 3, baseDelayMs: 0 });
+    const attempt = jest.fn().mockRejectedValue(new ApiXResponseError('serviceUnavailable', 503));
+
+    await expect(handler.run('GET', attempt)).rejects.toThrow(ApiXResponseError);
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const handler = new ApiXRetryHandler({ baseDelayMs: 0 });
+    const attempt = jest.fn().mockRejectedValue(new ApiXResponseError('invalidRequest', 400));
+
+    await expect(handler.run('GET', attempt)).rejects.toThrow(ApiXResponseError);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry configured error IDs regardless of status code', async () => {
+    const handler = new ApiXRetryHandler({ baseDelayMs: 0, retryableErrorIds: ['lockTimeout'] });
+    const attempt = jest.fn()
+      .mockRejectedValueOnce(new ApiXResponseError('lockTimeout', 409))
+      .mockResolvedValueOnce({ statusCode: 200, data: { success: true } });
+
+    await expect(handler.run('PUT', attempt)).resolves.toEqual({ statusCode: 200, data: { success: true } });
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry responses with retryable status codes and return the last one', async () => {
+    const handler = new ApiXRetryHandler({ maxAttempts: 2, baseDelayMs: 0 });
+    const attempt = jest.fn().mockResolvedValue({ statusCode: 503 });
+
+    await expect(handler.run('DELETE', attempt)).resolves.toEqual({ statusCode: 503 });
+    expect(attempt).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only retry POST requests when opted in', async () => {
+    const attempt = jest.fn().mockRejectedValue(new ApiXRequestError('Network Error'));
+
+    await expect(new ApiXRetryHandler({ baseDelayMs: 0 }).run('POST', attempt)).rejects.toThrow('Network Error');
+    expect(attempt).toHaveBeenCalledTimes(1);
+
+    attempt.mockClear();
+    const optedIn = new ApiXRetryHandler({ baseDelayMs: 0, retryableMethods: ['POST'] });
+    await expect(optedIn.run('POST', attempt)).rejects.toThrow('Network Error');
+    expect(attempt).toHaveBeenCalledTimes(3);
+  });
+
+  it('should compute capped exponential backoff with full jitter', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const handler = new ApiXRetryHandler({ baseDelayMs: 100, maxDelayMs: 300 });
+
+    expect(handler.delayBeforeAttempt(2)).toBe(50);
+    expect(handler.delayBeforeAttempt(3)).toBe(100);
+    expect(handler.delayBeforeAttempt(4)).toBe(150);
+    expect(handler.delayBeforeAttempt(10)).toBe(150);
+  });
+
+  it('should wait for Retry-After on 429 and 503 responses, capped at maxDelayMs', async () => {
+    jest.useFakeTimers();
+    try {
+      const handler = new ApiXRetryHandler({ maxAttempts: 4, baseDelayMs: 0, maxDelayMs: 5000 });
+      const attempt = jest.fn()
+        .mockResolvedValueOnce({ statusCode: 429, headers: new ApiXResponseHeaders({ 'Retry-After': '2' }) })
+        .mockRejectedValueOnce(new ApiXResponseError('serviceUnavailable', 503, undefined, {
+          headers: new ApiXResponseHeaders({ 'Retry-After': '60' })
+        }))
+        .mockResolvedValueOnce({ statusCode: 200 });
+
+      const response = handler.run('GET', attempt);
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(attempt).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(attempt).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(attempt).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(1);
+
+      await expect(response).resolves.toEqual({ statusCode: 200 });
+      expect(attempt).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should stop waiting between attempts when the signal is aborted', async () => {
+    const handler = new ApiXRetryHandler({ baseDelayMs: 60000 });
+    const abortController = new AbortController();
+    const attempt = jest.fn().mockRejectedValue(new ApiXRequestError('Network Error'));
+
+    const response = handler.run('GET', attempt, abortController.signal);
+    await Promise.resolve();
+    abortController.abort();
+
+    await expect(response).rejects.toThrow(ApiXRequestAbortedError);
+    expect(attempt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sign every attempt made by ApiXClient with a new nonce', async () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue('testAppKey'),
+      getKeys: jest.fn().mockReturnValue({
+        apiKey: 'testApiKey',
+        appKey: 'testAppKey'
+      })
+    };
+    let calls = 0;
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', () => ++calls < 3
+        ? ApiXInMemoryTransport.json(503, { success: false, error: { id: 'unavailable', message: 'Try again' } })
+        : ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, { transport, retry: { baseDelayMs: 0 } });
+
+    const response = await client.makeGetRequest(new URL('https://apix.example.com/config'));
+
+    expect(response.statusCode).toBe(200);
+    expect(transport.requests).toHaveLength(3);
+    const nonces = new Set(transport.requests.map(request => request.headers['x-signature-nonce']));
+    const signatures = new Set(transport.requests.map(request => request.headers['x-signature']));
+    expect(nonces.size).toBe(3);
+    expect(signatures.size).toBe(3);
+  });
+
+  it('should retry a gateway error without an API-X body when a validator is set', async () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue('testAppKey'),
+      getKeys: jest.fn().mockReturnValue({
+        apiKey: 'testApiKey',
+        appKey: 'testAppKey'
+      })
+    };
+    let calls = 0;
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/config', () => ++calls < 2
+        ? { status: 503, headers: { 'content-type': 'text/html' }, body: '<html>Service Unavailable</html>' }
+        : ApiXInMemoryTransport.json(200, { success: true, version: 2 }));
+    const client = new ApiXClient(keyStore, { transport, retry: { baseDelayMs: 0 } });
+    const validator = (data: unknown) => {
+      if (typeof (data as { version?: unknown })?.version !== 'number') {
+        throw new Error('version must be a number');
+      }
+      return data as { success: boolean; version: number };
+    };
+
+    const response = await client.makeGetRequest(new URL('https://apix.example.com/config'), { validator });
+
+    expect(response.data?.version).toBe(2);
+    expect(transport.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,2 @@
+export * from './ApiXRetryPolicy';
+export * from './ApiXRetryHandler';
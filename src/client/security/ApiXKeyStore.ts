@@ -1,3 +1,4 @@
+import { ApiXSignatureKey } from '../signing/ApiXSignatureScheme';
 
 /**
  * An interface that defines the keys used in the API-X key store.
@@ -10,8 +11,11 @@ export interface ApiXKeys {
 
   /**
    * The application key for the API.
+   * 
+   * It is only used to sign requests with HMAC-SHA256, and can be left out by
+   * a key store that implements `getSigningKey`.
    */
-  readonly appKey: string;
+  readonly appKey?: string;
 }
 
 /**
@@ -32,4 +36,13 @@ export interface ApiXKeyStore {
    * Retrieves both API and application keys as an object.
    */
   getKeys(): ApiXKeys | Promise<ApiXKeys>;
+
+  /**
+   * Retrieves the key with which requests are signed, and its scheme.
+   * 
+   * If this is not implemented, requests are signed with HMAC-SHA256 and the
+   * application key. A key store for an asymmetric scheme, such as Ed25519,
+   * only holds the private key, and its application key is not used.
+   */
+  getSigningKey?(): ApiXSignatureKey | Promise<ApiXSignatureKey>;
 };
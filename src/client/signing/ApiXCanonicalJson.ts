@@ -0,0 +1,120 @@
+import { ApiXJsonObject } from '../types/ApiXJsonObject';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+
+/**
+ * How the JSON body of a request is canonicalized before it is signed.
+ * 
+ * - `legacy`: the keys of nested objects are sorted, but objects inside
+ *   arrays are left as they are, and an empty object is signed as no body.
+ *   This is what servers that predate canonicalization versions expect.
+ * - `jcs`: the body is serialized as in RFC 8785 (JSON Canonicalization
+ *   Scheme): the keys of every object, including those inside arrays, are
+ *   sorted by UTF-16 code units, numbers are formatted as in ECMAScript, and
+ *   strings only escape the characters JSON requires. An empty object is
+ *   signed as `{}`.
+ * 
+ * The version is sent in the `X-Signature-Canonicalization` header, except
+ * for `legacy`.
+ * 
+ * @category Signing Requests
+ */
+export type ApiXCanonicalizationVersion = 'legacy' | 'jcs';
+
+/**
+ * The canonicalization version that is used when none is set.
+ * 
+ * @category Signing Requests
+ */
+export const defaultApiXCanonicalizationVersion: ApiXCanonicalizationVersion = 'legacy';
+
+/**
+ * Sorts all the keys in an object recursively, as they are signed.
+ * @param obj The object whose key are to be sorted.
+ * @returns The object with its keys recursively sorted.
+ * 
+ * @category Signing Requests
+ */
+export const sortedApiXObjectKeys = (obj: ApiXJsonObject): ApiXJsonObject => {
+  const sortedObj: ApiXJsonObject = {};
+  Object.keys(obj).sort().forEach(key => {
+    const value = obj[key];
+    sortedObj[key] = value !== null && typeof value === 'object' && !Array.isArray(value) && !hasToJSON(value)
+      ? sortedApiXObjectKeys(value as ApiXJsonObject)
+      : value;
+  });
+  return sortedObj;
+};
+
+/**
+ * Determines whether a value is serialized by its `toJSON` method, like a `Date`.
+ */
+const hasToJSON = (value: unknown): value is { toJSON: (key: string) => unknown } => (
+  value !== null && typeof value === 'object' && typeof (value as { toJSON?: unknown }).toJSON === 'function'
+);
+
+/**
+ * Determines whether `JSON.stringify` leaves a value out of objects, and
+ * writes it as `null` in arrays.
+ */
+const isOmittedFromJson = (value: unknown): boolean => (
+  value === undefined || typeof value === 'function' || typeof value === 'symbol'
+);
+
+/**
+ * Serializes a JSON value in the canonical form of RFC 8785 (JSON
+ * Canonicalization Scheme), as it is signed with the `jcs` canonicalization version.
+ * 
+ * Values are converted as with `JSON.stringify`, so that the signed body is
+ * the body that is sent: objects with a `toJSON` method, like a `Date`, are
+ * serialized as the value it returns, object members whose value is
+ * `undefined`, a function or a symbol are omitted, and such array items are
+ * serialized as `null`.
+ * @param value The JSON value to serialize.
+ * @returns The canonical JSON.
+ * @throws `ApiXRequestError` if the value contains a number that is not
+ * finite, or a value that cannot be represented in JSON.
+ * 
+ * @category Signing Requests
+ */
+export const canonicalApiXJson = (value: unknown): string => canonicalJson(jsonValue(value, ''));
+
+/**
+ * Converts a value with its `toJSON` method, like `JSON.stringify` does.
+ */
+const jsonValue = (value: unknown, key: string): unknown => (
+  hasToJSON(value) ? value.toJSON(key) : value
+);
+
+/**
+ * Serializes a value whose `toJSON` method, if any, was already called.
+ */
+const canonicalJson = (value: unknown): string => {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    // `JSON.stringify` escapes strings as RFC 8785 requires.
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!isFinite(value)) {
+      throw new ApiXRequestError(`Cannot canonicalize the number ${value} as JSON.`);
+    }
+    // ECMAScript number formatting, which RFC 8785 uses (e.g. `-0` is `0` and `1e21` stays `1e+21`).
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    const items = value.map((item, index) => {
+      const itemValue = jsonValue(item, String(index));
+      return isOmittedFromJson(itemValue) ? 'null' : canonicalJson(itemValue);
+    });
+    return `[${items.join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const members = Object.keys(obj)
+      .sort()
+      .map(key => [key, jsonValue(obj[key], key)] as const)
+      .filter(([, memberValue]) => !isOmittedFromJson(memberValue))
+      .map(([key, memberValue]) => `${JSON.stringify(key)}:${canonicalJson(memberValue)}`);
+    return `{${members.join(',')}}`;
+  }
+  throw new ApiXRequestError(`Cannot canonicalize a value of type ${typeof value} as JSON.`);
+};
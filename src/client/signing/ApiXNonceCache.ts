@@ -0,0 +1,50 @@
+/**
+ * Remembers the nonces of verified requests, so that an `ApiXVerifier` can
+ * reject replayed requests.
+ * 
+ * Use a shared store (e.g. Redis) when several processes verify requests.
+ * 
+ * @category Verifying Requests
+ */
+export interface ApiXNonceCache {
+  /**
+   * Stores a nonce until it expires.
+   * @param nonce The nonce, prefixed with the API key of the request.
+   * @param expiresAt When the nonce can be forgotten, in milliseconds since the epoch.
+   * @returns `false` if the nonce was already stored and has not expired, and
+   * `true` otherwise.
+   */
+  add(nonce: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+/**
+ * Remembers nonces in memory.
+ * 
+ * @category Verifying Requests
+ */
+export class ApiXMemoryNonceCache implements ApiXNonceCache {
+
+  private readonly nonces = new Map<string, number>();
+
+  /**
+   * The number of nonces stored, including expired nonces that have not been removed yet.
+   */
+  public get size(): number {
+    return this.nonces.size;
+  }
+
+  public add(nonce: string, expiresAt: number): boolean {
+    const now = Date.now();
+    this.nonces.forEach((nonceExpiresAt, storedNonce) => {
+      if (nonceExpiresAt <= now) {
+        this.nonces.delete(storedNonce);
+      }
+    });
+
+    if (this.nonces.has(nonce)) {
+      return false;
+    }
+    this.nonces.set(nonce, expiresAt);
+    return true;
+  }
+}
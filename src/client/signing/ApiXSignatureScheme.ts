@@ -0,0 +1,136 @@
+import {
+  createHmac,
+  sign,
+  timingSafeEqual,
+  verify
+} from 'crypto';
+
+/**
+ * An algorithm with which requests are signed and verified.
+ * 
+ * Its `algorithm` is sent in the `X-Signature-Algorithm` header, so that
+ * servers can accept several schemes.
+ * 
+ * @category Signing Requests
+ */
+export interface ApiXSignatureScheme {
+  /**
+   * The name of the algorithm, as sent in `X-Signature-Algorithm`.
+   */
+  readonly algorithm: string;
+
+  /**
+   * Signs a signing string.
+   * @param signingString The string to sign (see `ApiXSigner.signingString`).
+   * @param key The secret key, or the PEM private key of an asymmetric scheme.
+   * @returns The hex signature, as sent in `X-Signature`.
+   */
+  sign(signingString: string, key: string): string;
+
+  /**
+   * Verifies the signature of a signing string.
+   * @param signingString The string that was signed.
+   * @param signature The hex signature received in `X-Signature`.
+   * @param key The secret key, or the PEM public key of an asymmetric scheme.
+   * @returns Whether the signature is valid.
+   */
+  verify(signingString: string, signature: string, key: string): boolean;
+}
+
+/**
+ * A key and the scheme it is used with.
+ * 
+ * For HMAC schemes, the key is the application key, which both the client and
+ * the server hold. For asymmetric schemes, the client holds the PEM private
+ * key and the server the PEM public key.
+ * 
+ * @category Signing Requests
+ */
+export interface ApiXSignatureKey {
+  readonly scheme: ApiXSignatureScheme;
+  readonly key: string;
+}
+
+/**
+ * Creates an HMAC signature scheme.
+ * @param algorithm The name of the scheme.
+ * @param hash The hash function of the HMAC.
+ * @returns The signature scheme.
+ */
+function hmacSignatureScheme(algorithm: string, hash: string): ApiXSignatureScheme {
+  const hmac = (signingString: string, key: string) => createHmac(hash, key)
+    .update(signingString, 'utf-8')
+    .digest()
+    .toString('hex');
+
+  return {
+    algorithm,
+    sign: hmac,
+    verify: (signingString, signature, key) => {
+      const actual = Buffer.from(signature, 'utf-8');
+      const expected = Buffer.from(hmac(signingString, key), 'utf-8');
+      return actual.length === expected.length && timingSafeEqual(actual, expected);
+    }
+  };
+}
+
+/**
+ * Creates an asymmetric signature scheme, which signs with a private key and
+ * verifies with the matching public key.
+ * @param algorithm The name of the scheme.
+ * @param hash The hash function, or `null` for algorithms with a built-in hash (Ed25519).
+ * @returns The signature scheme.
+ */
+function asymmetricSignatureScheme(algorithm: string, hash: string | null): ApiXSignatureScheme {
+  return {
+    algorithm,
+    sign: (signingString, key) => sign(
+      hash,
+      Buffer.from(signingString, 'utf-8'),
+      { key, dsaEncoding: 'ieee-p1363' }
+    ).toString('hex'),
+    verify: (signingString, signature, key) => {
+      try {
+        return verify(
+          hash,
+          Buffer.from(signingString, 'utf-8'),
+          { key, dsaEncoding: 'ieee-p1363' },
+          Buffer.from(signature, 'hex')
+        );
+      } catch {
+        return false;
+      }
+    }
+  };
+}
+
+/**
+ * HMAC-SHA256 with the application key. This is the default scheme, with
+ * which requests are signed when no other scheme is set, and which servers
+ * assume when `X-Signature-Algorithm` is missing.
+ * 
+ * @category Signing Requests
+ */
+export const apiXHmacSha256Signature = hmacSignatureScheme('hmac-sha256', 'sha256');
+
+/**
+ * HMAC-SHA512 with the application key.
+ * 
+ * @category Signing Requests
+ */
+export const apiXHmacSha512Signature = hmacSignatureScheme('hmac-sha512', 'sha512');
+
+/**
+ * Ed25519, with a PEM private key on the client and its public key on the server.
+ * 
+ * @category Signing Requests
+ */
+export const apiXEd25519Signature = asymmetricSignatureScheme('ed25519', null);
+
+/**
+ * ECDSA on the P-256 curve with SHA-256, with a PEM private key on the client
+ * and its public key on the server.
+ * 
+ * @category Signing Requests
+ */
+export const apiXEcdsaP256Signature = asymmetricSignatureScheme('ecdsa-p256-sha256', 'sha256');
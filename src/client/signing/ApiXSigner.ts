@@ -0,0 +1,324 @@
+import {
+  ApiXCanonicalizationVersion,
+  canonicalApiXJson,
+  defaultApiXCanonicalizationVersion,
+  sortedApiXObjectKeys
+} from './ApiXCanonicalJson';
+import {
+  ApiXSignatureKey,
+  apiXHmacSha256Signature
+} from './ApiXSignatureScheme';
+import { ApiXClock } from '../clock/ApiXClock';
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXJsonObject } from '../types/ApiXJsonObject';
+import { ApiXKeyStore } from '../security/ApiXKeyStore';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+import { canonicalizeApiXUrl } from '../url/ApiXCanonicalQuery';
+import { digestApiXRequestBody } from '../body/ApiXRequestBodyEncoder';
+import { randomBytes } from 'crypto';
+
+/**
+ * The parts of a request that are covered by its signature.
+ * 
+ * @category Signing Requests
+ */
+export interface ApiXSignatureInput {
+  /**
+   * The HTTP method of the request.
+   */
+  readonly httpMethod: ApiXHttpMethod;
+
+  /**
+   * The URL of the request. Its pathname and query are signed as they are, so
+   * the query must be in the canonical form in which it is sent.
+   */
+  readonly url: URL;
+
+  /**
+   * The value of the `Date` header of the request.
+   */
+  readonly date: string;
+
+  /**
+   * The value of the `X-Signature-Nonce` header of the request.
+   */
+  readonly nonce: string;
+
+  /**
+   * The JSON body of the request, if any.
+   */
+  readonly data?: ApiXJsonObject;
+
+  /**
+   * The base64 SHA-256 digest of a non-JSON body, if any. It is signed instead
+   * of `data`.
+   */
+  readonly bodyDigest?: string;
+
+  /**
+   * How `data` is canonicalized. Defaults to `legacy`.
+   */
+  readonly canonicalization?: ApiXCanonicalizationVersion;
+}
+
+/**
+ * A request to sign with `ApiXSigner.sign`.
+ * 
+ * @category Signing Requests
+ */
+export interface ApiXSignerRequest {
+  /**
+   * The HTTP method of the request.
+   */
+  readonly httpMethod: ApiXHttpMethod;
+
+  /**
+   * The URL of the request.
+   */
+  readonly url: URL | string;
+
+  /**
+   * The JSON body of the request, if any.
+   */
+  readonly data?: ApiXJsonObject;
+
+  /**
+   * The raw bytes of a non-JSON body, if any.
+   */
+  readonly body?: Uint8Array | string;
+
+  /**
+   * The date of the request. Defaults to the time of the signer's clock, or now.
+   */
+  readonly date?: Date;
+
+  /**
+   * The nonce of the request. Defaults to a random nonce.
+   */
+  readonly nonce?: string;
+}
+
+/**
+ * An object used to configure an `ApiXSigner`.
+ * 
+ * @category Signing Requests
+ */
+export interface ApiXSignerOptions {
+  /**
+   * How the JSON body of signed requests is canonicalized. Defaults to `legacy`.
+   */
+  readonly canonicalization?: ApiXCanonicalizationVersion;
+
+  /**
+   * The clock that stamps the `Date` of requests, to compensate the skew
+   * between the local clock and the server's, e.g. `client.clock`. Defaults
+   * to the local clock.
+   */
+  readonly clock?: ApiXClock;
+}
+
+/**
+ * A signed request returned by `ApiXSigner.sign`.
+ * 
+ * @category Signing Requests
+ */
+export interface ApiXSignedRequest {
+  /**
+   * The URL to send the request to, with its query in canonical form.
+   */
+  readonly url: URL;
+
+  /**
+   * The headers to send with the request: `X-API-Key`, `X-Signature`,
+   * `X-Signature-Nonce`, `Date`, `X-Signature-Algorithm` unless the scheme is
+   * HMAC-SHA256, `X-Signature-Canonicalization` unless the canonicalization
+   * is `legacy` and, for a non-JSON body, `Content-Digest`.
+   */
+  readonly headers: Record<string, string>;
+}
+
+/**
+ * Signs API-X requests, so that requests made with any HTTP stack (e.g. a
+ * proxy or a load-testing tool) pass the server's authentication.
+ * 
+ * ```typescript
+ * const signer = new ApiXSigner(keyStore);
+ * const { url, headers } = await signer.sign({ httpMethod: 'POST', url: 'https://apix.example.com/users', data });
+ * await fetch(url, { method: 'POST', headers: { ...headers, 'Content-Type': 'application/json' }, body: JSON.stringify(data) });
+ * ```
+ * 
+ * Signed headers are secrets that are only valid once: send them right away
+ * and do not log them.
+ * 
+ * @category Signing Requests
+ */
+export class ApiXSigner {
+
+  /**
+   * Creates a new signer.
+   * @param keyStore An object that securely retrieves API keys.
+   * @param options The canonicalization version and clock of the signer.
+   */
+  public constructor(
+    private readonly keyStore: ApiXKeyStore,
+    private readonly options: ApiXSignerOptions = {}
+  ) {}
+
+  /**
+   * Signs a request.
+   * @param request The method, URL, body, and optionally the date and nonce of the request.
+   * @returns The canonical URL of the request and its signed headers.
+   */
+  public async sign(request: ApiXSignerRequest): Promise<ApiXSignedRequest> {
+    const keys = await this.keyStore.getKeys();
+    const signingKey = await ApiXSigner.signingKey(this.keyStore, keys.appKey);
+    const url = canonicalizeApiXUrl(typeof request.url === 'string' ? new URL(request.url) : request.url);
+    const date = (request.date ?? this.options.clock?.now() ?? new Date()).toUTCString();
+    const nonce = request.nonce ?? ApiXSigner.createNonce();
+    const bodyDigest = request.body !== undefined
+      ? digestApiXRequestBody(typeof request.body === 'string' ? Buffer.from(request.body, 'utf-8') : request.body)
+      : undefined;
+
+    const headers: Record<string, string> = {
+      'x-api-key': keys.apiKey,
+      'x-signature': ApiXSigner.createSignature(signingKey, {
+        httpMethod: request.httpMethod,
+        url,
+        date,
+        nonce,
+        data: request.data,
+        bodyDigest,
+        canonicalization: this.options.canonicalization
+      }),
+      'x-signature-nonce': nonce,
+      date
+    };
+    const algorithm = ApiXSigner.algorithmHeader(signingKey);
+    if (algorithm !== undefined) {
+      headers['x-signature-algorithm'] = algorithm;
+    }
+    const canonicalization = ApiXSigner.canonicalizationHeader(this.options.canonicalization);
+    if (canonicalization !== undefined) {
+      headers['x-signature-canonicalization'] = canonicalization;
+    }
+    if (bodyDigest !== undefined) {
+      headers['content-digest'] = `sha-256=:${bodyDigest}:`;
+    }
+    return { url, headers };
+  }
+
+  /**
+   * Creates a random nonce.
+   * @param length The number of characters of the nonce.
+   * @returns An alphanumeric nonce.
+   */
+  public static createNonce(length: number = 32): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    const bytes = randomBytes(length);
+    let nonce = '';
+    for (let i = 0; i < bytes.length; i++) {
+      const randomIndex = bytes[i] % characters.length;
+      nonce += characters[randomIndex];
+    }
+    return nonce;
+  }
+
+  /**
+   * Returns the string that is signed for a request:
+   * `{pathname}{search}.{method}.{nonce}.{date}.{body}`, where the body is the
+   * base64 canonical JSON of `data`, or the digest of a non-JSON body.
+   * @param input The signed parts of the request.
+   * @returns The string to sign.
+   */
+  public static signingString(input: ApiXSignatureInput): string {
+    const stringifiedJsonBody = ApiXSigner.canonicalJsonBody(input.data, input.canonicalization);
+    const httpBodyBase64 = input.bodyDigest ?? (stringifiedJsonBody.length > 0
+      ? Buffer.from(stringifiedJsonBody, 'utf-8').toString('base64')
+      : '');
+    const pathWithQueries = `${input.url.pathname}${input.url.search}`;
+    return `${pathWithQueries}.${input.httpMethod}.${input.nonce}.${input.date}.${httpBodyBase64}`;
+  }
+
+  /**
+   * Returns the value of the `X-Signature-Canonicalization` header of a
+   * canonicalization version.
+   * 
+   * The header is not sent for `legacy`, so that requests to servers that
+   * predate the header are unchanged.
+   * @param version The canonicalization version. Defaults to `legacy`.
+   * @returns The version, or `undefined` for `legacy`.
+   */
+  public static canonicalizationHeader(
+    version: ApiXCanonicalizationVersion = defaultApiXCanonicalizationVersion
+  ): string | undefined {
+    return version !== 'legacy' ? version : undefined;
+  }
+
+  /**
+   * Creates the signature of a request.
+   * @param key The application key, which signs with HMAC-SHA256, or a key
+   * and its signature scheme.
+   * @param input The signed parts of the request.
+   * @returns The hex signature, as sent in `X-Signature`.
+   */
+  public static createSignature(key: string | ApiXSignatureKey, input: ApiXSignatureInput): string {
+    const signatureKey = typeof key === 'string'
+      ? { scheme: apiXHmacSha256Signature, key }
+      : key;
+    return signatureKey.scheme.sign(ApiXSigner.signingString(input), signatureKey.key);
+  }
+
+  /**
+   * Returns the key with which a key store signs requests.
+   * @param keyStore The key store.
+   * @param appKey The application key of the key store, used with HMAC-SHA256
+   * if the key store has no signing key.
+   * @returns The signing key and its scheme.
+   * @throws `ApiXRequestError` if the key store has neither a signing key nor
+   * an application key.
+   */
+  public static async signingKey(keyStore: ApiXKeyStore, appKey?: string): Promise<ApiXSignatureKey> {
+    const signingKey = await keyStore.getSigningKey?.();
+    if (signingKey) {
+      return signingKey;
+    }
+    if (appKey === undefined) {
+      throw new ApiXRequestError('The key store has neither a signing key nor an application key.');
+    }
+    return { scheme: apiXHmacSha256Signature, key: appKey };
+  }
+
+  /**
+   * Returns the value of the `X-Signature-Algorithm` header of a signing key.
+   * 
+   * The header is not sent for HMAC-SHA256, so that requests to servers that
+   * predate the header are unchanged.
+   * @param key The signing key.
+   * @returns The name of its algorithm, or `undefined` for HMAC-SHA256.
+   */
+  public static algorithmHeader(key: ApiXSignatureKey): string | undefined {
+    return key.scheme.algorithm !== apiXHmacSha256Signature.algorithm
+      ? key.scheme.algorithm
+      : undefined;
+  }
+
+  //// Helper Methods ////
+  /**
+   * Serializes the JSON body of a request as it is signed.
+   * @param data The JSON body, if any.
+   * @param version The canonicalization version.
+   * @returns The canonical JSON, or an empty string if nothing is signed for the body.
+   */
+  private static canonicalJsonBody(
+    data: ApiXJsonObject | undefined,
+    version: ApiXCanonicalizationVersion = defaultApiXCanonicalizationVersion
+  ): string {
+    if (version === 'jcs') {
+      return data !== undefined ? canonicalApiXJson(data) : '';
+    }
+    const httpBody = data ?? {};
+    return Object.keys(httpBody).length > 0
+      ? JSON.stringify(sortedApiXObjectKeys(httpBody))
+      : '';
+  }
+}
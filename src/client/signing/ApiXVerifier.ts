@@ -0,0 +1,226 @@
+import { ApiXCanonicalizationVersion, defaultApiXCanonicalizationVersion } from './ApiXCanonicalJson';
+import { ApiXMemoryNonceCache, ApiXNonceCache } from './ApiXNonceCache';
+import { ApiXSignatureKey, apiXHmacSha256Signature } from './ApiXSignatureScheme';
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXJsonObject } from '../types/ApiXJsonObject';
+import { ApiXSigner } from './ApiXSigner';
+import { canonicalizeApiXUrl } from '../url/ApiXCanonicalQuery';
+import { digestApiXRequestBody } from '../body/ApiXRequestBodyEncoder';
+
+/**
+ * A request received by a server, to verify with an `ApiXVerifier`.
+ * 
+ * @category Verifying Requests
+ */
+export interface ApiXVerifierRequest {
+  /**
+   * The HTTP method of the request.
+   */
+  readonly method: string;
+
+  /**
+   * The URL of the request, or its path and query (e.g.: `/users?page=2`).
+   */
+  readonly url: URL | string;
+
+  /**
+   * The headers of the request. Names are case-insensitive, and the first
+   * value of a repeated header is used, so Node's `IncomingHttpHeaders` can be
+   * passed as they are.
+   */
+  readonly headers: Readonly<Record<string, string | readonly string[] | undefined>>;
+
+  /**
+   * The raw body of the request, if any.
+   */
+  readonly body?: Uint8Array | string;
+}
+
+/**
+ * The API-X error IDs with which a request can fail verification.
+ * 
+ * @category Verifying Requests
+ */
+export type ApiXVerificationErrorId =
+  | 'missingRequiredHeaders'
+  | 'unauthorizedApp'
+  | 'unauthorizedRequest'
+  | 'invalidJsonBody';
+
+/**
+ * The outcome of `ApiXVerifier.verify`.
+ * 
+ * @category Verifying Requests
+ */
+export type ApiXVerificationResult =
+  | { readonly valid: true; readonly apiKey: string; readonly nonce: string; readonly date: Date }
+  | { readonly valid: false; readonly errorId: ApiXVerificationErrorId; readonly message: string };
+
+/**
+ * An object used to configure an `ApiXVerifier`.
+ * 
+ * @category Verifying Requests
+ */
+export interface ApiXVerifierOptions {
+  /**
+   * How far the `Date` of a request can be from the current time, in the past
+   * or in the future, in milliseconds. Defaults to `60000`.
+   */
+  readonly maxAgeMs?: number;
+
+  /**
+   * Where the nonces of verified requests are remembered. Defaults to an
+   * `ApiXMemoryNonceCache`.
+   */
+  readonly nonceCache?: ApiXNonceCache;
+}
+
+/**
+ * Returns the application key of an API key, which verifies HMAC-SHA256
+ * signatures, or the key and signature scheme with which its requests are
+ * verified (e.g. an Ed25519 public key). Returns `undefined` if the API key is
+ * unknown.
+ * 
+ * @category Verifying Requests
+ */
+export type ApiXAppKeyLookup = (apiKey: string) =>
+  | string
+  | ApiXSignatureKey
+  | undefined
+  | Promise<string | ApiXSignatureKey | undefined>;
+
+/**
+ * The canonicalization versions that a verifier supports.
+ */
+const apiXCanonicalizationVersions: readonly string[] = ['legacy', 'jcs'];
+
+/**
+ * Verifies the signature, date and nonce of requests received by an API-X
+ * server, with the same algorithm as `ApiXSigner`.
+ * 
+ * The scheme advertised in `X-Signature-Algorithm`, or HMAC-SHA256 if it is
+ * missing, must be the scheme of the API key's verification key. The body is
+ * canonicalized with the version advertised in `X-Signature-Canonicalization`,
+ * or `legacy` if it is missing.
+ * 
+ * ```typescript
+ * const verifier = new ApiXVerifier(apiKey => appKeys.get(apiKey));
+ * const result = await verifier.verify({ method: req.method, url: req.url, headers: req.headers, body });
+ * if (!result.valid) {
+ *   res.status(401).json({ success: false, error: { id: result.errorId, message: result.message } });
+ * }
+ * ```
+ * 
+ * @category Verifying Requests
+ */
+export class ApiXVerifier {
+
+  private readonly maxAgeMs: number;
+
+  private readonly nonceCache: ApiXNonceCache;
+
+  /**
+   * Creates a new verifier.
+   * @param appKeyForApiKey Returns the application key, or verification key, of an API key.
+   * @param options The date window and nonce cache of the verifier.
+   */
+  public constructor(
+    private readonly appKeyForApiKey: ApiXAppKeyLookup,
+    options: ApiXVerifierOptions = {}
+  ) {
+    this.maxAgeMs = options.maxAgeMs ?? 60000;
+    this.nonceCache = options.nonceCache ?? new ApiXMemoryNonceCache();
+  }
+
+  /**
+   * Verifies a request.
+   * 
+   * The nonce is only remembered once the signature and date are valid, so
+   * invalid requests cannot fill the nonce cache.
+   * @param request The method, URL, headers and raw body of the request.
+   * @returns The API key, nonce and date of a valid request, or the API-X
+   * error ID with which an invalid request should be rejected.
+   */
+  public async verify(request: ApiXVerifierRequest): Promise<ApiXVerificationResult> {
+    const apiKey = this.header(request, 'x-api-key');
+    const signature = this.header(request, 'x-signature');
+    const nonce = this.header(request, 'x-signature-nonce');
+    const date = this.header(request, 'date');
+    if (!apiKey || !signature || !nonce || !date) {
+      return this.invalid('missingRequiredHeaders', 'The X-API-Key, X-Signature, X-Signature-Nonce and Date headers are required.');
+    }
+
+    const appKey = await this.appKeyForApiKey(apiKey);
+    if (appKey === undefined) {
+      return this.invalid('unauthorizedApp', 'The API key is not valid.');
+    }
+    const key = typeof appKey === 'string' ? { scheme: apiXHmacSha256Signature, key: appKey } : appKey;
+    const algorithm = this.header(request, 'x-signature-algorithm') ?? apiXHmacSha256Signature.algorithm;
+    if (algorithm !== key.scheme.algorithm) {
+      return this.invalid('unauthorizedRequest', `The ${algorithm} signature algorithm is not accepted for this API key.`);
+    }
+    const canonicalization = this.header(request, 'x-signature-canonicalization') ?? defaultApiXCanonicalizationVersion;
+    if (!apiXCanonicalizationVersions.includes(canonicalization)) {
+      return this.invalid('unauthorizedRequest', `The ${canonicalization} canonicalization version is not supported.`);
+    }
+
+    const time = new Date(date).getTime();
+    if (isNaN(time) || Math.abs(Date.now() - time) > this.maxAgeMs) {
+      return this.invalid('unauthorizedRequest', 'The request date is invalid or outside of the allowed window.');
+    }
+
+    const body = typeof request.body === 'string' ? Buffer.from(request.body, 'utf-8') : request.body;
+    const contentDigest = this.header(request, 'content-digest');
+    let bodyDigest: string | undefined;
+    let data: ApiXJsonObject | undefined;
+    if (contentDigest !== undefined) {
+      bodyDigest = /^sha-256=:([A-Za-z0-9+/=]*):$/.exec(contentDigest)?.[1];
+      if (bodyDigest === undefined || bodyDigest !== digestApiXRequestBody(body ?? new Uint8Array())) {
+        return this.invalid('unauthorizedRequest', 'The Content-Digest header does not match the body.');
+      }
+    } else if (body !== undefined && body.length > 0) {
+      try {
+        data = JSON.parse(Buffer.from(body).toString('utf-8'));
+      } catch {
+        return this.invalid('invalidJsonBody', 'The request body is not valid JSON.');
+      }
+    }
+
+    // The query is signed in canonical form, so a proxy may reorder or re-encode it.
+    let url: URL;
+    try {
+      url = canonicalizeApiXUrl(typeof request.url === 'string' ? new URL(request.url, 'http://localhost') : request.url);
+    } catch {
+      return this.invalid('unauthorizedRequest', 'The request query string is not valid.');
+    }
+    const signingString = ApiXSigner.signingString({
+      httpMethod: request.method.toUpperCase() as ApiXHttpMethod,
+      url,
+      date,
+      nonce,
+      data,
+      bodyDigest,
+      canonicalization: canonicalization as ApiXCanonicalizationVersion
+    });
+    if (!key.scheme.verify(signingString, signature, key.key)) {
+      return this.invalid('unauthorizedRequest', 'The request signature is not valid.');
+    }
+
+    if (!await this.nonceCache.add(`${apiKey}:${nonce}`, time + this.maxAgeMs)) {
+      return this.invalid('unauthorizedRequest', 'The request nonce has already been used.');
+    }
+
+    return { valid: true, apiKey, nonce, date: new Date(time) };
+  }
+
+  //// Helper Methods ////
+  private header(request: ApiXVerifierRequest, name: string): string | undefined {
+    const entry = Object.entries(request.headers).find(([headerName]) => headerName.toLowerCase() === name);
+    const value = entry?.[1];
+    return typeof value === 'string' ? value : value?.[0];
+  }
+
+  private invalid(errorId: ApiXVerificationErrorId, message: string): ApiXVerificationResult {
+    return { valid: false, errorId, message };
+  }
+}
@@ -0,0 +1,133 @@
+import {
+  canonicalApiXJson,
+  sortedApiXObjectKeys
+} from '../ApiXCanonicalJson';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXRequestError } from '../../error';
+import { ApiXSigner } from '../ApiXSigner';
+import { ApiXVerifier } from '../ApiXVerifier';
+
+describe('ApiXCanonicalJson', () => {
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const input = {
+    httpMethod: 'POST' as const,
+    url: new URL('https://apix.example.com/orders'),
+    date: 'Thu, 01 Jan 2026 00:00:00 GMT',
+    nonce: 'abc'
+  };
+
+  it('should sort the keys of objects inside arrays', () => {
+    const data = { items: [{ b: 1, a: 2 }], z: { y: [[{ d: true, c: null }]] } };
+
+    expect(canonicalApiXJson(data)).toBe('{"items":[{"a":2,"b":1}],"z":{"y":[[{"c":null,"d":true}]]}}');
+    expect(JSON.stringify(sortedApiXObjectKeys(data))).toBe('{"items":[{"b":1,"a":2}],"z":{"y":[[{"d":true,"c":null}]]}}');
+  });
+
+  it('should format numbers and escape strings as in RFC 8785', () => {
+    expect(canonicalApiXJson({
+      numbers: [333333333.33333329, 1E30, 4.50, 2e-3, 0.000000000000000000000000001, -0],
+      string: '€$\u000F\u000aA\'B"\\\"/',
+      literals: [null, true, false]
+    })).toBe(
+      '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27,0],' +
+      '"string":"€$\\u000f\\nA\'B\\"\\\\\\"/"}'
+    );
+  });
+
+  it('should sort keys by UTF-16 code units and omit undefined members', () => {
+    expect(canonicalApiXJson({ '€': 1, '\r': 2, 'ö': 3, '😀': 4, '1': 5, skipped: undefined }))
+      .toBe('{"\\r":2,"1":5,"ö":3,"€":1,"😀":4}');
+  });
+
+  it('should reject numbers that are not finite', () => {
+    expect(() => canonicalApiXJson({ value: Infinity })).toThrow(ApiXRequestError);
+    expect(() => canonicalApiXJson({ value: NaN })).toThrow(ApiXRequestError);
+  });
+
+  it('should convert values like JSON.stringify', () => {
+    const data = {
+      at: new Date('2026-01-01T00:00:00Z'),
+      list: [1, undefined, () => 1],
+      skipped: () => 1,
+      nested: { toJSON: () => ({ b: 1, a: 2 }) }
+    };
+
+    expect(canonicalApiXJson(data)).toBe('{"at":"2026-01-01T00:00:00.000Z","list":[1,null,null],"nested":{"a":2,"b":1}}');
+    expect(JSON.parse(canonicalApiXJson(data))).toEqual(JSON.parse(JSON.stringify(data)));
+    expect(JSON.stringify(sortedApiXObjectKeys({ at: data.at } as never)))
+      .toBe('{"at":"2026-01-01T00:00:00.000Z"}');
+  });
+
+  it('should sign a body with dates as it is sent, and not wrap canonicalization errors', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/orders', ApiXInMemoryTransport.json(201, { success: true }));
+    const verifier = new ApiXVerifier(() => 'testAppKey');
+
+    for (const canonicalization of ['legacy', 'jcs'] as const) {
+      const client = new ApiXClient(keyStore, { baseUrl: new URL('https://apix.example.com'), transport, canonicalization });
+      await client.makePostRequest('/orders', { at: new Date('2026-01-01T00:00:00Z'), list: [1, undefined] } as never);
+      const request = transport.requests[transport.requests.length - 1];
+      await expect(verifier.verify({ method: request.method, url: request.url, headers: request.headers, body: request.body }))
+        .resolves.toMatchObject({ valid: true });
+    }
+
+    const client = new ApiXClient(keyStore, { baseUrl: new URL('https://apix.example.com'), transport, canonicalization: 'jcs' });
+    await expect(client.makePostRequest('/orders', { value: Infinity })).rejects.toMatchObject({
+      message: 'Cannot canonicalize the number Infinity as JSON.'
+    });
+  });
+
+  it('should only sign an empty object as no body in legacy mode', () => {
+    expect(ApiXSigner.signingString({ ...input, data: {} })).toBe(`/orders.POST.abc.${input.date}.`);
+    expect(ApiXSigner.signingString({ ...input, data: {}, canonicalization: 'jcs' }))
+      .toBe(`/orders.POST.abc.${input.date}.${Buffer.from('{}').toString('base64')}`);
+    expect(ApiXSigner.signingString({ ...input, canonicalization: 'jcs' })).toBe(`/orders.POST.abc.${input.date}.`);
+  });
+
+  it('should advertise the jcs version and be verified with it', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/orders', ApiXInMemoryTransport.json(201, { success: true }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl: new URL('https://apix.example.com'),
+      transport,
+      canonicalization: 'jcs'
+    });
+
+    await client.makePostRequest('/orders', { items: [{ b: 1, a: 2 }] });
+
+    const request = transport.requests[0];
+    expect(request.headers['x-signature-canonicalization']).toBe('jcs');
+    const received = { method: request.method, url: request.url, headers: request.headers, body: request.body };
+    const verifier = new ApiXVerifier(() => 'testAppKey');
+    await expect(verifier.verify(received)).resolves.toMatchObject({ valid: true });
+    await expect(verifier.verify({
+      ...received,
+      headers: { ...request.headers, 'x-signature-canonicalization': 'legacy' }
+    })).resolves.toMatchObject({ valid: false, errorId: 'unauthorizedRequest' });
+    await expect(verifier.verify({
+      ...received,
+      headers: { ...request.headers, 'x-signature-canonicalization': 'v3' }
+    })).resolves.toMatchObject({
+      valid: false,
+      errorId: 'unauthorizedRequest',
+      message: 'The v3 canonicalization version is not supported.'
+    });
+  });
+
+  it('should sign with the signer\'s canonicalization version', async () => {
+    const signer = new ApiXSigner(keyStore, { canonicalization: 'jcs' });
+    const data = { items: [{ b: 1, a: 2 }] };
+    const { headers } = await signer.sign({ ...input, date: new Date(input.date), data });
+
+    expect(headers['x-signature-canonicalization']).toBe('jcs');
+    expect(headers['x-signature']).toBe(ApiXSigner.createSignature('testAppKey', { ...input, data, canonicalization: 'jcs' }));
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  apiXEcdsaP256Signature,
+  apiXEd25519Signature,
+  apiXHmacSha256Signature,
+  apiXHmacSha512Signature
+} from '../ApiXSignatureScheme';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXVerifier } from '../ApiXVerifier';
+import { generateKeyPairSync } from 'crypto';
+
+describe('ApiXSignatureScheme', () => {
+  const ed25519 = generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+  const ecdsa = generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+
+  it.each([
+    { scheme: apiXHmacSha256Signature, signingKey: 'testAppKey', verificationKey: 'testAppKey' },
+    { scheme: apiXHmacSha512Signature, signingKey: 'testAppKey', verificationKey: 'testAppKey' },
+    { scheme: apiXEd25519Signature, signingKey: ed25519.privateKey, verificationKey: ed25519.publicKey },
+    { scheme: apiXEcdsaP256Signature, signingKey: ecdsa.privateKey, verificationKey: ecdsa.publicKey }
+  ])('should sign and verify with $scheme.algorithm', ({ scheme, signingKey, verificationKey }) => {
+    const signature = scheme.sign('/users.GET.abc.date.', signingKey);
+
+    expect(signature).toMatch(/^[0-9a-f]+$/);
+    expect(scheme.verify('/users.GET.abc.date.', signature, verificationKey)).toBe(true);
+    expect(scheme.verify('/users.DELETE.abc.date.', signature, verificationKey)).toBe(false);
+  });
+
+  it('should not verify malformed signatures', () => {
+    expect(apiXEd25519Signature.verify('/users.GET.abc.date.', 'not hex', ed25519.publicKey)).toBe(false);
+    expect(apiXHmacSha512Signature.verify('/users.GET.abc.date.', 'abc', 'testAppKey')).toBe(false);
+  });
+
+  describe('with an Ed25519 key store', () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue(''),
+      getKeys: jest.fn().mockReturnValue({ apiKey: 'testApiKey', appKey: '' }),
+      getSigningKey: jest.fn().mockReturnValue({ scheme: apiXEd25519Signature, key: ed25519.privateKey })
+    };
+
+    it('should advertise the scheme and be verified with the public key only', async () => {
+      const transport = new ApiXInMemoryTransport()
+        .on('POST', '/users', ApiXInMemoryTransport.json(201, { success: true }));
+      const client = new ApiXClient(keyStore, { baseUrl: new URL('https://apix.example.com'), transport });
+
+      await client.makePostRequest('/users', { name: 'Alice' });
+
+      const request = transport.requests[0];
+      expect(request.headers['x-signature-algorithm']).toBe('ed25519');
+      const received = { method: request.method, url: request.url, headers: request.headers, body: request.body };
+      const verifier = new ApiXVerifier(() => ({ scheme: apiXEd25519Signature, key: ed25519.publicKey }));
+      await expect(verifier.verify(received)).resolves.toMatchObject({ valid: true, apiKey: 'testApiKey' });
+    });
+
+    it('should reject a scheme that is not the scheme of the API key', async () => {
+      const transport = new ApiXInMemoryTransport()
+        .on('GET', '/users', ApiXInMemoryTransport.json(200, { success: true }));
+      const client = new ApiXClient(keyStore, { baseUrl: new URL('https://apix.example.com'), transport });
+
+      await client.makeGetRequest('/users');
+
+      const request = transport.requests[0];
+      const verifier = new ApiXVerifier(() => 'testAppKey');
+      await expect(verifier.verify({ method: request.method, url: request.url, headers: request.headers }))
+        .resolves.toMatchObject({
+          valid: false,
+          errorId: 'unauthorizedRequest',
+          message: 'The ed25519 signature algorithm is not accepted for this API key.'
+        });
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { ApiXRequestError } from '../../error';
+import { ApiXSigner } from '../ApiXSigner';
+import { apiXHmacSha512Signature } from '../ApiXSignatureScheme';
+import { createHmac } from 'crypto';
+
+describe('ApiXSigner', () => {
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const date = new Date('2026-01-01T00:00:00Z');
+  const signer = new ApiXSigner(keyStore);
+
+  it('should sign the canonical URL, method, nonce, date and sorted JSON body', async () => {
+    const { url, headers } = await signer.sign({
+      httpMethod: 'POST',
+      url: 'https://apix.example.com/users?b=2&a=1',
+      data: { name: 'Alice', age: 30 },
+      date,
+      nonce: 'abc'
+    });
+
+    const body = Buffer.from('{"age":30,"name":"Alice"}', 'utf-8').toString('base64');
+    const message = `/users?a=1&b=2.POST.abc.Thu, 01 Jan 2026 00:00:00 GMT.${body}`;
+    expect(url.toString()).toBe('https://apix.example.com/users?a=1&b=2');
+    expect(headers).toEqual({
+      'x-api-key': 'testApiKey',
+      'x-signature': createHmac('sha256', 'testAppKey').update(message, 'utf-8').digest('hex'),
+      'x-signature-nonce': 'abc',
+      date: 'Thu, 01 Jan 2026 00:00:00 GMT'
+    });
+  });
+
+  it('should sign the digest of a non-JSON body', async () => {
+    const { headers } = await signer.sign({
+      httpMethod: 'PUT',
+      url: new URL('https://apix.example.com/files/1'),
+      body: 'hello',
+      date,
+      nonce: 'abc'
+    });
+
+    const digest = 'LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=';
+    const message = `/files/1.PUT.abc.Thu, 01 Jan 2026 00:00:00 GMT.${digest}`;
+    expect(headers['content-digest']).toBe(`sha-256=:${digest}:`);
+    expect(headers['x-signature']).toBe(createHmac('sha256', 'testAppKey').update(message, 'utf-8').digest('hex'));
+  });
+
+  it('should only need an application key when the key store has no signing key', async () => {
+    const signingKey = { scheme: apiXHmacSha512Signature, key: 'signingKey' };
+    const withSigningKey = {
+      ...keyStore,
+      getKeys: jest.fn().mockReturnValue({ apiKey: 'testApiKey' }),
+      getSigningKey: jest.fn().mockReturnValue(signingKey)
+    };
+    const withoutKeys = { ...keyStore, getKeys: jest.fn().mockReturnValue({ apiKey: 'testApiKey' }) };
+
+    await expect(ApiXSigner.signingKey(withSigningKey)).resolves.toBe(signingKey);
+    await expect(new ApiXSigner(withSigningKey).sign({ httpMethod: 'GET', url: 'https://apix.example.com/users' }))
+      .resolves.toBeDefined();
+    await expect(new ApiXSigner(withoutKeys).sign({ httpMethod: 'GET', url: 'https://apix.example.com/users' }))
+      .rejects.toThrow(ApiXRequestError);
+  });
+
+  it('should create random alphanumeric nonces', () => {
+    const nonce = ApiXSigner.createNonce();
+
+    expect(nonce).toMatch(/^[A-Za-z0-9]{32}$/);
+    expect(ApiXSigner.createNonce(8)).toHaveLength(8);
+    expect(ApiXSigner.createNonce()).not.toBe(nonce);
+  });
+});
@@ -0,0 +1,126 @@
+import { ApiXClock } from '../../clock/ApiXClock';
+import { ApiXMemoryNonceCache } from '../ApiXNonceCache';
+import { ApiXRequest } from '../../ApiXRequest';
+import { ApiXSigner } from '../ApiXSigner';
+import { ApiXTransportRequest } from '../../transport/ApiXTransport';
+import { ApiXVerifier } from '../ApiXVerifier';
+
+describe('ApiXVerifier', () => {
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const appKeys = new Map([['testApiKey', 'testAppKey']]);
+  const signer = new ApiXSigner(keyStore);
+
+  const sent = async (config: Partial<ConstructorParameters<typeof ApiXRequest>[0]>): Promise<ApiXTransportRequest> => {
+    let request: ApiXTransportRequest | undefined;
+    await new ApiXRequest({
+      url: new URL('https://apix.example.com/users?b=2&a=1'),
+      keyStore,
+      transport: {
+        send: async (transportRequest) => {
+          request = transportRequest;
+          return { status: 200, headers: {}, body: '{"success":true}' };
+        }
+      },
+      ...config
+    }).make();
+    return request as ApiXTransportRequest;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should accept requests signed by ApiXRequest and reject replays', async () => {
+    const verifier = new ApiXVerifier(apiKey => appKeys.get(apiKey));
+    const request = await sent({ httpMethod: 'POST', data: { name: 'Alice', nested: { z: 1, a: 2 } } });
+    const received = { method: request.method, url: request.url, headers: request.headers, body: request.body };
+
+    await expect(verifier.verify(received)).resolves.toEqual({
+      valid: true,
+      apiKey: 'testApiKey',
+      nonce: request.headers['x-signature-nonce'],
+      date: new Date('2026-01-01T00:00:00Z')
+    });
+    await expect(verifier.verify(received)).resolves.toMatchObject({
+      valid: false,
+      errorId: 'unauthorizedRequest',
+      message: 'The request nonce has already been used.'
+    });
+  });
+
+  it('should verify the digest of non-JSON bodies', async () => {
+    const verifier = new ApiXVerifier(apiKey => appKeys.get(apiKey));
+    const request = await sent({ httpMethod: 'PUT', body: new Uint8Array([1, 2, 3]) });
+
+    await expect(verifier.verify({ ...request, url: new URL(request.url) })).resolves.toMatchObject({ valid: true });
+    await expect(verifier.verify({ ...request, body: new Uint8Array([1, 2, 4]) })).resolves.toMatchObject({
+      valid: false,
+      errorId: 'unauthorizedRequest'
+    });
+  });
+
+  it('should reject requests with missing headers, unknown keys, bad signatures or old dates', async () => {
+    const verifier = new ApiXVerifier(apiKey => appKeys.get(apiKey), { maxAgeMs: 30000 });
+    const { url, headers } = await signer.sign({ httpMethod: 'GET', url: 'https://apix.example.com/users' });
+    const path = `${url.pathname}${url.search}`;
+
+    const { 'x-signature': _signature, ...unsigned } = headers;
+    await expect(verifier.verify({ method: 'GET', url: path, headers: unsigned }))
+      .resolves.toMatchObject({ valid: false, errorId: 'missingRequiredHeaders' });
+    await expect(verifier.verify({ method: 'GET', url: path, headers: { ...headers, 'x-api-key': 'unknown' } }))
+      .resolves.toMatchObject({ valid: false, errorId: 'unauthorizedApp' });
+    await expect(verifier.verify({ method: 'DELETE', url: path, headers }))
+      .resolves.toMatchObject({ valid: false, errorId: 'unauthorizedRequest' });
+    await expect(verifier.verify({ method: 'GET', url: path, headers, body: '{' }))
+      .resolves.toMatchObject({ valid: false, errorId: 'invalidJsonBody' });
+
+    jest.setSystemTime(new Date('2026-01-01T00:00:31Z'));
+    await expect(verifier.verify({ method: 'GET', url: path, headers }))
+      .resolves.toMatchObject({ valid: false, errorId: 'unauthorizedRequest' });
+  });
+
+  it('should verify requests whose query was reordered or re-encoded on the way', async () => {
+    const verifier = new ApiXVerifier(apiKey => appKeys.get(apiKey));
+    const { headers } = await signer.sign({ httpMethod: 'GET', url: 'https://apix.example.com/users?a=1&b=x%20y' });
+
+    await expect(verifier.verify({ method: 'GET', url: '/users?b=x+y&a=1', headers }))
+      .resolves.toMatchObject({ valid: true });
+    await expect(verifier.verify({ method: 'GET', url: '/users?a=%E0%A4%A', headers }))
+      .resolves.toMatchObject({ valid: false, errorId: 'unauthorizedRequest' });
+  });
+
+  it('should verify requests signed with the skew-corrected clock of a signer', async () => {
+    const verifier = new ApiXVerifier(apiKey => appKeys.get(apiKey), { maxAgeMs: 60000 });
+    const clock = new ApiXClock();
+    const serverTime = new Date(Date.now() + 10 * 60000);
+    clock.observe(serverTime, Date.now(), Date.now());
+    const { headers } = await new ApiXSigner(keyStore, { clock }).sign({ httpMethod: 'GET', url: 'https://apix.example.com/users' });
+
+    expect(headers['date']).toBe(serverTime.toUTCString());
+    jest.setSystemTime(serverTime);
+    await expect(verifier.verify({ method: 'GET', url: '/users', headers }))
+      .resolves.toMatchObject({ valid: true });
+  });
+
+  it('should forget expired nonces', () => {
+    const cache = new ApiXMemoryNonceCache();
+
+    expect(cache.add('key:abc', Date.now() + 1000)).toBe(true);
+    expect(cache.add('key:abc', Date.now() + 1000)).toBe(false);
+
+    jest.setSystemTime(Date.now() + 1000);
+    expect(cache.add('key:def', Date.now() + 1000)).toBe(true);
+    expect(cache.size).toBe(1);
+  });
+});
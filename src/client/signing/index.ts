@@ -0,0 +1,5 @@
+export * from './ApiXCanonicalJson';
+export * from './ApiXNonceCache';
+export * from './ApiXSignatureScheme';
+export * from './ApiXSigner';
+export * from './ApiXVerifier';
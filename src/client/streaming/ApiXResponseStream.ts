@@ -0,0 +1,53 @@
+import { ApiXCookie } from '../cookies/ApiXCookie';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+import { ApiXResponseHeaders } from '../headers/ApiXResponseHeaders';
+
+/**
+ * A response whose body is read and parsed one item at a time.
+ * 
+ * Iterate it with `for await`. The body is only read from the network as
+ * items are requested, so a slow consumer never buffers the whole body.
+ * Breaking out of the loop, or calling `cancel`, closes the response.
+ * 
+ * A response stream can only be iterated once.
+ * 
+ * @typeParam Item The type of the items in the stream.
+ * 
+ * @category Streaming Responses
+ */
+export class ApiXResponseStream<Item> implements AsyncIterable<Item> {
+
+  private iterated = false;
+
+  /**
+   * Creates a new response stream.
+   * @param statusCode The HTTP status code of the response.
+   * @param headers The HTTP headers of the response.
+   * @param cookies The cookies set by the response.
+   * @param items The parsed items of the body.
+   * @param onCancel Called when the stream is cancelled before it ends.
+   */
+  public constructor(
+    public readonly statusCode: number,
+    public readonly headers: ApiXResponseHeaders,
+    public readonly cookies: readonly ApiXCookie[],
+    private readonly items: AsyncGenerator<Item>,
+    private readonly onCancel: () => void
+  ) {}
+
+  /**
+   * Closes the response. Iteration ends without an error.
+   */
+  public async cancel(): Promise<void> {
+    this.onCancel();
+    await this.items.return(undefined);
+  }
+
+  public [Symbol.asyncIterator](): AsyncIterator<Item> {
+    if (this.iterated) {
+      throw new ApiXRequestError('This response stream has already been iterated.');
+    }
+    this.iterated = true;
+    return this.items;
+  }
+}
@@ -0,0 +1,116 @@
+import { ApiXRequestError } from '../error/ApiXRequestError';
+import { ApiXServerSentEvent } from '../types/ApiXServerSentEvent';
+
+/**
+ * Parses a newline-delimited JSON (NDJSON) body.
+ * 
+ * Records are parsed one line at a time, as chunks are read, and blank lines
+ * are skipped.
+ * @param chunks The raw chunks of the body.
+ * @returns The parsed records.
+ * @throws `ApiXRequestError` if a line is not valid JSON.
+ * 
+ * @category Streaming Responses
+ */
+export async function* parseApiXNdjson(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<unknown> {
+  for await (const line of readLines(chunks)) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    try {
+      yield JSON.parse(line);
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) {
+        throw error;
+      }
+      throw new ApiXRequestError(`Invalid NDJSON record: ${line}`);
+    }
+  }
+}
+
+/**
+ * Parses a `text/event-stream` (Server-Sent Events) body, following the
+ * HTML standard.
+ * 
+ * Comments are ignored, and an event that is not terminated by a blank line
+ * when the body ends is discarded.
+ * @param chunks The raw chunks of the body.
+ * @returns The parsed events.
+ * 
+ * @category Streaming Responses
+ */
+export async function* parseApiXServerSentEvents(
+  chunks: AsyncIterable<Uint8Array>
+): AsyncGenerator<ApiXServerSentEvent> {
+  let event = '';
+  let data: string[] = [];
+  let id: string | undefined;
+  let retry: number | undefined;
+
+  for await (const line of readLines(chunks)) {
+    if (line.length === 0) {
+      if (data.length > 0) {
+        yield {
+          event: event || 'message',
+          data: data.join('\n'),
+          ...(id !== undefined ? { id } : {}),
+          ...(retry !== undefined ? { retry } : {})
+        };
+      }
+      event = '';
+      data = [];
+      continue;
+    }
+    if (line.startsWith(':')) {
+      continue;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex >= 0 ? line.slice(0, colonIndex) : line;
+    const value = colonIndex >= 0 ? line.slice(colonIndex + 1).replace(/^ /, '') : '';
+    switch (field) {
+      case 'event':
+        event = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          id = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          retry = Number(value);
+        }
+        break;
+    }
+  }
+}
+
+/**
+ * Decodes UTF-8 chunks and splits them into lines ending with CRLF, LF or CR.
+ */
+async function* readLines(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder('utf-8');
+  const lineBreak = /\r\n|\n|\r/;
+  let buffer = '';
+
+  for await (const chunk of chunks) {
+    buffer += decoder.decode(chunk, { stream: true });
+    for (let match = lineBreak.exec(buffer); match; match = lineBreak.exec(buffer)) {
+      // A CR at the end of the buffer may be the first half of a CRLF.
+      if (match[0] === '\r' && match.index === buffer.length - 1) {
+        break;
+      }
+      yield buffer.slice(0, match.index);
+      buffer = buffer.slice(match.index + match[0].length);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.length > 0) {
+    yield* buffer.replace(/\r$/, '').split(lineBreak);
+  }
+}
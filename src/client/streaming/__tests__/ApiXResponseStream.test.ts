@@ -0,0 +1,191 @@
+import {
+  ApiXRequestAbortedError,
+  ApiXRequestError,
+  ApiXResponseUnauthorizedRequestError
+} from '../../error';
+import {
+  ApiXTransport,
+  ApiXTransportRequest,
+  ApiXTransportStreamResponse
+} from '../../transport/ApiXTransport';
+import { ApiXFetchTransport } from '../../transport/ApiXFetchTransport';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXRequest } from '../../ApiXRequest';
+
+/**
+ * A transport that streams the given chunks, recording how many were read
+ * and whether the body was closed.
+ */
+class ChunkedTransport implements ApiXTransport {
+  public chunksRead = 0;
+  public closed = false;
+  public requests: ApiXTransportRequest[] = [];
+
+  public constructor(
+    private readonly chunks: string[],
+    private readonly headers: Record<string, string> = { 'content-type': 'application/x-ndjson' }
+  ) {}
+
+  public async send(): Promise<never> {
+    throw new Error('Not supported');
+  }
+
+  public async stream(request: ApiXTransportRequest): Promise<ApiXTransportStreamResponse> {
+    this.requests.push(request);
+    return {
+      status: 200,
+      headers: this.headers,
+      body: this.body()
+    };
+  }
+
+  private async *body(): AsyncGenerator<Uint8Array> {
+    try {
+      for (const chunk of this.chunks) {
+        this.chunksRead += 1;
+        yield Buffer.from(chunk, 'utf-8');
+      }
+    } finally {
+      this.closed = true;
+    }
+  }
+}
+
+describe('ApiXResponseStream', () => {
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const url = new URL('https://apix.example.com/exports');
+
+  it('should stream NDJSON records, reading the body only as records are requested', async () => {
+    const transport = new ChunkedTransport(['{"id":1}\n', '{"id":2}\n', '{"id":3}\n']);
+    const request = new ApiXRequest({ url, keyStore, transport });
+
+    const stream = await request.stream<{ id: number }>();
+    const iterator = stream[Symbol.asyncIterator]();
+
+    expect(stream.statusCode).toBe(200);
+    expect(stream.headers.get('Content-Type')).toBe('application/x-ndjson');
+    expect(transport.requests[0].headers['x-signature']).toBeDefined();
+    expect(request['allHeaders']['x-signature']).toBeUndefined();
+    expect((await iterator.next()).value).toEqual({ id: 1 });
+    expect(transport.chunksRead).toBe(1);
+    expect(() => stream[Symbol.asyncIterator]()).toThrow(ApiXRequestError);
+  });
+
+  it('should close the body when iteration ends early', async () => {
+    const transport = new ChunkedTransport(['{"id":1}\n', '{"id":2}\n', '{"id":3}\n']);
+    const stream = await new ApiXRequest({ url, keyStore, transport }).stream();
+
+    for await (const record of stream) {
+      expect(record).toEqual({ id: 1 });
+      break;
+    }
+
+    expect(transport.closed).toBe(true);
+    expect(transport.chunksRead).toBe(1);
+  });
+
+  it('should end quietly when cancelled', async () => {
+    const transport = new ChunkedTransport(['{"id":1}\n', '{"id":2}\n']);
+    const stream = await new ApiXRequest({ url, keyStore, transport }).stream();
+
+    const records: unknown[] = [];
+    for await (const record of stream) {
+      records.push(record);
+      await stream.cancel();
+    }
+
+    expect(records).toEqual([{ id: 1 }]);
+  });
+
+  it('should throw ApiXRequestAbortedError when the signal is aborted while streaming', async () => {
+    const transport = new ChunkedTransport(['{"id":1}\n', '{"id":2}\n']);
+    const abortController = new AbortController();
+    const stream = await new ApiXRequest({ url, keyStore, transport, signal: abortController.signal }).stream();
+
+    await expect((async () => {
+      for await (const record of stream) {
+        expect(record).toEqual({ id: 1 });
+        abortController.abort();
+      }
+    })()).rejects.toThrow(ApiXRequestAbortedError);
+  });
+
+  it('should stream Server-Sent Events and raw bytes with transports that cannot stream', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/events', {
+        status: 200,
+        headers: { 'content-type': 'text/event-stream' },
+        body: 'event: progress\ndata: 50\n\n'
+      })
+      .on('GET', '/file', { status: 200, headers: {}, body: 'abc' });
+
+    const events = await new ApiXRequest({ url: new URL('https://apix.example.com/events'), keyStore, transport })
+      .stream('sse');
+    for await (const event of events) {
+      expect(event).toEqual({ event: 'progress', data: '50' });
+    }
+
+    const bytes = await new ApiXRequest({ url: new URL('https://apix.example.com/file'), keyStore, transport })
+      .stream('bytes');
+    for await (const chunk of bytes) {
+      expect(Buffer.from(chunk).toString('utf-8')).toBe('abc');
+    }
+  });
+
+  it('should map an error response sent instead of the stream', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/exports', ApiXInMemoryTransport.json(401, {
+        success: false,
+        error: { id: 'unauthorizedRequest', message: 'Invalid signature.' }
+      }))
+      .on('GET', '/missing', { status: 502, headers: {}, body: 'Bad Gateway' });
+
+    await expect(new ApiXRequest({ url, keyStore, transport }).stream())
+      .rejects.toThrow(ApiXResponseUnauthorizedRequestError);
+    await expect(new ApiXRequest({ url: new URL('https://apix.example.com/missing'), keyStore, transport }).stream())
+      .rejects.toThrow('API-X Stream failed with status code 502.');
+  });
+
+  it('should treat a single JSON response as a one-record stream', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/exports', ApiXInMemoryTransport.json(200, { success: true, rows: [] }));
+
+    const stream = await new ApiXRequest({ url, keyStore, transport }).stream();
+    const records: unknown[] = [];
+    for await (const record of stream) {
+      records.push(record);
+    }
+
+    expect(records).toEqual([{ success: true, rows: [] }]);
+  });
+
+  it('should stream response bodies with ApiXFetchTransport', async () => {
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(Buffer.from('{"id":1}\n{"id"'));
+        controller.enqueue(Buffer.from(':2}\n'));
+        controller.close();
+      }
+    });
+    const fetchMock = jest.fn().mockResolvedValue(new Response(body, {
+      status: 200,
+      headers: { 'Content-Type': 'application/x-ndjson' }
+    }));
+    const transport = new ApiXFetchTransport(fetchMock);
+
+    const stream = await new ApiXRequest({ url, keyStore, transport }).stream();
+    const records: unknown[] = [];
+    for await (const record of stream) {
+      records.push(record);
+    }
+
+    expect(records).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+});
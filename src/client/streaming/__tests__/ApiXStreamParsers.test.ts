@@ -0,0 +1,56 @@
+import { parseApiXNdjson, parseApiXServerSentEvents } from '../ApiXStreamParsers';
+import { ApiXRequestError } from '../../error';
+
+/**
+ * Yields each string as a UTF-8 chunk.
+ */
+async function* chunksOf(...chunks: string[]): AsyncGenerator<Uint8Array> {
+  for (const chunk of chunks) {
+    yield Buffer.from(chunk, 'utf-8');
+  }
+}
+
+const collect = async <T>(items: AsyncIterable<T>): Promise<T[]> => {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+};
+
+describe('ApiXStreamParsers', () => {
+  it('should parse NDJSON records split across chunks', async () => {
+    const records = await collect(parseApiXNdjson(chunksOf('{"id":1}\n{"na', 'me":"é"}\r\n\n', '{"id":3}')));
+    expect(records).toEqual([{ id: 1 }, { name: 'é' }, { id: 3 }]);
+  });
+
+  it('should decode multi-byte characters split across chunks', async () => {
+    const bytes = Buffer.from('{"name":"日本"}\n', 'utf-8');
+    async function* split() {
+      yield bytes.subarray(0, 10);
+      yield bytes.subarray(10);
+    }
+    expect(await collect(parseApiXNdjson(split()))).toEqual([{ name: '日本' }]);
+  });
+
+  it('should reject invalid NDJSON records', async () => {
+    await expect(collect(parseApiXNdjson(chunksOf('{"id":1}\nnot json\n'))))
+      .rejects.toThrow(new ApiXRequestError('Invalid NDJSON record: not json'));
+  });
+
+  it('should parse Server-Sent Events', async () => {
+    const events = await collect(parseApiXServerSentEvents(chunksOf(
+      ': keep-alive\n',
+      'event: progress\ndata: {"done":1}\nid: 1\nretry: 3000\n\n',
+      'data: line 1\r',
+      '\ndata:line 2\r\n\r\n',
+      'event: ignored\n\n',
+      'data: unterminated'
+    )));
+
+    expect(events).toEqual([
+      { event: 'progress', data: '{"done":1}', id: '1', retry: 3000 },
+      { event: 'message', data: 'line 1\nline 2', id: '1', retry: 3000 }
+    ]);
+  });
+});
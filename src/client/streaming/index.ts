@@ -0,0 +1,2 @@
+export * from './ApiXResponseStream';
+export * from './ApiXStreamParsers';
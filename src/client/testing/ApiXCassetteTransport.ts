@@ -0,0 +1,288 @@
+import {
+  ApiXTransport,
+  ApiXTransportRequest,
+  ApiXTransportResponse
+} from '../transport/ApiXTransport';
+import {
+  readFile,
+  writeFile
+} from 'fs/promises';
+import { ApiXFetchTransport } from '../transport/ApiXFetchTransport';
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+import { createHash } from 'crypto';
+
+/**
+ * How an `ApiXCassetteTransport` uses its cassette.
+ * 
+ * - `record`: sends every request and records it, replacing the cassette.
+ * - `replay`: never sends a request, and fails if no recorded interaction matches.
+ * - `auto`: replays matching interactions, and sends and records the others.
+ * 
+ * @category Testing
+ */
+export type ApiXCassetteMode = 'record' | 'replay' | 'auto';
+
+/**
+ * A request and its response, as stored in a cassette.
+ * 
+ * @category Testing
+ */
+export interface ApiXRecordedInteraction {
+  readonly request: {
+    readonly method: ApiXHttpMethod;
+
+    /**
+     * The canonical URL of the request.
+     */
+    readonly url: string;
+
+    /**
+     * The headers of the request, without the signature headers, `Date`,
+     * `Cookie` or `Authorization`.
+     */
+    readonly headers: Record<string, string>;
+
+    /**
+     * The SHA-256 hash of the `X-API-Key` header, in hex, so that requests
+     * made with another API key do not match without storing the key itself.
+     */
+    readonly apiKeyHash?: string;
+
+    /**
+     * The body of the request: a string, or base64 bytes if `bodyEncoding` is `base64`.
+     */
+    readonly body?: string;
+
+    readonly bodyEncoding?: 'base64';
+  };
+
+  /**
+   * The response, without its `Set-Cookie` headers.
+   */
+  readonly response: ApiXTransportResponse;
+}
+
+/**
+ * The content of a cassette file.
+ * 
+ * @category Testing
+ */
+export interface ApiXCassette {
+  readonly version: 1;
+  readonly interactions: readonly ApiXRecordedInteraction[];
+}
+
+/**
+ * An object used to configure an `ApiXCassetteTransport`.
+ * 
+ * @category Testing
+ */
+export interface ApiXCassetteOptions {
+  /**
+   * The path of the JSON cassette file.
+   */
+  readonly path: string;
+
+  /**
+   * How the cassette is used. Defaults to `auto`.
+   */
+  readonly mode?: ApiXCassetteMode;
+
+  /**
+   * The transport used to send requests that are recorded. Defaults to an
+   * `ApiXFetchTransport`.
+   */
+  readonly transport?: ApiXTransport;
+}
+
+/**
+ * Request headers that are never written to a cassette, because they hold
+ * secrets or change with every request.
+ */
+const unrecordedHeaders = [
+  'authorization',
+  'cookie',
+  'date',
+  'x-api-key',
+  'x-signature',
+  'x-signature-nonce'
+];
+
+/**
+ * A transport that records requests and their responses to a JSON cassette
+ * file, and replays them in later runs without a network, for deterministic
+ * tests.
+ * 
+ * Requests are matched by method, canonical URL, recorded headers, API key
+ * and body. The nonce, signature and `Date` change with every request, so
+ * they are ignored. Protected header values such as `X-API-Key` (of which
+ * only a hash is stored), and the cookies set by responses, are never
+ * written to disk.
+ * Identical requests replay their recorded responses in order.
+ * 
+ * ```typescript
+ * const client = new ApiXClient(keyStore, {
+ *   transport: new ApiXCassetteTransport({ path: '__cassettes__/users.json', mode: 'replay' })
+ * });
+ * ```
+ * 
+ * @category Testing
+ */
+export class ApiXCassetteTransport implements ApiXTransport {
+
+  private readonly mode: ApiXCassetteMode;
+
+  private readonly transport: ApiXTransport;
+
+  private cassette?: Promise<ApiXRecordedInteraction[]>;
+
+  /**
+   * The last write of the cassette. Writes are chained so that they never overlap.
+   */
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * The recorded interactions that have already been replayed.
+   */
+  private readonly replayed = new Set<ApiXRecordedInteraction>();
+
+  /**
+   * Creates a new cassette transport.
+   * @param options The cassette file, mode and transport.
+   */
+  public constructor(private readonly options: ApiXCassetteOptions) {
+    this.mode = options.mode ?? 'auto';
+    this.transport = options.transport ?? new ApiXFetchTransport();
+  }
+
+  public async send(request: ApiXTransportRequest): Promise<ApiXTransportResponse> {
+    const interactions = await this.interactions();
+    const recordedRequest = this.recordedRequest(request);
+
+    if (this.mode !== 'record') {
+      const interaction = interactions.find(interaction => {
+        return !this.replayed.has(interaction) && this.matches(interaction.request, recordedRequest);
+      });
+      if (interaction) {
+        this.replayed.add(interaction);
+        return interaction.response;
+      }
+      if (this.mode === 'replay') {
+        throw new ApiXRequestError(`No recorded interaction for ${request.method} ${request.url} in ${this.options.path}.`);
+      }
+    }
+
+    const response = await this.transport.send(request);
+    const interaction = { request: recordedRequest, response: this.recordedResponse(response) };
+    interactions.push(interaction);
+    this.replayed.add(interaction);
+    await this.save(interactions);
+    return response;
+  }
+
+  //// Helper Methods ////
+  /**
+   * Loads the cassette the first time it is needed. In `record` mode, the
+   * existing cassette is replaced.
+   */
+  private interactions(): Promise<ApiXRecordedInteraction[]> {
+    if (!this.cassette) {
+      this.cassette = this.mode === 'record'
+        ? Promise.resolve([])
+        : this.load();
+    }
+    return this.cassette;
+  }
+
+  private async load(): Promise<ApiXRecordedInteraction[]> {
+    let content: string;
+    try {
+      content = await readFile(this.options.path, 'utf-8');
+    } catch (error) {
+      if (this.mode === 'auto' && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new ApiXRequestError(`Cannot read the cassette ${this.options.path}: ${error}`);
+    }
+    let cassette: Partial<ApiXCassette> | null;
+    try {
+      cassette = JSON.parse(content);
+    } catch (error) {
+      throw new ApiXRequestError(`Cannot read the cassette ${this.options.path}: ${error}`);
+    }
+    if (cassette?.version !== 1 || !Array.isArray(cassette.interactions)) {
+      throw new ApiXRequestError(`Cannot read the cassette ${this.options.path}: it is not a version 1 cassette.`);
+    }
+    return [...cassette.interactions];
+  }
+
+  /**
+   * Writes the cassette once the previous write is done. Each write contains
+   * all the interactions recorded so far.
+   */
+  private save(interactions: readonly ApiXRecordedInteraction[]): Promise<void> {
+    const write = async () => {
+      const cassette: ApiXCassette = { version: 1, interactions };
+      await writeFile(this.options.path, `${JSON.stringify(cassette, null, 2)}\n`, 'utf-8');
+    };
+    this.saving = this.saving.then(write, write);
+    return this.saving;
+  }
+
+  /**
+   * Returns a response without the cookies it sets, which can hold sessions.
+   */
+  private recordedResponse(response: ApiXTransportResponse): ApiXTransportResponse {
+    const headers: Record<string, string> = {};
+    Object.keys(response.headers).forEach(name => {
+      if (name.toLowerCase() !== 'set-cookie') {
+        headers[name] = response.headers[name];
+      }
+    });
+    return { status: response.status, headers, body: response.body };
+  }
+
+  private recordedRequest(request: ApiXTransportRequest): ApiXRecordedInteraction['request'] {
+    const headers: Record<string, string> = {};
+    let apiKey: string | undefined;
+    Object.keys(request.headers).sort().forEach(name => {
+      if (name.toLowerCase() === 'x-api-key') {
+        apiKey = request.headers[name];
+      } else if (!unrecordedHeaders.includes(name.toLowerCase())) {
+        headers[name.toLowerCase()] = request.headers[name];
+      }
+    });
+    const recorded = {
+      method: request.method,
+      url: request.url,
+      headers,
+      ...(apiKey !== undefined ? { apiKeyHash: createHash('sha256').update(apiKey, 'utf-8').digest('hex') } : {})
+    };
+
+    if (request.body === undefined) {
+      return recorded;
+    }
+    return typeof request.body === 'string'
+      ? { ...recorded, body: request.body }
+      : { ...recorded, body: Buffer.from(request.body).toString('base64'), bodyEncoding: 'base64' };
+  }
+
+  private matches(
+    recorded: ApiXRecordedInteraction['request'],
+    request: ApiXRecordedInteraction['request']
+  ): boolean {
+    return recorded.method === request.method
+      && recorded.url === request.url
+      && recorded.apiKeyHash === request.apiKeyHash
+      && this.sameHeaders(recorded.headers, request.headers)
+      && (recorded.body ?? '') === (request.body ?? '')
+      && recorded.bodyEncoding === request.bodyEncoding;
+  }
+
+  private sameHeaders(recorded: Record<string, string>, headers: Record<string, string>): boolean {
+    const names = Object.keys(recorded);
+    return names.length === Object.keys(headers).length
+      && names.every(name => recorded[name] === headers[name]);
+  }
+}
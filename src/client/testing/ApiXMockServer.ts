@@ -0,0 +1,321 @@
+import { ApiXVerificationErrorId, ApiXVerifier } from '../signing/ApiXVerifier';
+import {
+  IncomingMessage,
+  Server,
+  ServerResponse,
+  createServer
+} from 'http';
+import { AddressInfo } from 'net';
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+import { ApiXSignatureKey } from '../signing/ApiXSignatureScheme';
+
+/**
+ * A verified request received by an `ApiXMockServer`.
+ * 
+ * @category Testing
+ */
+export interface ApiXMockRequest {
+  /**
+   * The HTTP method of the request.
+   */
+  readonly method: string;
+
+  /**
+   * The URL of the request.
+   */
+  readonly url: URL;
+
+  /**
+   * The values of the `:name` segments of the route's path template.
+   */
+  readonly params: Record<string, string>;
+
+  /**
+   * The headers of the request, with lowercased names.
+   */
+  readonly headers: Record<string, string>;
+
+  /**
+   * The raw body of the request.
+   */
+  readonly body: Buffer;
+
+  /**
+   * The parsed JSON body of the request, if it has one.
+   */
+  readonly data?: unknown;
+
+  /**
+   * The API key with which the request was signed.
+   */
+  readonly apiKey: string;
+}
+
+/**
+ * A response returned by a route handler of an `ApiXMockServer`.
+ * 
+ * @category Testing
+ */
+export interface ApiXMockResponse {
+  /**
+   * The HTTP status code. Defaults to `200`.
+   */
+  readonly status?: number;
+
+  /**
+   * Additional response headers.
+   */
+  readonly headers?: Record<string, string>;
+
+  /**
+   * The JSON data of the response. Ignored if `body` is set.
+   */
+  readonly data?: unknown;
+
+  /**
+   * The raw body of the response, e.g. for a stream.
+   */
+  readonly body?: string | Uint8Array;
+}
+
+/**
+ * Handles the verified requests to a route of an `ApiXMockServer`.
+ * 
+ * @category Testing
+ */
+export type ApiXMockRouteHandler = (request: ApiXMockRequest) => ApiXMockResponse | Promise<ApiXMockResponse>;
+
+/**
+ * An object used to configure an `ApiXMockServer`.
+ * 
+ * @category Testing
+ */
+export interface ApiXMockServerOptions {
+  /**
+   * The application key of each API key accepted by the server, or the key
+   * and signature scheme with which its requests are verified.
+   */
+  readonly keys?: Record<string, string | ApiXSignatureKey>;
+
+  /**
+   * How far the `Date` of a request can be from the server's time, in
+   * milliseconds. Defaults to `60000`.
+   */
+  readonly maxAgeMs?: number;
+}
+
+interface ApiXMockRoute {
+  readonly method: ApiXHttpMethod;
+  readonly pattern: RegExp;
+  readonly paramNames: readonly string[];
+  readonly handler: ApiXMockRouteHandler;
+}
+
+/**
+ * The HTTP status codes of the API-X errors returned when a request fails verification.
+ */
+const verificationErrorStatusCodes: Record<ApiXVerificationErrorId, number> = {
+  missingRequiredHeaders: 400,
+  invalidJsonBody: 400,
+  unauthorizedApp: 401,
+  unauthorizedRequest: 401
+};
+
+/**
+ * An in-process API-X server for integration tests, built on `node:http`.
+ * 
+ * It verifies the signature, `Date` and nonce of every request like a real
+ * API-X server, rejecting invalid requests with the matching API-X error
+ * (e.g.: `unauthorizedRequest` or `missingRequiredHeaders`), and passes valid
+ * requests to the registered route handlers.
+ * 
+ * ```typescript
+ * const server = new ApiXMockServer({ keys: { myApiKey: 'myAppKey' } })
+ *   .on('GET', '/users/:id', request => ({ data: { success: true, id: request.params.id } }));
+ * const baseUrl = await server.start();
+ * const client = new ApiXClient(keyStore, { baseUrl });
+ * // ...
+ * await server.stop();
+ * ```
+ * 
+ * @category Testing
+ */
+export class ApiXMockServer {
+
+  /**
+   * The verified requests received by the server, in order.
+   */
+  public readonly requests: ApiXMockRequest[] = [];
+
+  private readonly keys = new Map<string, string | ApiXSignatureKey>();
+
+  private readonly routes: ApiXMockRoute[] = [];
+
+  private readonly verifier: ApiXVerifier;
+
+  private server?: Server;
+
+  /**
+   * Creates a new mock server. Call `start` to listen for requests.
+   * @param options The keys accepted by the server, and its date window.
+   */
+  public constructor(options: ApiXMockServerOptions = {}) {
+    Object.entries(options.keys ?? {}).forEach(([apiKey, appKey]) => this.keys.set(apiKey, appKey));
+    this.verifier = new ApiXVerifier(apiKey => this.keys.get(apiKey), { maxAgeMs: options.maxAgeMs });
+  }
+
+  /**
+   * The URL of the server, once it is started.
+   * @throws `ApiXRequestError` if the server is not started.
+   */
+  public get url(): URL {
+    const address = this.server?.address();
+    if (!address || typeof address === 'string') {
+      throw new ApiXRequestError('The API-X mock server is not started.');
+    }
+    return new URL(`http://127.0.0.1:${(address as AddressInfo).port}`);
+  }
+
+  /**
+   * Accepts requests signed with an API key.
+   * @param apiKey The API key.
+   * @param appKey The application key of the API key, or the key and signature
+   * scheme with which its requests are verified (e.g. an Ed25519 public key).
+   * @returns This server, for chaining.
+   */
+  public registerKeys(apiKey: string, appKey: string | ApiXSignatureKey): this {
+    this.keys.set(apiKey, appKey);
+    return this;
+  }
+
+  /**
+   * Registers the handler of a route. Later routes take precedence.
+   * @param method The HTTP method of the route.
+   * @param path The pathname of the route, which can have `:name` segments
+   * (e.g.: `/users/:id`).
+   * @param handler Returns the response to each verified request.
+   * @returns This server, for chaining.
+   */
+  public on(method: ApiXHttpMethod, path: string, handler: ApiXMockRouteHandler): this {
+    const paramNames: string[] = [];
+    const source = path.split('/').map(segment => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }).join('/');
+    this.routes.unshift({ method, pattern: new RegExp(`^${source}$`), paramNames, handler });
+    return this;
+  }
+
+  /**
+   * Starts listening on `127.0.0.1`.
+   * @param port The port to listen on. Defaults to a random free port.
+   * @returns The URL of the server, to use as the `baseUrl` of a client.
+   */
+  public async start(port = 0): Promise<URL> {
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        if (response.headersSent) {
+          // The status is already sent, so the error can only be reported by closing the connection.
+          response.destroy();
+          return;
+        }
+        this.send(response, 500, { success: false, error: { id: 'internalError', message: String(error) } });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    return this.url;
+  }
+
+  /**
+   * Stops the server and closes its connections.
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => error ? reject(error) : resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * Creates the response of an API-X error.
+   * @param status The HTTP status code.
+   * @param id The API-X error ID (e.g.: `invalidRequest`).
+   * @param message The error message.
+   * @returns A response that can be returned by a route handler.
+   */
+  public static error(status: number, id: string, message: string = id): ApiXMockResponse {
+    return { status, data: { success: false, error: { id, message } } };
+  }
+
+  //// Helper Methods ////
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = Buffer.concat(chunks);
+    const method = request.method ?? 'GET';
+    const url = new URL(request.url ?? '/', this.url);
+    const headers: Record<string, string> = {};
+    Object.entries(request.headers).forEach(([name, value]) => {
+      if (value !== undefined) {
+        headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    });
+
+    const verification = await this.verifier.verify({ method, url, headers, body });
+    if (!verification.valid) {
+      const status = verificationErrorStatusCodes[verification.errorId];
+      this.send(response, status, { success: false, error: { id: verification.errorId, message: verification.message } });
+      return;
+    }
+
+    const route = this.routes.find(route => route.method === method && route.pattern.test(url.pathname));
+    if (!route) {
+      this.send(response, 404, { success: false, error: { id: 'notFound', message: `No mock route for ${method} ${url.pathname}.` } });
+      return;
+    }
+
+    const params: Record<string, string> = {};
+    route.pattern.exec(url.pathname)?.slice(1).forEach((value, index) => {
+      params[route.paramNames[index]] = decodeURIComponent(value);
+    });
+    const isJson = body.length > 0 && headers['content-digest'] === undefined;
+    const mockRequest: ApiXMockRequest = {
+      method,
+      url,
+      params,
+      headers,
+      body,
+      ...(isJson ? { data: JSON.parse(body.toString('utf-8')) } : {}),
+      apiKey: verification.apiKey
+    };
+    this.requests.push(mockRequest);
+
+    const result = await route.handler(mockRequest);
+    if (result.body !== undefined) {
+      response.writeHead(result.status ?? 200, result.headers ?? {});
+      response.end(result.body);
+      return;
+    }
+    this.send(response, result.status ?? 200, result.data, result.headers);
+  }
+
+  private send(response: ServerResponse, status: number, data: unknown, headers: Record<string, string> = {}): void {
+    response.writeHead(status, { 'content-type': 'application/json', ...headers });
+    response.end(data === undefined ? '' : JSON.stringify(data));
+  }
+}
@@ -0,0 +1,192 @@
+import {
+  mkdtemp,
+  readFile,
+  rm,
+  writeFile
+} from 'fs/promises';
+import { ApiXCassetteTransport } from '../ApiXCassetteTransport';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXRequestError } from '../../error';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('ApiXCassetteTransport', () => {
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  const baseUrl = new URL('https://apix.example.com');
+  let directory: string;
+  let path: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'apix-cassette-'));
+    path = join(directory, 'cassette.json');
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const record = async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/users', ApiXInMemoryTransport.json(200, { success: true, users: [1, 2] }))
+      .on('POST', '/users', request => ApiXInMemoryTransport.json(201, {
+        success: true,
+        user: JSON.parse(request.body as string)
+      }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport: new ApiXCassetteTransport({ path, mode: 'record', transport })
+    });
+    await client.makeGetRequest('/users?b=2&a=1');
+    await client.makePostRequest('/users', { name: 'Ada' });
+    return transport;
+  };
+
+  it('should record requests without their secrets', async () => {
+    const transport = await record();
+    expect(transport.requests).toHaveLength(2);
+
+    const content = await readFile(path, 'utf-8');
+    expect(content).not.toContain('testApiKey');
+    expect(content).not.toContain(transport.requests[0].headers['x-signature']);
+    expect(content).not.toContain(transport.requests[0].headers['x-signature-nonce']);
+
+    const cassette = JSON.parse(content);
+    expect(cassette.version).toBe(1);
+    expect(cassette.interactions[0].request).toEqual({
+      method: 'GET',
+      url: 'https://apix.example.com/users?a=1&b=2',
+      headers: { 'content-type': 'application/json' },
+      apiKeyHash: createHash('sha256').update('testApiKey').digest('hex')
+    });
+    expect(cassette.interactions[1].request.body).toBe('{"name":"Ada"}');
+    expect(cassette.interactions[1].response.status).toBe(201);
+  });
+
+  it('should replay recorded responses without sending requests', async () => {
+    await record();
+    const transport = new ApiXInMemoryTransport();
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport: new ApiXCassetteTransport({ path, mode: 'replay', transport })
+    });
+
+    const users = await client.makeGetRequest('/users?a=1&b=2');
+    const created = await client.makePostRequest('/users', { name: 'Ada' });
+
+    expect(users.data).toEqual({ success: true, users: [1, 2] });
+    expect(created.statusCode).toBe(201);
+    expect(created.data).toEqual({ success: true, user: { name: 'Ada' } });
+    expect(transport.requests).toHaveLength(0);
+  });
+
+  it('should fail in replay mode when no recorded interaction matches', async () => {
+    await record();
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport: new ApiXCassetteTransport({ path, mode: 'replay' })
+    });
+
+    await expect(client.makePostRequest('/users', { name: 'Grace' }))
+      .rejects.toBeInstanceOf(ApiXRequestError);
+  });
+
+  it('should not replay interactions recorded with another API key or other headers', async () => {
+    await record();
+    const otherKeyStore = {
+      ...keyStore,
+      getKeys: jest.fn().mockReturnValue({ apiKey: 'otherApiKey', appKey: 'otherAppKey' })
+    };
+    const otherClient = new ApiXClient(otherKeyStore, {
+      baseUrl,
+      transport: new ApiXCassetteTransport({ path, mode: 'replay' })
+    });
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport: new ApiXCassetteTransport({ path, mode: 'replay' })
+    });
+
+    await expect(otherClient.makeGetRequest('/users?a=1&b=2')).rejects.toThrow(/No recorded interaction/);
+    await expect(client.makeGetRequest('/users?a=1&b=2', { headers: { 'Accept-Language': 'fr' } }))
+      .rejects.toThrow(/No recorded interaction/);
+    await expect(client.makeGetRequest('/users?a=1&b=2')).resolves.toMatchObject({ statusCode: 200 });
+  });
+
+  it('should replay known requests and record new ones in auto mode', async () => {
+    await record();
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/posts', ApiXInMemoryTransport.json(200, { success: true, posts: [] }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport: new ApiXCassetteTransport({ path, transport })
+    });
+
+    await client.makeGetRequest('/users?a=1&b=2');
+    await client.makeGetRequest('/posts');
+
+    expect(transport.requests.map(request => request.url)).toEqual(['https://apix.example.com/posts']);
+    const cassette = JSON.parse(await readFile(path, 'utf-8'));
+    expect(cassette.interactions).toHaveLength(3);
+  });
+
+  it('should not record the cookies set by responses', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('POST', '/sessions', () => ({
+        status: 200,
+        headers: { 'content-type': 'application/json', 'set-cookie': 'session=secret-session' },
+        setCookieHeaders: ['session=secret-session; HttpOnly'],
+        body: '{"success":true}'
+      }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport: new ApiXCassetteTransport({ path, mode: 'record', transport })
+    });
+
+    const response = await client.makePostRequest('/sessions', { user: 'ada' });
+
+    expect(response.cookies?.[0]).toMatchObject({ name: 'session', value: 'secret-session' });
+    const content = await readFile(path, 'utf-8');
+    expect(content).not.toContain('secret-session');
+    expect(JSON.parse(content).interactions[0].response).toEqual({
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: '{"success":true}'
+    });
+  });
+
+  it('should record every interaction of concurrent requests', async () => {
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/users', ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport: new ApiXCassetteTransport({ path, mode: 'record', transport })
+    });
+
+    await Promise.all(Array.from({ length: 5 }, (_, page) => client.makeGetRequest(`/users?page=${page}`)));
+
+    const cassette = JSON.parse(await readFile(path, 'utf-8'));
+    expect(cassette.interactions).toHaveLength(5);
+  });
+
+  it.each([
+    ['is not JSON', '{"version":1,'],
+    ['has another version', '{"version":2,"interactions":[]}'],
+    ['has no interactions', '{"version":1}']
+  ])('should fail with an ApiXRequestError when the cassette %s', async (_, content) => {
+    await writeFile(path, content, 'utf-8');
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport: new ApiXCassetteTransport({ path, mode: 'replay' })
+    });
+
+    await expect(client.makeGetRequest('/users')).rejects.toThrow(/Cannot read the cassette/);
+  });
+});
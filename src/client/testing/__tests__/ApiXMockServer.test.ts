@@ -0,0 +1,103 @@
+import {
+  ApiXRequestNetworkError,
+  ApiXResponseInvalidRequestError,
+  ApiXResponseUnauthorizedAppError
+} from '../../error';
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXFetchTransport } from '../../transport/ApiXFetchTransport';
+import { ApiXMockServer } from '../ApiXMockServer';
+import { ApiXSigner } from '../../signing/ApiXSigner';
+import { ApiXTransportRequest } from '../../transport/ApiXTransport';
+
+describe('ApiXMockServer', () => {
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+  let server: ApiXMockServer;
+  let baseUrl: URL;
+
+  beforeEach(async () => {
+    server = new ApiXMockServer({ keys: { testApiKey: 'testAppKey' } })
+      .on('GET', '/users/:id', request => ({ data: { success: true, id: request.params.id } }))
+      .on('POST', '/users', request => ({ status: 201, data: { success: true, user: request.data } }))
+      .on('DELETE', '/users/:id', () => ApiXMockServer.error(400, 'invalidRequest', 'Cannot delete users.'));
+    baseUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should serve verified requests made by ApiXClient end to end', async () => {
+    const client = new ApiXClient(keyStore, { baseUrl });
+
+    await expect(client.makeGetRequest('/users/:id', { params: { id: 42 }, query: { b: 2, a: 1 } }))
+      .resolves.toMatchObject({ statusCode: 200, data: { success: true, id: '42' } });
+    await expect(client.makePostRequest('/users', { name: 'Alice', tags: { z: 1, a: 2 } }))
+      .resolves.toMatchObject({ statusCode: 201, data: { success: true, user: { name: 'Alice', tags: { z: 1, a: 2 } } } });
+    await expect(client.makeDeleteRequest('/users/1')).rejects.toThrow(ApiXResponseInvalidRequestError);
+
+    expect(server.requests.map(request => `${request.method} ${request.url.pathname}${request.url.search}`))
+      .toEqual(['GET /users/42?a=1&b=2', 'POST /users', 'DELETE /users/1']);
+    expect(server.requests[0].apiKey).toBe('testApiKey');
+  });
+
+  it('should respond with an internal error, or close the connection, when a handler fails', async () => {
+    server
+      .on('GET', '/broken', () => {
+        throw new Error('Broken handler');
+      })
+      .on('GET', '/unserializable', () => ({ data: { success: true, count: BigInt(1) } }));
+    const client = new ApiXClient(keyStore, { baseUrl, timeoutMs: 2000 });
+
+    await expect(client.makeGetRequest('/broken')).rejects.toMatchObject({ id: 'internalError', statusCode: 500 });
+    await expect(client.makeGetRequest('/unserializable')).rejects.toThrow(ApiXRequestNetworkError);
+    await expect(client.makeGetRequest('/users/1')).resolves.toMatchObject({ statusCode: 200 });
+  });
+
+  it('should reject replayed requests', async () => {
+    const sent: ApiXTransportRequest[] = [];
+    const fetchTransport = new ApiXFetchTransport();
+    const client = new ApiXClient(keyStore, {
+      baseUrl,
+      transport: {
+        send: async request => {
+          sent.push(request);
+          return await fetchTransport.send(request);
+        }
+      }
+    });
+
+    await client.makeGetRequest('/users/1');
+    const replay = await fetchTransport.send({ ...sent[0], signal: undefined });
+
+    expect(replay.status).toBe(401);
+    expect(JSON.parse(replay.body)).toMatchObject({ success: false, error: { id: 'unauthorizedRequest' } });
+  });
+
+  it('should reject old dates, missing headers and unknown keys with API-X errors', async () => {
+    const signer = new ApiXSigner(keyStore);
+    const old = await signer.sign({
+      httpMethod: 'GET',
+      url: new URL('/users/1', baseUrl),
+      date: new Date(Date.now() - 5 * 60000)
+    });
+    const oldResponse = await fetch(old.url, { headers: old.headers });
+    expect(oldResponse.status).toBe(401);
+    expect(await oldResponse.json()).toMatchObject({ error: { id: 'unauthorizedRequest' } });
+
+    const unsignedResponse = await fetch(new URL('/users/1', baseUrl));
+    expect(unsignedResponse.status).toBe(400);
+    expect(await unsignedResponse.json()).toMatchObject({ error: { id: 'missingRequiredHeaders' } });
+
+    const unknownKeyStore = { ...keyStore, getKeys: () => ({ apiKey: 'unknown', appKey: 'testAppKey' }) };
+    await expect(new ApiXClient(unknownKeyStore, { baseUrl }).makeGetRequest('/users/1'))
+      .rejects.toThrow(ApiXResponseUnauthorizedAppError);
+    expect(server.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,2 @@
+export * from './ApiXCassetteTransport';
+export * from './ApiXMockServer';
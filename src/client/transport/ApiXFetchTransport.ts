@@ -0,0 +1,89 @@
+import {
+  ApiXTransport,
+  ApiXTransportRequest,
+  ApiXTransportResponse,
+  ApiXTransportStreamResponse
+} from './ApiXTransport';
+
+/**
+ * The default transport, which sends requests with the Fetch API.
+ * 
+ * @category Sending HTTP Requests
+ */
+export class ApiXFetchTransport implements ApiXTransport {
+
+  /**
+   * Creates a new fetch-based transport.
+   * @param fetchImplementation The `fetch` function to use. Defaults to the
+   * global `fetch`, resolved when each request is sent.
+   */
+  public constructor(
+    private readonly fetchImplementation?: typeof fetch
+  ) {}
+
+  public async send(request: ApiXTransportRequest): Promise<ApiXTransportResponse> {
+    const response = await this.fetch(request);
+
+    return {
+      status: response.status,
+      headers: this.responseHeaders(response),
+      setCookieHeaders: response.headers.getSetCookie(),
+      body: await response.text()
+    };
+  }
+
+  public async stream(request: ApiXTransportRequest): Promise<ApiXTransportStreamResponse> {
+    const response = await this.fetch(request);
+
+    return {
+      status: response.status,
+      headers: this.responseHeaders(response),
+      setCookieHeaders: response.headers.getSetCookie(),
+      body: this.readBody(response.body)
+    };
+  }
+
+  private async fetch(request: ApiXTransportRequest): Promise<Response> {
+    const fetchFunction = this.fetchImplementation ?? fetch;
+    return await fetchFunction(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal
+    });
+  }
+
+  private responseHeaders(response: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+    return headers;
+  }
+
+  /**
+   * Reads a response body one chunk at a time, cancelling it if the
+   * iteration ends early.
+   */
+  private async *readBody(body: ReadableStream<Uint8Array> | null): AsyncGenerator<Uint8Array> {
+    if (!body) {
+      return;
+    }
+    const reader = body.getReader();
+    let done = false;
+    try {
+      while (!done) {
+        const result = await reader.read();
+        done = result.done;
+        if (result.value) {
+          yield result.value;
+        }
+      }
+    } finally {
+      if (!done) {
+        await reader.cancel();
+      }
+      reader.releaseLock();
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  ApiXTransport,
+  ApiXTransportRequest,
+  ApiXTransportResponse
+} from './ApiXTransport';
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+
+/**
+ * A function that produces the response for a request sent to an `ApiXInMemoryTransport`.
+ * 
+ * @category Sending HTTP Requests
+ */
+export type ApiXInMemoryRouteHandler = (
+  request: ApiXTransportRequest
+) => ApiXTransportResponse | Promise<ApiXTransportResponse>;
+
+/**
+ * Lowercases header names, as the `ApiXTransportResponse` contract requires.
+ */
+function lowercaseHeaderNames(headers: Record<string, string>): Record<string, string> {
+  const lowercased: Record<string, string> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    lowercased[name.toLowerCase()] = value;
+  });
+  return lowercased;
+}
+
+interface ApiXInMemoryRoute {
+  readonly method: ApiXHttpMethod;
+  readonly pathname: string;
+  readonly handler: ApiXInMemoryRouteHandler;
+}
+
+/**
+ * A transport that never touches the network. Responses are produced by
+ * route handlers registered with `on`.
+ * 
+ * This is useful for unit tests that need to exercise request signing and
+ * error mapping. Every request sent through this transport is recorded in
+ * `requests`, _including its signature headers_, so it should only be used
+ * in tests.
+ * 
+ * Requests that do not match any route receive a `404` API-X error response.
+ * The header names of every response are lowercased.
+ * 
+ * @category Sending HTTP Requests
+ */
+export class ApiXInMemoryTransport implements ApiXTransport {
+
+  /**
+   * The requests sent through this transport, in the order they were sent.
+   */
+  public readonly requests: ApiXTransportRequest[] = [];
+
+  private readonly routes: ApiXInMemoryRoute[] = [];
+
+  /**
+   * Registers a route. When several routes match a request, the one
+   * registered last is used.
+   * @param method The HTTP Method of the route.
+   * @param pathname The URL pathname of the route (e.g.: `/users`).
+   * @param handler The response to return, or a function that produces it.
+   * @returns This transport, for chaining.
+   */
+  public on(
+    method: ApiXHttpMethod,
+    pathname: string,
+    handler: ApiXInMemoryRouteHandler | ApiXTransportResponse
+  ): this {
+    this.routes.push({
+      method,
+      pathname,
+      handler: typeof handler === 'function' ? handler : () => handler
+    });
+    return this;
+  }
+
+  /**
+   * Removes all routes and recorded requests.
+   */
+  public reset() {
+    this.routes.length = 0;
+    this.requests.length = 0;
+  }
+
+  public async send(request: ApiXTransportRequest): Promise<ApiXTransportResponse> {
+    this.requests.push(request);
+    const pathname = new URL(request.url).pathname;
+    const route = [...this.routes]
+      .reverse()
+      .find(route => route.method === request.method && route.pathname === pathname);
+
+    if (!route) {
+      return ApiXInMemoryTransport.json(404, {
+        success: false,
+        error: {
+          id: 'notFound',
+          message: `No in-memory route for ${request.method} ${pathname}.`
+        }
+      });
+    }
+
+    const response = await route.handler(request);
+    return { ...response, headers: lowercaseHeaderNames(response.headers) };
+  }
+
+  /**
+   * Creates a JSON response.
+   * @param status The HTTP status code.
+   * @param data The JSON body.
+   * @param headers Additional response headers. Their names are lowercased.
+   * @returns A response that can be returned by a route handler.
+   */
+  public static json(
+    status: number,
+    data: unknown,
+    headers: Record<string, string> = {}
+  ): ApiXTransportResponse {
+    return {
+      status,
+      headers: lowercaseHeaderNames({
+        'content-type': 'application/json',
+        ...headers
+      }),
+      body: JSON.stringify(data)
+    };
+  }
+}
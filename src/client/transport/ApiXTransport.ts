@@ -0,0 +1,114 @@
+import { ApiXHttpMethod } from '../types/ApiXHttpMethod';
+
+/**
+ * A fully signed request that is handed to an `ApiXTransport` to be sent.
+ * 
+ * @category Sending HTTP Requests
+ */
+export interface ApiXTransportRequest {
+  /**
+   * The HTTP Method of the request.
+   */
+  readonly method: ApiXHttpMethod;
+
+  /**
+   * The absolute URL to which the request is sent.
+   */
+  readonly url: string;
+
+  /**
+   * All HTTP headers of the request, including the signature headers.
+   * 
+   * Header names are lowercased.
+   */
+  readonly headers: Record<string, string>;
+
+  /**
+   * The serialized HTTP body of the request, if any: a JSON string, or the
+   * raw bytes of a non-JSON body.
+   */
+  readonly body?: string | Uint8Array;
+
+  /**
+   * A signal that is aborted when the request times out or is cancelled.
+   * 
+   * Transports should stop sending the request when it is aborted.
+   */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * The raw response returned by an `ApiXTransport`.
+ * 
+ * @category Sending HTTP Requests
+ */
+export interface ApiXTransportResponse {
+  /**
+   * The HTTP status code of the response.
+   */
+  readonly status: number;
+
+  /**
+   * The HTTP headers of the response. Header names are lowercased.
+   */
+  readonly headers: Record<string, string>;
+
+  /**
+   * The value of each `Set-Cookie` header of the response, if any.
+   * 
+   * `Set-Cookie` headers cannot be combined into a single value, so transports
+   * should report them here rather than in `headers`.
+   */
+  readonly setCookieHeaders?: readonly string[];
+
+  /**
+   * The raw HTTP body of the response. An empty string if the response has no body.
+   */
+  readonly body: string;
+}
+
+/**
+ * The raw response returned by an `ApiXTransport` whose body is streamed.
+ * 
+ * @category Sending HTTP Requests
+ */
+export interface ApiXTransportStreamResponse extends Omit<ApiXTransportResponse, 'body'> {
+  /**
+   * The raw HTTP body of the response, read one chunk at a time.
+   * 
+   * The next chunk should only be read from the network when it is requested,
+   * and returning early from the iteration should cancel the response.
+   */
+  readonly body: AsyncIterable<Uint8Array>;
+}
+
+/**
+ * An object that sends signed API-X requests over the network (or anywhere else).
+ * 
+ * Implement this interface to use a different HTTP stack, a test double, or a
+ * recording layer with `ApiXRequest` and `ApiXClient`.
+ * 
+ * @category Sending HTTP Requests
+ */
+export interface ApiXTransport {
+  /**
+   * Sends a request and returns its response.
+   * @param request The fully signed request to send.
+   * @returns The raw response.
+   * @throws Any error when the request could not be sent or no response was received.
+   */
+  send(request: ApiXTransportRequest): Promise<ApiXTransportResponse>;
+
+  /**
+   * Sends a request and returns its response as soon as its headers are
+   * received, without reading its body.
+   * 
+   * Transports that do not implement this method are still used by
+   * `ApiXRequest.stream()`, but the body of the response is read completely
+   * before it is parsed.
+   * @param request The fully signed request to send.
+   * @returns The raw response, with a streamed body.
+   * @throws Any error when the request could not be sent or no response was received.
+   */
+  stream?(request: ApiXTransportRequest): Promise<ApiXTransportStreamResponse>;
+}
@@ -0,0 +1,143 @@
+import { ApiXFetchTransport } from '../ApiXFetchTransport';
+import { ApiXInMemoryTransport } from '../ApiXInMemoryTransport';
+import { ApiXRequest } from '../../ApiXRequest';
+import { ApiXResponseUnauthorizedRequestError } from '../../error';
+import { createHmac } from 'crypto';
+
+describe('ApiXFetchTransport', () => {
+  it('should send the request with fetch and return status, headers and body', async () => {
+    const fetchMock = jest.fn().mockResolvedValue(
+      new Response('{"success":true}', {
+        status: 201,
+        headers: { 'X-Request-Id': 'abc' }
+      })
+    );
+    const transport = new ApiXFetchTransport(fetchMock);
+
+    const response = await transport.send({
+      method: 'POST',
+      url: 'https://apix.example.com/endpoint',
+      headers: { 'content-type': 'application/json' },
+      body: '{"key":"value"}'
+    });
+
+    expect(fetchMock).toHaveBeenCalledWith('https://apix.example.com/endpoint', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: '{"key":"value"}'
+    });
+    expect(response.status).toBe(201);
+    expect(response.headers['x-request-id']).toBe('abc');
+    expect(response.body).toBe('{"success":true}');
+  });
+});
+
+describe('ApiXInMemoryTransport', () => {
+  const keyStore = {
+    getApiKey: jest.fn().mockReturnValue('testApiKey'),
+    getAppKey: jest.fn().mockReturnValue('testAppKey'),
+    getKeys: jest.fn().mockReturnValue({
+      apiKey: 'testApiKey',
+      appKey: 'testAppKey'
+    })
+  };
+
+  let transport: ApiXInMemoryTransport;
+
+  beforeEach(() => {
+    transport = new ApiXInMemoryTransport();
+  });
+
+  it('should route requests to registered handlers', async () => {
+    transport.on('GET', '/users', ApiXInMemoryTransport.json(200, { success: true, users: [] }));
+
+    const response = await new ApiXRequest({
+      url: new URL('https://apix.example.com/users?limit=10'),
+      keyStore,
+      transport
+    }).make();
+
+    expect(response.statusCode).toBe(200);
+    expect(response.data).toEqual({ success: true, users: [] });
+  });
+
+  it('should record signed requests so signatures can be verified', async () => {
+    transport.on('POST', '/users', () => ApiXInMemoryTransport.json(200, { success: true }));
+
+    await new ApiXRequest({
+      url: new URL('https://apix.example.com/users'),
+      keyStore,
+      transport,
+      httpMethod: 'POST',
+      data: { name: 'Alice' }
+    }).make();
+
+    expect(transport.requests).toHaveLength(1);
+    const [sent] = transport.requests;
+    const body = Buffer.from(sent.body as string, 'utf-8').toString('base64');
+    const message = `/users.POST.${sent.headers['x-signature-nonce']}.${sent.headers['date']}.${body}`;
+    const expectedSignature = createHmac('sha256', 'testAppKey')
+      .update(message, 'utf-8')
+      .digest('hex');
+
+    expect(sent.headers['x-api-key']).toBe('testApiKey');
+    expect(sent.headers['x-signature']).toBe(expectedSignature);
+  });
+
+  it('should map error envelopes to API-X response errors', async () => {
+    transport.on('GET', '/secret', ApiXInMemoryTransport.json(401, {
+      success: false,
+      error: {
+        id: 'unauthorizedRequest',
+        message: 'Request is not authorized'
+      }
+    }));
+
+    await expect(new ApiXRequest({
+      url: new URL('https://apix.example.com/secret'),
+      keyStore,
+      transport
+    }).make()).rejects.toThrow(ApiXResponseUnauthorizedRequestError);
+  });
+
+  it('should respond with 404 for unknown routes and prefer the latest route', async () => {
+    transport
+      .on('GET', '/config', ApiXInMemoryTransport.json(200, { success: true, version: 1 }))
+      .on('GET', '/config', ApiXInMemoryTransport.json(200, { success: true, version: 2 }));
+
+    const response = await new ApiXRequest({
+      url: new URL('https://apix.example.com/config'),
+      keyStore,
+      transport
+    }).make();
+    expect(response.data).toEqual({ success: true, version: 2 });
+
+    await expect(new ApiXRequest({
+      url: new URL('https://apix.example.com/missing'),
+      keyStore,
+      transport
+    }).make()).rejects.toMatchObject({ id: 'notFound', statusCode: 404 });
+
+    transport.reset();
+    expect(transport.requests).toHaveLength(0);
+  });
+  it('should lowercase the header names of responses', async () => {
+    transport
+      .on('GET', '/json', ApiXInMemoryTransport.json(200, { success: true }, {
+        'Content-Type': 'application/json; charset=utf-8',
+        ETag: '"v1"'
+      }))
+      .on('GET', '/raw', { status: 200, headers: { 'Retry-After': '5' }, body: '' });
+    const request = (pathname: string) => ({
+      method: 'GET' as const,
+      url: `https://apix.example.com${pathname}`,
+      headers: {}
+    });
+
+    expect((await transport.send(request('/json'))).headers).toEqual({
+      'content-type': 'application/json; charset=utf-8',
+      etag: '"v1"'
+    });
+    expect((await transport.send(request('/raw'))).headers).toEqual({ 'retry-after': '5' });
+  });
+});
@@ -0,0 +1,3 @@
+export * from './ApiXTransport';
+export * from './ApiXFetchTransport';
+export * from './ApiXInMemoryTransport';
@@ -0,0 +1,107 @@
+import { ApiXBatchPolicy } from '../batch/ApiXBatchPolicy';
+import { ApiXCanonicalizationVersion } from '../signing/ApiXCanonicalJson';
+import { ApiXCircuitBreakerPolicy } from '../circuit/ApiXCircuitBreakerPolicy';
+import { ApiXClockSkewPolicy } from '../clock/ApiXClockSkewPolicy';
+import { ApiXCookieJar } from '../cookies/ApiXCookieJar';
+import { ApiXRateLimitPolicy } from '../ratelimit/ApiXRateLimitPolicy';
+import { ApiXResponseCache } from '../cache/ApiXResponseCache';
+import { ApiXRetryPolicy } from '../retry/ApiXRetryPolicy';
+import { ApiXTransport } from '../transport/ApiXTransport';
+
+/**
+ * An object used to configure an `ApiXClient` object.
+ * 
+ * @category Making API-X Requests
+ */
+export interface ApiXClientOptions {
+  /**
+   * The URL against which path templates (e.g.: `/users/:id`) passed to the
+   * client are resolved. Its pathname is kept as a prefix.
+   */
+  readonly baseUrl?: URL | string;
+
+  /**
+   * The transport used to send every request made by the client.
+   * 
+   * Defaults to an `ApiXFetchTransport`, which uses the global `fetch`.
+   */
+  readonly transport?: ApiXTransport;
+
+  /**
+   * The policy used to retry failed requests.
+   * 
+   * Requests are not retried if this is not set.
+   */
+  readonly retry?: ApiXRetryPolicy;
+
+  /**
+   * The default timeout of every request made by the client, in milliseconds.
+   * 
+   * A `timeoutMs` passed when making a request takes precedence.
+   */
+  readonly timeoutMs?: number;
+
+  /**
+   * The cookie jar in which the client stores the cookies it receives, and
+   * from which it fills in the cookies of each new request.
+   * 
+   * Cookies are not shared between requests if this is not set. Cookies set
+   * directly on a request take precedence over those in the jar.
+   */
+  readonly cookieJar?: ApiXCookieJar;
+
+  /**
+   * The policy used to rate limit the requests made with the `make*` methods.
+   * 
+   * Requests are not rate limited if this is not set.
+   */
+  readonly rateLimit?: ApiXRateLimitPolicy;
+
+  /**
+   * The policy of the circuit breakers that stop sending requests made with
+   * the `make*` methods to an origin that keeps failing.
+   * 
+   * Circuits never open if this is not set.
+   */
+  readonly circuitBreaker?: ApiXCircuitBreakerPolicy;
+
+  /**
+   * The policy used to compensate for the skew between the local clock and
+   * the server's when stamping the `Date` header of requests.
+   * 
+   * The local clock is used as is if this is not set.
+   */
+  readonly clockSkew?: ApiXClockSkewPolicy;
+
+  /**
+   * Whether concurrent GET requests made with the `make*` methods share one
+   * signed request when they have the same URL, unprotected headers, cookies
+   * and validator. Every caller then receives the same response or error.
+   * 
+   * Defaults to `false`.
+   */
+  readonly deduplicateRequests?: boolean;
+
+  /**
+   * The cache used by every GET request made by the client.
+   * 
+   * Responses are not cached if this is not set.
+   */
+  readonly cache?: ApiXResponseCache;
+
+  /**
+   * The batch endpoint to which `ApiXBatch` objects created by the client
+   * send their operations.
+   * 
+   * Batched operations are sent as separate requests, in parallel, if this is not set.
+   */
+  readonly batch?: ApiXBatchPolicy;
+
+  /**
+   * How the JSON body of every request made by the client is canonicalized
+   * when it is signed: `jcs` (RFC 8785), or `legacy`.
+   * 
+   * Defaults to `legacy`, which servers that predate canonicalization versions expect.
+   */
+  readonly canonicalization?: ApiXCanonicalizationVersion;
+}
@@ -0,0 +1,15 @@
+import { ApiXPaginationLimits } from '../pagination/ApiXPaginator';
+import { ApiXRequestOptions } from './ApiXRequestOptions';
+import { ApiXResponseData } from './ApiXResponse';
+
+/**
+ * Options that can be passed when paginating a list with `ApiXClient`.
+ * 
+ * The request options apply to the request of every page.
+ * 
+ * @category Paginating Responses
+ */
+export interface ApiXPaginateOptions<
+  Path extends string = string,
+  DataType extends ApiXResponseData = ApiXResponseData
+> extends ApiXRequestOptions<Path, DataType>, ApiXPaginationLimits {}
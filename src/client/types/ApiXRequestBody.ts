@@ -0,0 +1,34 @@
+/**
+ * A raw binary request body.
+ * 
+ * `Buffer`s are `Uint8Array`s, and Node.js `Readable` streams are async
+ * iterables, so both can be used directly. Streams are read completely
+ * before the request is signed, and their bytes are reused if the request is
+ * sent again, e.g. when it is retried.
+ * 
+ * @category Sending Request Bodies
+ */
+export type ApiXBinaryBody =
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array | string>;
+
+/**
+ * A request body that is not JSON.
+ * 
+ * - `URLSearchParams` are sent as `application/x-www-form-urlencoded`.
+ * - `FormData` is sent as `multipart/form-data`.
+ * - Binary bodies are sent as `application/octet-stream`, or with the `type`
+ *   of a `Blob`, if any.
+ * 
+ * Unlike JSON bodies, these bodies are signed with the SHA-256 digest of
+ * their raw bytes, which is also sent in the `Content-Digest` header.
+ * 
+ * @category Sending Request Bodies
+ */
+export type ApiXRequestBody =
+  | URLSearchParams
+  | FormData
+  | ApiXBinaryBody;
@@ -1,6 +1,13 @@
+import { ApiXCanonicalizationVersion } from '../signing/ApiXCanonicalJson';
+import { ApiXClock } from '../clock/ApiXClock';
 import { ApiXHttpMethod } from './ApiXHttpMethod';
 import { ApiXJsonObject } from './ApiXJsonObject';
 import { ApiXKeyStore } from '../security/ApiXKeyStore';
+import { ApiXRequestBody } from './ApiXRequestBody';
+import { ApiXResponseCache } from '../cache/ApiXResponseCache';
+import { ApiXResponseData } from './ApiXResponse';
+import { ApiXResponseValidator } from './ApiXResponseValidator';
+import { ApiXTransport } from '../transport/ApiXTransport';
 
 /**
  * An object used to configure an `ApiXRequest` object.
@@ -27,4 +34,61 @@ export interface ApiXRequestConfig {
    * The HTTP JSON Body of the request.
    */
   readonly data?: ApiXJsonObject;
-}
\ No newline at end of file
+
+  /**
+   * A non-JSON HTTP Body of the request, such as form data or a file.
+   * 
+   * The `Content-Type` is set from the kind of body. It cannot be used
+   * together with `data`.
+   */
+  readonly body?: ApiXRequestBody;
+
+  /**
+   * The transport used to send the request.
+   * 
+   * Defaults to an `ApiXFetchTransport`, which uses the global `fetch`.
+   */
+  readonly transport?: ApiXTransport;
+
+  /**
+   * The maximum time to wait for the response, in milliseconds.
+   * 
+   * When it elapses, the request is aborted and an `ApiXRequestTimeoutError` is thrown.
+   */
+  readonly timeoutMs?: number;
+
+  /**
+   * A signal that cancels the request. When it is aborted, an
+   * `ApiXRequestAbortedError` is thrown.
+   */
+  readonly signal?: AbortSignal;
+
+  /**
+   * A validator that checks the data of a successful response before it is
+   * returned by `make()`.
+   * 
+   * If the data is invalid, an `ApiXResponseValidationError` is thrown.
+   */
+  readonly validator?: ApiXResponseValidator<ApiXResponseData>;
+
+  /**
+   * A cache in which the response of a GET request is looked up before it is
+   * sent, and stored once it is received.
+   */
+  readonly cache?: ApiXResponseCache;
+
+  /**
+   * The clock used to stamp the `Date` header of the request, and which learns
+   * the skew of the server from the `Date` header of the response.
+   * 
+   * The local clock is used if this is not set.
+   */
+  readonly clock?: ApiXClock;
+
+  /**
+   * How the JSON body is canonicalized when the request is signed.
+   * 
+   * Defaults to `legacy`, which servers that predate canonicalization versions expect.
+   */
+  readonly canonicalization?: ApiXCanonicalizationVersion;
+}
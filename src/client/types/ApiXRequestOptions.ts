@@ -0,0 +1,55 @@
+import {
+  ApiXPathParams,
+  ApiXQueryParams
+} from './ApiXUrlParams';
+import { ApiXResponseData } from './ApiXResponse';
+import { ApiXResponseValidator } from './ApiXResponseValidator';
+
+/**
+ * Options that can be passed when making a request with `ApiXClient`.
+ * 
+ * @category Making API-X Requests
+ */
+export interface ApiXRequestOptions<
+  Path extends string = string,
+  DataType extends ApiXResponseData = ApiXResponseData
+> {
+  /**
+   * The values of the `:name` segments when the request is made with a path
+   * template such as `/users/:id/posts`.
+   */
+  readonly params?: ApiXPathParams<Path>;
+
+  /**
+   * The query parameters to append to the URL of the request.
+   */
+  readonly query?: ApiXQueryParams;
+
+  /**
+   * Additional headers of the request, e.g. `If-Match`.
+   * 
+   * Protected and read-only headers, such as `X-API-Key` or `Date`, cannot be set.
+   */
+  readonly headers?: Record<string, string>;
+
+  /**
+   * The maximum time to wait for the response, in milliseconds.
+   * 
+   * When it elapses, the request is aborted and an `ApiXRequestTimeoutError` is thrown.
+   */
+  readonly timeoutMs?: number;
+
+  /**
+   * A signal that cancels the request. When it is aborted, an
+   * `ApiXRequestAbortedError` is thrown.
+   */
+  readonly signal?: AbortSignal;
+
+  /**
+   * A validator that checks the data of a successful response before it is
+   * returned. When set, the type of the response data is inferred from it.
+   * 
+   * If the data is invalid, an `ApiXResponseValidationError` is thrown.
+   */
+  readonly validator?: ApiXResponseValidator<DataType>;
+}
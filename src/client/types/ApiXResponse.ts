@@ -1,3 +1,6 @@
+import { ApiXCookie } from '../cookies/ApiXCookie';
+import { ApiXResponseHeaders } from '../headers/ApiXResponseHeaders';
+
 /**
  * A response data object that is returned when a request is made with
  * the `ApiXRequest` object.
@@ -29,4 +32,15 @@ export interface ApiXResponse<DataType extends ApiXResponseData = ApiXResponseDa
    * The HTTP status code returned by the API-X endpoint.
    */
   readonly statusCode: number;
+
+  /**
+   * The HTTP headers returned by the API-X endpoint, such as `ETag`,
+   * `Retry-After` or rate-limit headers.
+   */
+  readonly headers?: ApiXResponseHeaders;
+
+  /**
+   * The cookies set by the API-X endpoint with `Set-Cookie` headers.
+   */
+  readonly cookies?: readonly ApiXCookie[];
 }
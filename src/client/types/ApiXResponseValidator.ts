@@ -0,0 +1,55 @@
+/**
+ * A problem found while validating the data of a response.
+ * 
+ * @category Validating Responses
+ */
+export interface ApiXValidationIssue {
+  /**
+   * A human-readable description of the problem.
+   */
+  readonly message: string;
+
+  /**
+   * The path to the invalid value in the response data, if known.
+   */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * The result of validating a value with an `ApiXStandardSchema`.
+ * 
+ * @category Validating Responses
+ */
+export type ApiXStandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<ApiXValidationIssue> };
+
+/**
+ * A schema that implements the [Standard Schema](https://standardschema.dev)
+ * interface, such as those created with Zod, Valibot or ArkType.
+ * 
+ * @category Validating Responses
+ */
+export interface ApiXStandardSchema<Output = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => ApiXStandardSchemaResult<Output> | Promise<ApiXStandardSchemaResult<Output>>;
+  };
+}
+
+/**
+ * An object that validates the data of a response at runtime.
+ * 
+ * This can be either:
+ * - A function that receives the response data and returns it typed. It must
+ *   throw if the data is invalid.
+ * - A Standard Schema (e.g.: a Zod schema).
+ * 
+ * @category Validating Responses
+ */
+export type ApiXResponseValidator<DataType> =
+  | ((data: unknown) => DataType)
+  | ApiXStandardSchema<DataType>;
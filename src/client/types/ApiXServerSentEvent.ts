@@ -0,0 +1,26 @@
+/**
+ * An event received from a `text/event-stream` (Server-Sent Events) response.
+ * 
+ * @category Streaming Responses
+ */
+export interface ApiXServerSentEvent {
+  /**
+   * The type of the event. Defaults to `message`.
+   */
+  readonly event: string;
+
+  /**
+   * The data of the event. Multiple `data` lines are joined with `\n`.
+   */
+  readonly data: string;
+
+  /**
+   * The last event ID received in the stream, if any.
+   */
+  readonly id?: string;
+
+  /**
+   * The reconnection time requested by the server, in milliseconds, if any.
+   */
+  readonly retry?: number;
+}
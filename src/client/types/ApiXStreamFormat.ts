@@ -0,0 +1,10 @@
+/**
+ * The format in which a streamed response body is parsed.
+ * 
+ * - `ndjson`: newline-delimited JSON, one parsed record per line.
+ * - `sse`: Server-Sent Events, one `ApiXServerSentEvent` per event.
+ * - `bytes`: the raw chunks of the body, as `Uint8Array`s.
+ * 
+ * @category Streaming Responses
+ */
+export type ApiXStreamFormat = 'ndjson' | 'sse' | 'bytes';
@@ -0,0 +1,36 @@
+import { ApiXResponseData } from './ApiXResponse';
+
+/**
+ * The data of a successful API-X response, where `T` describes the
+ * endpoint-specific fields.
+ * 
+ * Because `success` is `true`, this type narrows correctly against
+ * `ApiXErrorResponse`, whose `success` is always `false`:
+ * 
+ * ```typescript
+ * type UserResponse = ApiXSuccessResponse<{ user: User }>;
+ * const response = await client.makeGetRequest<UserResponse>(url);
+ * console.log(response.data?.user);
+ * ```
+ * 
+ * @category Making API-X Requests
+ */
+export type ApiXSuccessResponse<T extends object = object> = ApiXResponseData & T & {
+  /**
+   * A Boolean value indicating whether the request was successful.
+   * This will always be `true` for a success response.
+   */
+  readonly success: true;
+};
+
+/**
+ * Type guard to check if the given data is an `ApiXSuccessResponse`.
+ * 
+ * This only checks the `success` field. The endpoint-specific fields are not validated.
+ * 
+ * @param data The data to check.
+ * @returns `true` if the data is an `ApiXSuccessResponse`, otherwise `false`.
+ */
+export const isApiXSuccessResponse = <T extends object = object>(data: unknown): data is ApiXSuccessResponse<T> => {
+  return typeof data === 'object' && data !== null && (data as ApiXResponseData).success === true;
+}
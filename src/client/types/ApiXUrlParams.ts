@@ -0,0 +1,51 @@
+/**
+ * A value that can be substituted into a path template.
+ * 
+ * @category Building URLs
+ */
+export type ApiXPathParamValue = string | number | boolean;
+
+/**
+ * The names of the parameters in a path template, e.g. `'id' | 'postId'`
+ * for `/users/:id/posts/:postId`.
+ * 
+ * @category Building URLs
+ */
+export type ApiXPathParamNames<Path extends string> =
+  Path extends `${string}:${infer Param}/${infer Rest}`
+    ? Param | ApiXPathParamNames<Rest>
+    : Path extends `${string}:${infer Param}`
+      ? Param
+      : never;
+
+/**
+ * The parameters of a path template, e.g. `{ id: string | number | boolean }`
+ * for `/users/:id/posts`.
+ * 
+ * @category Building URLs
+ */
+export type ApiXPathParams<Path extends string = string> = string extends Path
+  ? Record<string, ApiXPathParamValue>
+  : Record<ApiXPathParamNames<Path>, ApiXPathParamValue>;
+
+/**
+ * A value of a query parameter. `null` and `undefined` values are omitted,
+ * arrays repeat the parameter once per element, and objects are flattened
+ * into `name[key]` parameters.
+ * 
+ * @see canonicalApiXQueryString
+ * @category Building URLs
+ */
+export type ApiXQueryParamValue =
+  | ApiXPathParamValue
+  | null
+  | undefined
+  | readonly ApiXPathParamValue[]
+  | { readonly [key: string]: ApiXQueryParamValue };
+
+/**
+ * The query parameters of a request.
+ * 
+ * @category Building URLs
+ */
+export type ApiXQueryParams = Record<string, ApiXQueryParamValue>;
@@ -1,5 +1,14 @@
+export * from './ApiXClientOptions';
 export * from './ApiXHttpMethod';
 export * from './ApiXJsonObject';
+export * from './ApiXPaginateOptions';
 export * from './ApiXRequestConfig';
+export * from './ApiXRequestBody';
+export * from './ApiXRequestOptions';
 export * from './ApiXResponse';
+export * from './ApiXResponseValidator';
+export * from './ApiXServerSentEvent';
+export * from './ApiXStreamFormat';
+export * from './ApiXSuccessResponse';
+export * from './ApiXUrlParams';
 export * from './ApiXErrorResponse';
@@ -0,0 +1,129 @@
+import { ApiXQueryParamValue, ApiXQueryParams } from '../types/ApiXUrlParams';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+
+/**
+ * Percent-encodes a URL component.
+ * 
+ * In addition to what `encodeURIComponent` encodes, this encodes `!`, `'`,
+ * `(`, `)` and `*`, so the result is never re-encoded by `URL`. This ensures
+ * that the `pathname + search` of the built URL (which is what requests sign)
+ * is exactly the string that was built.
+ * @param value The value to encode.
+ * @returns The encoded value.
+ * 
+ * @category Building URLs
+ */
+export const encodeApiXUrlComponent = (value: string): string => {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    character => `%${character.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+};
+
+/**
+ * Builds the canonical form of a query string.
+ * 
+ * The canonical form is what API-X requests send and sign, and what servers
+ * should rebuild from the query they receive before verifying a signature:
+ * 
+ * 1. Every name and value is percent-encoded with `encodeApiXUrlComponent`,
+ *    so only the RFC 3986 unreserved characters (`A-Z a-z 0-9 - . _ ~`) are
+ *    left as is, and percent-encodings use uppercase hex digits. Query strings
+ *    are decoded first, with `+` read as a space.
+ * 2. Nested objects are flattened with brackets: `{ filter: { status: 'open' } }`
+ *    becomes `filter[status]=open` (before encoding the brackets).
+ * 3. Arrays repeat the parameter once per element, in order:
+ *    `{ tag: ['a', 'b'] }` becomes `tag=a&tag=b`.
+ * 4. `null` and `undefined` values are omitted. A parameter without a value
+ *    becomes `name=`.
+ * 5. Parameters are sorted by encoded name, comparing code units. Parameters
+ *    with the same name keep their relative order.
+ * 
+ * @param query The query parameters, or a query string with or without its
+ * leading `?`.
+ * @returns The canonical query string, without a leading `?`.
+ * @throws `ApiXRequestError` if the query string is not validly percent-encoded.
+ * 
+ * @category Building URLs
+ */
+export const canonicalApiXQueryString = (query: ApiXQueryParams | URLSearchParams | string): string => {
+  const pairs = typeof query === 'string'
+    ? parseQueryString(query)
+    : query instanceof URLSearchParams
+      ? Array.from(query.entries())
+      : flattenQueryParams(query);
+  return pairs
+    .map(([name, value]) => [encodeApiXUrlComponent(name), encodeApiXUrlComponent(value)])
+    .sort(([lhs], [rhs]) => lhs < rhs ? -1 : lhs > rhs ? 1 : 0)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+};
+
+/**
+ * Rewrites the query of a URL into its canonical form.
+ * 
+ * @param url The URL to canonicalize.
+ * @returns A URL whose `search` is the canonical query string. If the query is
+ * already canonical, the same instance is returned.
+ * @throws `ApiXRequestError` if the query string is not validly percent-encoded.
+ * 
+ * @see canonicalApiXQueryString
+ * @category Building URLs
+ */
+export const canonicalizeApiXUrl = (url: URL): URL => {
+  const canonicalQuery = canonicalApiXQueryString(url.search);
+  const search = canonicalQuery.length > 0 ? `?${canonicalQuery}` : '';
+
+  if (url.search === search) {
+    return url;
+  }
+
+  const canonicalUrl = new URL(url.toString());
+  canonicalUrl.search = search;
+  return canonicalUrl;
+};
+
+const parseQueryString = (search: string): [string, string][] => {
+  return search
+    .replace(/^\?/, '')
+    .split('&')
+    .filter(pair => pair.length > 0)
+    .map(pair => {
+      const separatorIndex = pair.indexOf('=');
+      const name = separatorIndex >= 0 ? pair.slice(0, separatorIndex) : pair;
+      const value = separatorIndex >= 0 ? pair.slice(separatorIndex + 1) : '';
+      return [decodeQueryComponent(name), decodeQueryComponent(value)];
+    });
+};
+
+const decodeQueryComponent = (component: string): string => {
+  try {
+    return decodeURIComponent(component.replace(/\+/g, ' '));
+  } catch {
+    throw new ApiXRequestError(`Invalid percent-encoding in query component ${component}.`);
+  }
+};
+
+const flattenQueryParams = (query: ApiXQueryParams, prefix?: string): [string, string][] => {
+  const pairs: [string, string][] = [];
+  Object.entries(query).forEach(([key, value]) => {
+    const name = prefix === undefined ? key : `${prefix}[${key}]`;
+    pairs.push(...flattenQueryParamValue(name, value));
+  });
+  return pairs;
+};
+
+const flattenQueryParamValue = (name: string, value: ApiXQueryParamValue): [string, string][] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value
+      .filter(item => item !== undefined && item !== null)
+      .map(item => [name, String(item)]);
+  }
+  if (typeof value === 'object') {
+    return flattenQueryParams(value as ApiXQueryParams, name);
+  }
+  return [[name, String(value)]];
+};
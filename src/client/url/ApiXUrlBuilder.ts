@@ -0,0 +1,99 @@
+import {
+  ApiXPathParams,
+  ApiXQueryParams
+} from '../types/ApiXUrlParams';
+import {
+  canonicalApiXQueryString,
+  canonicalizeApiXUrl,
+  encodeApiXUrlComponent
+} from './ApiXCanonicalQuery';
+import { ApiXRequestError } from '../error/ApiXRequestError';
+
+/**
+ * Options used to build the URL of an API-X request.
+ * 
+ * @category Building URLs
+ */
+export interface ApiXUrlBuilderOptions<Path extends string = string> {
+  /**
+   * The URL against which path templates are resolved. Its pathname is kept
+   * as a prefix, so `/users` resolved against `https://apix.example.com/v1`
+   * results in `https://apix.example.com/v1/users`.
+   */
+  readonly baseUrl?: URL | string;
+
+  /**
+   * The values of the `:name` segments in the path template.
+   */
+  readonly params?: ApiXPathParams<Path>;
+
+  /**
+   * The query parameters to append to the URL.
+   */
+  readonly query?: ApiXQueryParams;
+}
+
+/**
+ * Builds the URL of an API-X request.
+ * @param url A `URL`, or a path template such as `/users/:id/posts` that is
+ * resolved against `options.baseUrl`.
+ * @param options The base URL, path parameters and query parameters.
+ * @returns The URL of the request, with its query in canonical form (see
+ * `canonicalApiXQueryString`). If `url` is a `URL` with a canonical query and
+ * there is no query to append, the same instance is returned.
+ * @throws `ApiXRequestError` if a path template is used without a base URL, or
+ * if a path parameter is missing.
+ * 
+ * @category Building URLs
+ */
+export const buildApiXUrl = <Path extends string>(
+  url: URL | Path,
+  options: ApiXUrlBuilderOptions<Path> = {}
+): URL => {
+  const builtUrl = typeof url === 'string'
+    ? resolvePathTemplate(url, options)
+    : url;
+  const search = canonicalApiXQueryString(options.query ?? {});
+
+  if (search.length === 0) {
+    return canonicalizeApiXUrl(builtUrl);
+  }
+
+  const urlWithQuery = new URL(builtUrl.toString());
+  urlWithQuery.search = urlWithQuery.search.length > 1
+    ? `${urlWithQuery.search}&${search}`
+    : `?${search}`;
+  return canonicalizeApiXUrl(urlWithQuery);
+};
+
+const resolvePathTemplate = <Path extends string>(
+  pathTemplate: Path,
+  options: ApiXUrlBuilderOptions<Path>
+): URL => {
+  if (options.baseUrl === undefined) {
+    throw new ApiXRequestError(`A base URL is required to resolve the path ${pathTemplate}.`);
+  }
+
+  const params: Record<string, unknown> = options.params ?? {};
+  const queryIndex = pathTemplate.indexOf('?');
+  const templatePath = queryIndex >= 0 ? pathTemplate.slice(0, queryIndex) : pathTemplate;
+  const templateSearch = queryIndex >= 0 ? pathTemplate.slice(queryIndex) : '';
+  const path = templatePath.replace(/:([A-Za-z0-9_]+)/g, (_, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null) {
+      throw new ApiXRequestError(`Missing value for path parameter :${name} in ${pathTemplate}.`);
+    }
+    // Dot segments would be removed by `URL`, changing which resource is requested.
+    if (value === '.' || value === '..') {
+      throw new ApiXRequestError(`Invalid value for path parameter :${name} in ${pathTemplate}: ${value}.`);
+    }
+    return encodeApiXUrlComponent(String(value));
+  });
+
+  const url = new URL(options.baseUrl.toString());
+  const basePath = url.pathname.replace(/\/+$/, '');
+  url.pathname = `${basePath}/${path.replace(/^\/+/, '')}`;
+  url.search = templateSearch;
+  url.hash = '';
+  return url;
+};
@@ -0,0 +1,67 @@
+import { canonicalApiXQueryString, canonicalizeApiXUrl } from '../ApiXCanonicalQuery';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXRequest } from '../../ApiXRequest';
+import { ApiXRequestError } from '../../error';
+import { ApiXSigner } from '../../signing/ApiXSigner';
+
+describe('ApiXCanonicalQuery', () => {
+  it('should sort parameters by name and keep the order of repeated parameters', () => {
+    expect(canonicalApiXQueryString({ b: 2, a: 1, tag: ['z', 'a'], B: 3 }))
+      .toBe('B=3&a=1&b=2&tag=z&tag=a');
+  });
+
+  it('should flatten nested objects with brackets', () => {
+    expect(canonicalApiXQueryString({
+      filter: { status: 'open', owner: { id: 7 }, tags: ['x', 'y'], archived: undefined }
+    })).toBe('filter%5Bowner%5D%5Bid%5D=7&filter%5Bstatus%5D=open&filter%5Btags%5D=x&filter%5Btags%5D=y');
+  });
+
+  it('should produce the same form for logically identical query strings', () => {
+    const canonical = 'a=%2A%20b&c=&d=%C3%A9';
+    expect(canonicalApiXQueryString('?d=%c3%a9&a=*+b&c')).toBe(canonical);
+    expect(canonicalApiXQueryString('c=&a=%2A%20b&&d=é')).toBe(canonical);
+    expect(canonicalApiXQueryString(new URLSearchParams({ d: 'é', c: '', a: '* b' }))).toBe(canonical);
+    expect(canonicalApiXQueryString({ d: 'é', c: '', a: '* b' })).toBe(canonical);
+  });
+
+  it('should reject invalid percent-encoding', () => {
+    expect(() => canonicalApiXQueryString('a=%E0%A4%A')).toThrow(ApiXRequestError);
+  });
+
+  it('should canonicalize URLs, returning the same instance when already canonical', () => {
+    const canonicalUrl = new URL('https://apix.example.com/items?a=1&b=2#top');
+    expect(canonicalizeApiXUrl(canonicalUrl)).toBe(canonicalUrl);
+    expect(canonicalizeApiXUrl(new URL('https://apix.example.com/items?b=2&a=1#top')).toString())
+      .toBe('https://apix.example.com/items?a=1&b=2#top');
+    expect(canonicalizeApiXUrl(new URL('https://apix.example.com/items?')).search).toBe('');
+  });
+
+  it('should send and sign the canonical form of the request URL', async () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue('testAppKey'),
+      getKeys: jest.fn().mockReturnValue({
+        apiKey: 'testApiKey',
+        appKey: 'testAppKey'
+      })
+    };
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/items', ApiXInMemoryTransport.json(200, { success: true }));
+    const createRequest = (url: string) => new ApiXRequest({ url: new URL(url), keyStore, transport });
+    const first = createRequest('https://apix.example.com/items?sort=name&filter=a+b');
+    const second = createRequest('https://apix.example.com/items?filter=a%20b&sort=name');
+    const date = 'Thu, 01 Jan 2026 00:00:00 GMT';
+
+    const signature = (request: ApiXRequest) => ApiXSigner.createSignature('testAppKey', {
+      httpMethod: request.httpMethod,
+      url: request.url,
+      date,
+      nonce: 'abc'
+    });
+
+    expect(signature(first)).toBe(signature(second));
+
+    await first.make();
+    expect(transport.requests[0].url).toBe('https://apix.example.com/items?filter=a%20b&sort=name');
+  });
+});
@@ -0,0 +1,91 @@
+import { ApiXClient } from '../../ApiXClient';
+import { ApiXInMemoryTransport } from '../../transport/ApiXInMemoryTransport';
+import { ApiXRequestError } from '../../error';
+import { buildApiXUrl } from '../ApiXUrlBuilder';
+import { encodeApiXUrlComponent } from '../ApiXCanonicalQuery';
+
+describe('ApiXUrlBuilder', () => {
+  const baseUrl = 'https://apix.example.com/v1/';
+
+  it('should resolve path templates against the base URL, keeping its path as a prefix', () => {
+    const url = buildApiXUrl('/users/:id/posts', {
+      baseUrl,
+      params: { id: 42 }
+    });
+    expect(url.toString()).toBe('https://apix.example.com/v1/users/42/posts');
+  });
+
+  it('should encode path parameters so they cannot change the path', () => {
+    const url = buildApiXUrl('/files/:name', {
+      baseUrl,
+      params: { name: "a/b?c#d e's(1)*!" }
+    });
+    expect(url.pathname).toBe('/v1/files/a%2Fb%3Fc%23d%20e%27s%281%29%2A%21');
+    expect(url.search).toBe('');
+  });
+
+  it('should reject missing parameters and dot segments', () => {
+    expect(() => buildApiXUrl('/users/:id', { baseUrl })).toThrow(ApiXRequestError);
+    expect(() => buildApiXUrl('/users/:id', { baseUrl, params: { id: '..' } }))
+      .toThrow('Invalid value for path parameter :id in /users/:id: ...');
+  });
+
+  it('should require a base URL for path templates', () => {
+    expect(() => buildApiXUrl('/users')).toThrow('A base URL is required to resolve the path /users.');
+  });
+
+  it('should append query parameters in canonical order, repeating arrays and omitting empty values', () => {
+    const url = buildApiXUrl('/search?lang=en', {
+      baseUrl,
+      query: {
+        q: 'café & bar',
+        tag: ['a', 'b'],
+        page: 2,
+        draft: false,
+        cursor: undefined,
+        owner: null
+      }
+    });
+    expect(url.search).toBe('?draft=false&lang=en&page=2&q=caf%C3%A9%20%26%20bar&tag=a&tag=b');
+  });
+
+  it('should produce exactly the pathname and search that are signed', () => {
+    const url = buildApiXUrl('/users/:id', {
+      baseUrl,
+      params: { id: "o'brien" },
+      query: { filter: "(name eq 'x')" }
+    });
+    const reparsed = new URL(url.toString());
+    expect(`${reparsed.pathname}${reparsed.search}`)
+      .toBe(`/v1/users/${encodeApiXUrlComponent("o'brien")}?filter=${encodeApiXUrlComponent("(name eq 'x')")}`);
+  });
+
+  it('should return the same URL instance when there is nothing to append', () => {
+    const url = new URL('https://apix.example.com/endpoint?param=val');
+    expect(buildApiXUrl(url)).toBe(url);
+    expect(buildApiXUrl(url, { query: { other: 1 } }).toString())
+      .toBe('https://apix.example.com/endpoint?other=1&param=val');
+  });
+
+  it('should let ApiXClient make requests with path templates', async () => {
+    const keyStore = {
+      getApiKey: jest.fn().mockReturnValue('testApiKey'),
+      getAppKey: jest.fn().mockReturnValue('testAppKey'),
+      getKeys: jest.fn().mockReturnValue({
+        apiKey: 'testApiKey',
+        appKey: 'testAppKey'
+      })
+    };
+    const transport = new ApiXInMemoryTransport()
+      .on('GET', '/v1/users/7/posts', ApiXInMemoryTransport.json(200, { success: true }));
+    const client = new ApiXClient(keyStore, { baseUrl, transport });
+
+    const response = await client.makeGetRequest('/users/:id/posts', {
+      params: { id: 7 },
+      query: { limit: 10 }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(transport.requests[0].url).toBe('https://apix.example.com/v1/users/7/posts?limit=10');
+  });
+});
@@ -0,0 +1,2 @@
+export * from './ApiXCanonicalQuery';
+export * from './ApiXUrlBuilder';
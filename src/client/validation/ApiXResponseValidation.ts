@@ -0,0 +1,50 @@
+import { ApiXResponse, ApiXResponseData } from '../types/ApiXResponse';
+import { ApiXResponseError } from '../error/ApiXResponseError';
+import { ApiXResponseValidationError } from '../error/ApiXResponseValidationError';
+import { ApiXResponseValidator } from '../types/ApiXResponseValidator';
+
+/**
+ * Validates the data of a successful response.
+ * 
+ * Responses without a 2xx status code, such as a gateway's HTML 503 page, are
+ * not validated. They throw an `unknownError` `ApiXResponseError` with their
+ * status code instead, so that their data never reaches code that expects
+ * validated data, and they are retried and counted by circuit breakers like
+ * any other failed response.
+ * @param response The response whose data is validated.
+ * @param validator The validator, if any. Without one, the response is returned as is.
+ * @returns The response with the data returned by the validator.
+ * @throws `ApiXResponseValidationError` if the data is invalid, or
+ * `ApiXResponseError` if the response does not have a 2xx status code.
+ * 
+ * @category Validating Responses
+ */
+export const validateApiXResponse = async <DataType extends ApiXResponseData = ApiXResponseData>(
+  response: ApiXResponse,
+  validator?: ApiXResponseValidator<DataType>
+): Promise<ApiXResponse<DataType>> => {
+  if (!validator) {
+    return response as ApiXResponse<DataType>;
+  }
+  if (response.statusCode < 200 || response.statusCode >= 300) {
+    throw new ApiXResponseError('unknownError', response.statusCode, undefined, {
+      headers: response.headers,
+      cookies: response.cookies
+    });
+  }
+
+  if (typeof validator === 'function') {
+    try {
+      return { ...response, data: validator(response.data) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ApiXResponseValidationError(response.statusCode, response.data, [{ message }]);
+    }
+  }
+
+  const result = await validator['~standard'].validate(response.data);
+  if (result.issues) {
+    throw new ApiXResponseValidationError(response.statusCode, response.data, result.issues);
+  }
+  return { ...response, data: result.value };
+};
@@ -0,0 +1,14 @@
+/**
+ * Test utilities, published separately from the client because they depend
+ * on Node.js modules (`http` and `fs`).
+ * 
+ * ```typescript
+ * import { ApiXMockServer } from '@evlt/apix-client/testing';
+ * ```
+ * 
+ * @module @evlt/apix-client/testing
+ * 
+ * @category Testing
+ */
+
+export * from './client/testing';